@@ -305,8 +305,8 @@ describe("Raw Anki Methods Creation Documentation Examples", () => {
       usn: -1,
       tags: "",
       flds: "What is the capital of France?\u001FParis", // Fields separated by \x1f
-      sfld: "What is the capital of France?", // Sort field (first field typically)
-      csum: 0,
+      sfld: "", // Sort field, calculated by addNote()
+      csum: 0, // Checksum of the first field, calculated by addNote()
       flags: 0,
       data: "",
     };
@@ -344,7 +344,11 @@ describe("Raw Anki Methods Creation Documentation Examples", () => {
     const addedNote = notes.find((n) => n.id === basicNote.id);
     const addedCard = cards.find((c) => c.id === basicCard.id);
 
-    expect(addedNote).toEqual(basicNote);
+    expect(addedNote).toEqual({
+      ...basicNote,
+      csum: expect.any(Number),
+      sfld: "What is the capital of France?",
+    });
     expect(addedCard).toEqual(basicCard);
   });
 
@@ -374,8 +378,8 @@ describe("Raw Anki Methods Creation Documentation Examples", () => {
       usn: -1,
       tags: "",
       flds: "Apple\u001FPomme", // English \x1f French
-      sfld: "Apple",
-      csum: 0,
+      sfld: "", // Sort field, calculated by addNote()
+      csum: 0, // Checksum of the first field, calculated by addNote()
       flags: 0,
       data: "",
     };
@@ -436,7 +440,7 @@ describe("Raw Anki Methods Creation Documentation Examples", () => {
     const addedNote = notes.find((n) => n.id === biNote.id);
     const relatedCards = cards.filter((c) => c.nid === biNote.id);
 
-    expect(addedNote).toEqual(biNote);
+    expect(addedNote).toEqual({ ...biNote, csum: expect.any(Number), sfld: "Apple" });
 
     expect(relatedCards).toHaveLength(2);
     expect(relatedCards.find((c) => c.ord === 0)).toBeDefined(); // First template
@@ -469,8 +473,8 @@ describe("Raw Anki Methods Creation Documentation Examples", () => {
       usn: -1,
       tags: "",
       flds: "The {{c1::capital}} of France is {{c2::Paris}}\u001FExtra info about France",
-      sfld: "The capital of France is Paris", // Sorting text without cloze markers
-      csum: 0,
+      sfld: "", // Sort field, calculated by addNote()
+      csum: 0, // Checksum of the first field, calculated by addNote()
       flags: 0,
       data: "",
     };
@@ -532,7 +536,11 @@ describe("Raw Anki Methods Creation Documentation Examples", () => {
     const addedNote = notes.find((n) => n.id === clozeNote.id);
     const relatedCards = cards.filter((c) => c.nid === clozeNote.id);
 
-    expect(addedNote).toEqual(clozeNote);
+    expect(addedNote).toEqual({
+      ...clozeNote,
+      csum: expect.any(Number),
+      sfld: "The {{c1::capital}} of France is {{c2::Paris}}",
+    });
     expect(relatedCards).toHaveLength(2);
     expect(relatedCards.find((c) => c.ord === 0)).toEqual(clozeCard1);
     expect(relatedCards.find((c) => c.ord === 1)).toEqual(clozeCard2);
@@ -10,10 +10,14 @@ import { join } from "node:path";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 
 import {
+  BasicAndReverseNote,
+  BasicNote,
+  ClozeNote,
   SrsPackage,
   createCard,
   createCompleteDeckStructure,
   createDeck,
+  createDeckPreset,
   createNote,
   createNoteType,
 } from "@/srs-package";
@@ -202,6 +206,32 @@ describe("Universal SRS Package Creation Documentation Examples", () => {
   });
 
   // Code Sample: Simple Deck Creation
+  // Code Sample: Built-in Note Types
+  it("should use the built-in note types", () => {
+    const srsPackage = new SrsPackage();
+    const deck = createDeck({ name: "Geography" });
+    srsPackage.addDeck(deck);
+
+    srsPackage.addNoteType(ClozeNote);
+
+    const stockClozeNote = createNote(
+      {
+        deckId: deck.id,
+        fieldValues: [
+          ["Text", "{{c1::Paris}} is the capital of France."],
+          ["Back Extra", ""],
+        ],
+        noteTypeId: ClozeNote.id,
+      },
+      ClozeNote,
+    );
+    srsPackage.addNote(stockClozeNote);
+
+    expect(srsPackage.getNotes()).toEqual([stockClozeNote]);
+    expect(BasicNote.templates).toHaveLength(1);
+    expect(BasicAndReverseNote.templates[1]?.questionTemplate).toBe("{{Back}}");
+  });
+
   it("should create basic deck with name and description", () => {
     const srsPackage = new SrsPackage();
 
@@ -219,6 +249,58 @@ describe("Universal SRS Package Creation Documentation Examples", () => {
     expect(decks[0]).toEqual(deck);
   });
 
+  // Code Sample: Subdecks
+  it("should create subdecks", () => {
+    const srsPackage = new SrsPackage();
+
+    const parentDeck = createDeck({ name: "Japanese" });
+    const subdeck = createDeck({ name: "Verbs", parentId: parentDeck.id });
+
+    srsPackage.addDeck(parentDeck);
+    srsPackage.addDeck(subdeck);
+
+    expect(srsPackage.getChildDecks()).toEqual([parentDeck]);
+    expect(srsPackage.getSubdecks(parentDeck.id)).toEqual([subdeck]);
+    expect(srsPackage.getDeckPath(subdeck.id)).toEqual([parentDeck, subdeck]);
+    expect(srsPackage.getParentDeck(subdeck.id)).toEqual(parentDeck);
+
+    // Parent decks must be added first
+    expect(() => {
+      srsPackage.addDeck(createDeck({ name: "Orphan", parentId: "missing" }));
+    }).toThrow("Parent deck missing does not exist.");
+
+    srsPackage.removeDeck(parentDeck.id);
+    expect(srsPackage.getDecks()).toEqual([]);
+  });
+
+  // Code Sample: Deck Presets
+  it("should share deck options between decks with presets", () => {
+    const srsPackage = new SrsPackage();
+
+    const preset = createDeckPreset({
+      name: "Vocabulary",
+      newCardsPerDay: 10,
+      reviewsPerDay: 200,
+      learningSteps: [1, 10],
+      relearningSteps: [10],
+      maximumInterval: 365,
+      desiredRetention: 0.9,
+    });
+    srsPackage.addDeckPreset(preset);
+
+    const verbsDeck = createDeck({ name: "Verbs", presetId: preset.id });
+    const nounsDeck = createDeck({ name: "Nouns", presetId: preset.id, newCardsPerDay: 5 });
+    srsPackage.addDeck(verbsDeck);
+    srsPackage.addDeck(nounsDeck);
+
+    expect(srsPackage.getDeckPresets()).toEqual([preset]);
+    expect(srsPackage.getDecks().map((deck) => deck.presetId)).toEqual([preset.id, preset.id]);
+
+    // Decks of removed presets use the default options
+    srsPackage.removeDeckPreset(preset.id);
+    expect(srsPackage.getDecks().map((deck) => deck.presetId)).toEqual([undefined, undefined]);
+  });
+
   // Code Sample: Basic Notes Creation
   it("should create basic notes with field values and tags", () => {
     // Set up prerequisites
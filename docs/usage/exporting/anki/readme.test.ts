@@ -4,14 +4,16 @@
  */
 
 import { existsSync } from "node:fs";
-import { mkdtemp, rm } from "node:fs/promises";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 
+import type { AnkiExportSelection } from "@/anki/anki-package";
 import { AnkiPackage } from "@/anki/anki-package";
 import { basicModel, defaultDeck } from "@/anki/constants";
+import { ExportVersion } from "@/anki/types";
 
 describe("Anki Export Documentation Examples", () => {
   let tempDir: string;
@@ -93,4 +95,203 @@ describe("Anki Export Documentation Examples", () => {
     // Verify the export generated a file
     expect(existsSync(exportPath)).toBe(true);
   });
+
+  // Code Sample: Exporting Part of a Package
+  it("should export part of a package", async () => {
+    const result = await AnkiPackage.fromDefault();
+    expect(result.status).toBe("success");
+    if (!result.data) {
+      throw new Error("Failed to create Anki package");
+    }
+    const ankiPackage = result.data;
+
+    try {
+      ankiPackage.addNoteType(basicModel);
+      const japaneseDeck = { ...defaultDeck, id: 100, name: "Japanese" };
+      ankiPackage.addDeck(japaneseDeck);
+      ankiPackage.addDeck({ ...defaultDeck, id: 101, name: "Japanese::Verbs" });
+      const notes = [
+        { deckId: 101, fields: "食べる\u001FTo eat", tags: "verbs", queue: 0 },
+        { deckId: 101, fields: "飲む\u001FTo drink", tags: "verbs", queue: -1 },
+        { deckId: 1, fields: "manger\u001FTo eat", tags: "verbs", queue: 0 },
+      ];
+      for (const [index, { deckId, fields, queue, tags }] of notes.entries()) {
+        ankiPackage.addNote({
+          csum: 0,
+          data: "",
+          flags: 0,
+          flds: fields,
+          guid: `SelectionNote${index.toFixed(0)}`,
+          id: 1000 + index,
+          mid: basicModel.id,
+          mod: 0,
+          sfld: "",
+          tags,
+          usn: -1,
+        });
+        ankiPackage.addCard({
+          data: "",
+          did: deckId,
+          due: 1,
+          factor: 0,
+          flags: 0,
+          id: 2000 + index,
+          ivl: 0,
+          lapses: 0,
+          left: 0,
+          mod: 0,
+          nid: 1000 + index,
+          odid: 0,
+          odue: 0,
+          ord: 0,
+          queue,
+          reps: 0,
+          type: 0,
+          usn: -1,
+        });
+      }
+
+      const selection: AnkiExportSelection = {
+        deckIds: [japaneseDeck.id],
+        includeSubdecks: true,
+        tags: ["verbs"],
+        cardFilter: (card) => card.queue !== -1, // Leave out suspended cards
+      };
+
+      // What will be exported, and what is left out
+      const summary = ankiPackage.getExportSummary({ selection });
+      expect(summary.notes).toBe(1);
+      expect(summary.leftOut.notes).toBe(2);
+      expect(summary.missingMediaFiles).toEqual([]);
+
+      const exportPath = join(tempDir, "japanese-verbs.apkg");
+      await ankiPackage.toAnkiExport(exportPath, { selection });
+      expect(existsSync(exportPath)).toBe(true);
+    } finally {
+      await ankiPackage.cleanup();
+    }
+  });
+
+  // Code Sample: Sharing Decks
+  it("should export a deck without scheduling information", async () => {
+    const result = await AnkiPackage.fromAnkiExport("./tests/fixtures/anki/mixed-legacy-2.apkg");
+    expect(result.status).toBe("success");
+    if (!result.data) {
+      throw new Error("Failed to read Anki package");
+    }
+    const ankiPackage = result.data;
+
+    try {
+      const exportPath = join(tempDir, "shared-deck.apkg");
+      await ankiPackage.toAnkiExport(exportPath, { includeScheduling: false });
+
+      const shared = await AnkiPackage.fromAnkiExport(exportPath);
+      expect(shared.status).toBe("success");
+      try {
+        expect(shared.data?.getReviews()).toEqual([]);
+        expect(shared.data?.getCards().every((card) => card.reps === 0)).toBe(true);
+      } finally {
+        await shared.data?.cleanup();
+      }
+    } finally {
+      await ankiPackage.cleanup();
+    }
+  });
+
+  // Code Sample: Exporting to Memory or a Stream
+  it("should export an Anki package to memory or a stream", async () => {
+    const result = await AnkiPackage.fromAnkiExport("./tests/fixtures/anki/empty-legacy-2.apkg");
+    expect(result.status).toBe("success");
+    if (!result.data) {
+      throw new Error("Failed to read Anki package");
+    }
+    const ankiPackage = result.data;
+
+    try {
+      // The whole package in memory
+      const data = await ankiPackage.toAnkiExportBuffer();
+
+      // A web ReadableStream that writes the package while it is read
+      const stream = ankiPackage.toAnkiExportStream({ format: "apkg" });
+      const uploaded = new Uint8Array(await new Response(stream).arrayBuffer());
+
+      expect(data.length).toBeGreaterThan(0);
+      expect(uploaded.length).toBe(data.length);
+    } finally {
+      await ankiPackage.cleanup();
+    }
+  });
+
+  // Code Sample: Collection Backups
+  it("should export a collection package", async () => {
+    const result = await AnkiPackage.fromAnkiExport("./tests/fixtures/anki/empty-legacy-2.colpkg");
+    expect(result.status).toBe("success");
+    if (!result.data) {
+      throw new Error("Failed to read Anki package");
+    }
+    const ankiPackage = result.data;
+
+    try {
+      // The kind of package is taken from the file extension
+      await ankiPackage.toAnkiExport(join(tempDir, "backup.colpkg"));
+
+      // Or given explicitly, e.g. for other file names
+      await ankiPackage.toAnkiExport(join(tempDir, "backup.zip"), { format: "colpkg" });
+
+      // Packages that were read know their kind
+      expect(ankiPackage.getFormat()).toBe("colpkg");
+
+      expect(existsSync(join(tempDir, "backup.colpkg"))).toBe(true);
+      expect(existsSync(join(tempDir, "backup.zip"))).toBe(true);
+    } finally {
+      await ankiPackage.cleanup();
+    }
+  });
+
+  // Code Sample: Export Format
+  it("should export in the latest format", async () => {
+    const result = await AnkiPackage.fromAnkiExport("./tests/fixtures/anki/mixed-legacy-2.apkg");
+    expect(result.status).toBe("success");
+    if (!result.data) {
+      throw new Error("Failed to read Anki package");
+    }
+    const ankiPackage = result.data;
+
+    try {
+      const exportPath = join(tempDir, "my-custom-deck.apkg");
+      await ankiPackage.toAnkiExport(exportPath, { version: ExportVersion.Latest });
+
+      const reimported = await AnkiPackage.fromAnkiExport(exportPath);
+      expect(reimported.status).toBe("success");
+      try {
+        expect(reimported.data?.getNotes()).toHaveLength(ankiPackage.getNotes().length);
+      } finally {
+        await reimported.data?.cleanup();
+      }
+    } finally {
+      await ankiPackage.cleanup();
+    }
+  });
+
+  // Code Sample: Deterministic Exports
+  it("should export the same bytes in deterministic mode", async () => {
+    const result = await AnkiPackage.fromAnkiExport("./tests/fixtures/anki/mixed-legacy-2.apkg");
+    expect(result.status).toBe("success");
+    if (!result.data) {
+      throw new Error("Failed to read Anki package");
+    }
+    const ankiPackage = result.data;
+
+    try {
+      const firstPath = join(tempDir, "my-custom-deck.apkg");
+      await ankiPackage.toAnkiExport(firstPath, { deterministic: true });
+      const secondPath = join(tempDir, "my-custom-deck-again.apkg");
+      await ankiPackage.toAnkiExport(secondPath, { deterministic: true });
+
+      const [first, second] = await Promise.all([readFile(firstPath), readFile(secondPath)]);
+      expect(second.equals(first)).toBe(true);
+    } finally {
+      await ankiPackage.cleanup();
+    }
+  });
 });
@@ -3,14 +3,14 @@
  * Covers all code samples from README.md
  */
 
-import { createWriteStream } from "node:fs";
-import { access, mkdtemp, rm } from "node:fs/promises";
+import { access, mkdtemp, rm, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 
 import { AnkiPackage } from "@/anki/anki-package";
+import { createAnkiProfile } from "@/anki/anki-package.fixtures";
 import { basicModel, clozeModel, defaultDeck } from "@/anki/constants";
 
 // Test helper functions
@@ -258,18 +258,34 @@ describe("Anki Reading Documentation Examples", () => {
 
       // Example: Save to disk
       const outputPath = join(tempDir, filename);
-      const writeStream = createWriteStream(outputPath);
-      stream.pipe(writeStream);
-
-      await new Promise<void>((resolve, reject) => {
-        writeStream.on("finish", () => {
-          resolve();
-        });
-        writeStream.on("error", reject);
-      });
+      await writeFile(outputPath, stream);
 
       // Verify file was created
       await access(outputPath); // Will throw if file doesn't exist
     }
   });
+
+  // Code Sample: Reading an Anki Profile
+  it("should read the collection of an Anki profile", async () => {
+    // Create a profile with a collection and its media folder
+    const collectionPath = await createAnkiProfile(tempDir);
+
+    const result = await AnkiPackage.fromAnkiCollection(collectionPath);
+
+    if (result.status === "failure" || !result.data) {
+      throw new Error("Failed to read the profile");
+    }
+    const ankiPackage = result.data;
+
+    try {
+      expect(ankiPackage.listMediaFiles()).toHaveLength(2);
+
+      // Write a full backup that can be restored in Anki
+      const backupPath = join(tempDir, "backup.colpkg");
+      await ankiPackage.toAnkiExport(backupPath);
+      await access(backupPath); // Will throw if file doesn't exist
+    } finally {
+      await ankiPackage.cleanup();
+    }
+  });
 });
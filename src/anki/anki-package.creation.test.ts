@@ -3,8 +3,8 @@ import { access } from "node:fs/promises";
 import { describe, expect, it } from "vitest";
 
 import { AnkiPackage } from "./anki-package";
-import { expectSuccess, setupTempDir } from "./anki-package.fixtures";
-import { defaultConfig, defaultDeck } from "./constants";
+import { createTestAnkiNote, expectSuccess, setupTempDir } from "./anki-package.fixtures";
+import { basicModel, defaultConfig, defaultDeck } from "./constants";
 
 setupTempDir();
 
@@ -102,4 +102,59 @@ describe("Creation", () => {
       }
     });
   });
+
+  describe("addNote()", () => {
+    it("should calculate the sort field and checksum of notes", async () => {
+      const ankiPackage = expectSuccess(await AnkiPackage.fromDefault());
+
+      try {
+        ankiPackage.addNoteType({ ...basicModel, sortf: 1 });
+        ankiPackage.addNote({
+          ...createTestAnkiNote({
+            fields: ["<b>abc</b>", 'Answer <img src="answer.png">'],
+            noteTypeId: basicModel.id,
+          }),
+          csum: 0,
+          sfld: "",
+        });
+
+        expect(ankiPackage.getNotes()[0]).toMatchObject({
+          // The first 8 hex digits of the SHA-1 hash of "abc" are a9993e36
+          csum: 0xa9_99_3e_36,
+          sfld: "Answer  answer.png ",
+        });
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+  });
+
+  describe("updateNoteChecksums()", () => {
+    it("should recalculate the sort field and checksum of notes", async () => {
+      const ankiPackage = expectSuccess(await AnkiPackage.fromDefault());
+
+      try {
+        ankiPackage.addNoteType(basicModel);
+        ankiPackage.addNote(
+          createTestAnkiNote({
+            fields: ["<b>abc</b>", 'Answer <img src="answer.png">'],
+            noteTypeId: basicModel.id,
+          }),
+        );
+        ankiPackage.addNote(
+          createTestAnkiNote({ fields: ["Unchanged", "Unchanged"], noteTypeId: basicModel.id }),
+        );
+        ankiPackage.addNoteType({ ...basicModel, sortf: 1 });
+
+        expect(ankiPackage.updateNoteChecksums()).toBe(1);
+        expect(ankiPackage.getNotes()[0]).toMatchObject({
+          csum: 0xa9_99_3e_36,
+          sfld: "Answer  answer.png ",
+        });
+        expect(ankiPackage.updateNoteChecksums()).toBe(0);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+  });
 });
@@ -408,7 +408,7 @@ describe("Data Management", () => {
 
       // Replace the temp directory with a non-existent path to trigger cleanup failure
       const nonExistentPath = "/non/existent/path/that/should/not/exist";
-      (pkg as unknown as { tempDir: string }).tempDir = nonExistentPath;
+      (pkg as unknown as { storage: { location: string } }).storage.location = nonExistentPath;
 
       const cleanupIssues = await pkg.cleanup();
 
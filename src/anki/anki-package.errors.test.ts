@@ -7,11 +7,15 @@ import { describe, expect, it } from "vitest";
 import { AnkiPackage } from "./anki-package";
 import {
   createAnkiDatabaseWithData,
+  createDamagedAnkiDatabase,
   createTestZip,
+  expectSuccess,
   getTempDir,
   getValidAnkiDatabaseBuffer,
   setupTempDir,
   validMetaV2,
+  validMetaV3,
+  zstd,
 } from "./anki-package.fixtures";
 
 setupTempDir();
@@ -151,11 +155,8 @@ describe("Error Handling and Edge Cases", () => {
     it("should detect and report missing meta file with specific message", async () => {
       const tempDir = getTempDir();
       const zipPath = join(tempDir, "missing-meta.apkg");
-      // Create ZIP with media and database, but no meta file
-      await createTestZip(zipPath, [
-        { content: "{}", name: "media" },
-        { content: Buffer.alloc(100), name: "collection.anki21" }, // Dummy database
-      ]);
+      // Create ZIP with media, but no meta file and no collection to detect the version from
+      await createTestZip(zipPath, [{ content: "{}", name: "media" }]);
 
       const result = await AnkiPackage.fromAnkiExport(zipPath);
 
@@ -404,6 +405,36 @@ describe("Error Handling and Edge Cases", () => {
       expect(message.length).toBeGreaterThan(50);
       expect(message).toMatch(/Anki.*re-export/is);
     });
+
+    it("should recover the readable rows of a partially damaged database", async () => {
+      const tempDir = getTempDir();
+      const zipPath = join(tempDir, "damaged-page.apkg");
+      const { buffer, noteIds } = await createDamagedAnkiDatabase();
+
+      await createTestZip(zipPath, [
+        { content: validMetaV2, name: "meta" },
+        { content: "{}", name: "media" },
+        { content: buffer, name: "collection.anki21" },
+      ]);
+
+      const result = await AnkiPackage.fromAnkiExport(zipPath);
+
+      expect(result.status).toBe("partial");
+      const damagedIssue = result.issues.find((issue) =>
+        /notes between IDs \d+ and \d+ could not be read/.test(issue.message),
+      );
+      expect(damagedIssue?.severity).toBe("error");
+      expect(damagedIssue?.context?.itemType).toBe("note");
+      expect(damagedIssue?.message).toContain("collection.anki21 database is damaged");
+
+      const notes = result.data?.getNotes() ?? [];
+      expect(notes.length).toBeGreaterThan(0);
+      expect(notes.length).toBeLessThan(noteIds.length);
+      await result.data?.cleanup();
+
+      const strictResult = await AnkiPackage.fromAnkiExport(zipPath, { errorHandling: "strict" });
+      expect(strictResult.status).toBe("failure");
+    });
   });
 
   describe("Invalid JSON in Media Metadata Handling", () => {
@@ -570,6 +601,24 @@ describe("Error Handling and Edge Cases", () => {
       expect(message.length).toBeGreaterThan(50);
       expect(message).toMatch(/re-export.*Anki/is);
     });
+
+    it("should detect an undecodable media mapping in latest exports", async () => {
+      const tempDir = getTempDir();
+      const zipPath = join(tempDir, "latest-invalid-media.apkg");
+      // The latest format expects zstd compressed protobuf, not JSON
+      await createTestZip(zipPath, [
+        { content: validMetaV3, name: "meta" },
+        { content: "{}", name: "media" },
+        { content: zstd(await getValidAnkiDatabaseBuffer()), name: "collection.anki21b" },
+      ]);
+
+      const result = await AnkiPackage.fromAnkiExport(zipPath);
+
+      expect(result.status).toBe("failure");
+      expect(result.issues[0]?.severity).toBe("critical");
+      expect(result.issues[0]?.message).toMatch(/media mapping file could not be decoded/i);
+      expect(result.issues[0]?.message).toMatch(/re-export/i);
+    });
   });
 
   describe("Partial Data Recovery", () => {
@@ -896,6 +945,131 @@ describe("Error Handling and Edge Cases", () => {
       expect(result.data).toBeDefined();
       expect(result.issues.length).toBe(0);
     });
+
+    it("should repair invalid collection properties and report them as warnings", async () => {
+      const tempDir = getTempDir();
+      const zipPath = join(tempDir, "repaired-collection.apkg");
+
+      const validDb = await createAnkiDatabaseWithData({
+        cards: [{ did: 1, id: 100, nid: 1000 }],
+        decks: {
+          "1": { collapsed: "no", id: 1, name: "Default", newToday: null },
+        },
+        notes: [
+          {
+            flds: "Front 1\u001FBack 1",
+            guid: "note1",
+            id: 1000,
+            mid: 1_234_567_890_123,
+          },
+        ],
+      });
+
+      await createTestZip(zipPath, [
+        { content: validMetaV2, name: "meta" },
+        { content: "{}", name: "media" },
+        { content: validDb, name: "collection.anki21" },
+      ]);
+
+      const result = await AnkiPackage.fromAnkiExport(zipPath, {
+        errorHandling: "strict",
+      });
+      const ankiPackage = expectSuccess(result);
+
+      try {
+        const deck = ankiPackage.getDecks()[0];
+        expect(deck?.collapsed).toBe(true);
+        expect(deck?.newToday).toEqual([0, 0]);
+        expect(deck?.desc).toBe("");
+
+        const deckWarnings = result.issues.filter((i) => i.context?.itemType === "deck");
+        expect(deckWarnings.every((i) => i.severity === "warning")).toBe(true);
+        expect(deckWarnings.map((i) => i.message)).toContain(
+          `Deck '1' has an invalid 'collapsed' value "no". The default value true is used.`,
+        );
+        expect(deckWarnings.map((i) => i.message)).toContain(
+          "Deck '1' is missing the 'desc' property. The default value \"\" is used.",
+        );
+
+        // The repaired collection can be converted
+        expect(ankiPackage.toSrsPackage().data?.getDecks()).toHaveLength(1);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should report collection columns that are not valid JSON", async () => {
+      const tempDir = getTempDir();
+      const zipPath = join(tempDir, "invalid-json-collection.apkg");
+
+      const invalidDb = await createAnkiDatabaseWithData({
+        cards: [{ did: 1, id: 100, nid: 1000 }],
+        conf: "{not json",
+        decks: '{"1": {"name": "Default"',
+        notes: [{ flds: "Front\u001FBack", guid: "note1", id: 1000, mid: 1_234_567_890_123 }],
+      });
+
+      await createTestZip(zipPath, [
+        { content: validMetaV2, name: "meta" },
+        { content: "{}", name: "media" },
+        { content: invalidDb, name: "collection.anki21" },
+      ]);
+
+      const result = await AnkiPackage.fromAnkiExport(zipPath);
+
+      expect(result.status).toBe("partial");
+      const messages = result.issues.map((i) => i.message);
+      expect(messages).toContainEqual(
+        expect.stringMatching(
+          /^The collection configuration of the collection.anki21 database could not be read because it is not valid JSON \(.+\)\. The default configuration is used\.$/,
+        ),
+      );
+      expect(messages).toContainEqual(
+        expect.stringMatching(
+          /^The decks of the collection.anki21 database could not be read because it is not valid JSON \(.+\)\. They are missing from the package, and so are their cards\.$/,
+        ),
+      );
+      expect(result.data?.getConfig().schedVer).toBe(2);
+      expect(result.data?.getNoteTypes()).toHaveLength(1);
+      expect(result.data?.getCards()).toHaveLength(0);
+      await result.data?.cleanup();
+    });
+
+    it("should skip note types with unusable templates", async () => {
+      const tempDir = getTempDir();
+      const zipPath = join(tempDir, "invalid-template.apkg");
+
+      const validDb = await createAnkiDatabaseWithData({
+        cards: [{ did: 1, id: 100, nid: 1000 }],
+        models: {
+          "1234567890123": {
+            flds: [{ name: "Front", ord: 0 }],
+            id: 1_234_567_890_123,
+            name: "Broken",
+            tmpls: [{ afmt: "{{Front}}", name: "Card 1", ord: 0 }],
+          },
+        },
+        notes: [{ flds: "Front", guid: "note1", id: 1000, mid: 1_234_567_890_123 }],
+      });
+
+      await createTestZip(zipPath, [
+        { content: validMetaV2, name: "meta" },
+        { content: "{}", name: "media" },
+        { content: validDb, name: "collection.anki21" },
+      ]);
+
+      const result = await AnkiPackage.fromAnkiExport(zipPath);
+
+      expect(result.status).toBe("partial");
+      const noteTypeIssue = result.issues.find(
+        (i) => i.context?.itemType === "noteType" && i.severity === "error",
+      );
+      expect(noteTypeIssue?.message).toBe(
+        "Note type '1234567890123' is invalid: invalid template 1: missing or invalid 'qfmt' field. This note type will be skipped.",
+      );
+      expect(result.data?.getNotes()).toHaveLength(0);
+      await result.data?.cleanup();
+    });
   });
 
   describe("Data Integrity Tests", () => {
@@ -1,8 +1,9 @@
 import { Buffer } from "node:buffer";
 import { createWriteStream } from "node:fs";
-import { mkdtemp } from "node:fs/promises";
+import { mkdir, mkdtemp, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import { zstdCompressSync } from "node:zlib";
 
 import archiver from "archiver";
 import { Open } from "unzipper";
@@ -11,16 +12,31 @@ import { afterEach, beforeEach, expect } from "vitest";
 import type { ConversionResult } from "@/error-handling";
 import type { SrsNoteTemplate, SrsNoteType } from "@/srs-package";
 import { SrsPackage, createCard, createDeck, createNote, createNoteType } from "@/srs-package";
-
-import type { CardsTable, Ease, NotesTable, RevlogTable } from "./types";
+import { openLocalFile } from "@/storage/node-storage";
+import { ZipReader } from "@/zip/zip-reader";
+
+import { AnkiPackage } from "./anki-package";
+import { basicModel, defaultDeck, defaultDeckConfig } from "./constants";
+import { AnkiDatabase } from "./database";
+import { writeMediaEntries } from "./media-entries";
+import type { CardsTable, DatabaseDump, Ease, NotesTable, RevlogTable } from "./types";
 import { guid64, joinAnkiFields } from "./util";
+import { decompressZstd, isZstdCompressed } from "./zstd";
 
 // #region Helpers - Constants
 
+// Valid meta file for version 1 (Legacy_V1)
+// Protobuf encoding: field 1 (varint) with value 1 = [0x08, 0x01]
+export const validMetaV1 = Buffer.from([0x08, 0x01]);
+
 // Valid meta file for version 2 (Legacy_V2)
 // Protobuf encoding: field 1 (varint) with value 2 = [0x08, 0x02]
 export const validMetaV2 = Buffer.from([0x08, 0x02]);
 
+// Valid meta file for version 3 (Latest)
+// Protobuf encoding: field 1 (varint) with value 3 = [0x08, 0x03]
+export const validMetaV3 = Buffer.from([0x08, 0x03]);
+
 // #endregion Helpers - Constants
 
 //#region Helpers - Test Results
@@ -282,6 +298,18 @@ export function createTestZip(
   });
 }
 
+// Helper to encode a media mapping in the protobuf format of the latest (v3) export format
+export function encodeMediaEntries(entries: { name: string; size: number }[]): Buffer {
+  return Buffer.from(
+    writeMediaEntries({ entries: entries.map((entry) => ({ ...entry, sha1: new Uint8Array() })) }),
+  );
+}
+
+// Helper to compress data the way the latest (v3) export format does
+export function zstd(content: string | Uint8Array): Buffer {
+  return zstdCompressSync(typeof content === "string" ? Buffer.from(content) : content);
+}
+
 // Helper to get a valid Anki database buffer from the fixture (cached)
 let cachedValidDb: Buffer | null = null;
 export async function getValidAnkiDatabaseBuffer(): Promise<Buffer> {
@@ -332,9 +360,11 @@ export function getTempDir(): string {
 // #region Helpers - Database Creation
 
 // Helper function to create a valid SQLite database for testing partial recovery
+// The JSON columns of the collection can be given as strings to write them as they are
 export async function createAnkiDatabaseWithData(options: {
-  models?: Record<string, unknown>;
-  decks?: Record<string, unknown>;
+  conf?: Record<string, unknown> | string;
+  models?: Record<string, unknown> | string;
+  decks?: Record<string, unknown> | string;
   notes?: {
     id: number;
     guid: string;
@@ -345,6 +375,8 @@ export async function createAnkiDatabaseWithData(options: {
     id: number;
     nid: number;
     did: number;
+    type?: number;
+    queue?: number;
   }[];
   reviews?: {
     id: number;
@@ -597,9 +629,11 @@ export async function createAnkiDatabaseWithData(options: {
     0,
     -1,
     0,
-    JSON.stringify(defaultConf),
-    JSON.stringify(defaultModels),
-    JSON.stringify(defaultDecks),
+    typeof options.conf === "string"
+      ? options.conf
+      : JSON.stringify({ ...defaultConf, ...options.conf }),
+    typeof defaultModels === "string" ? defaultModels : JSON.stringify(defaultModels),
+    typeof defaultDecks === "string" ? defaultDecks : JSON.stringify(defaultDecks),
     JSON.stringify(defaultDconf),
     "{}",
   ]);
@@ -633,8 +667,8 @@ export async function createAnkiDatabaseWithData(options: {
         0,
         Math.floor(now / 1000),
         -1,
-        0,
-        0,
+        card.type ?? 0,
+        card.queue ?? 0,
         0,
         0,
         2500,
@@ -669,4 +703,180 @@ export async function createAnkiDatabaseWithData(options: {
   return Buffer.from(db.export());
 }
 
+// Helper function to create a database whose notes table has a damaged page in the middle.
+// The notes are large enough to fill many pages, so the damaged page only contains notes.
+export async function createDamagedAnkiDatabase(noteCount = 300): Promise<{
+  buffer: Buffer;
+  noteIds: number[];
+}> {
+  const notes = Array.from({ length: noteCount }, (_, index) => ({
+    flds: `Front ${index.toFixed(0)}\u001F${"Back ".repeat(200)}`,
+    guid: `note${index.toFixed(0)}`,
+    id: 1_700_000_000_000 + index * 1000,
+    mid: 1_234_567_890_123,
+  }));
+  const buffer = await createAnkiDatabaseWithData({
+    cards: notes.map((note) => ({ did: 1, id: note.id, nid: note.id })),
+    notes,
+  });
+
+  // The page size is stored big-endian at offset 16 of the SQLite header
+  const pageSize = buffer.readUInt16BE(16);
+  const damagedPage = Math.floor(buffer.length / pageSize / 2);
+  buffer.fill(0xff, damagedPage * pageSize, (damagedPage + 1) * pageSize);
+
+  return { buffer, noteIds: notes.map((note) => note.id) };
+}
+
+// Helper function to create a collection package with collection-wide state: an unused
+// deck configuration, an unused tag and deleted items
+export async function createCollectionPackage(filepath: string): Promise<void> {
+  const db = await AnkiDatabase.fromDefault();
+  let dump: DatabaseDump;
+  try {
+    dump = await db.toObject();
+  } finally {
+    await db.close();
+  }
+
+  dump.collection.models = { [basicModel.id.toFixed(0)]: basicModel };
+  dump.collection.dconf["2"] = { ...defaultDeckConfig, id: 2, name: "Unused" };
+  dump.collection.tags = { unused: 0, used: 0 };
+  dump.notes.push(
+    createTestAnkiNote({
+      fields: ["Front", "Back"],
+      id: 1000,
+      noteTypeId: basicModel.id,
+      tags: ["used"],
+    }),
+  );
+  dump.cards.push(createTestAnkiCard({ deckId: 1, id: 2000, noteId: 1000 }));
+  dump.reviews.push(createTestAnkiReview({ cardId: 2000, ease: 3, id: 3000 }));
+  dump.deletedItems.push({ oid: 4000, type: 1, usn: -1 });
+
+  const collection = await AnkiDatabase.fromDump(dump);
+  try {
+    await createTestZip(filepath, [
+      { content: validMetaV2, name: "meta" },
+      { content: "{}", name: "media" },
+      { content: Buffer.from(collection.toBuffer()), name: "collection.anki21" },
+    ]);
+  } finally {
+    await collection.close();
+  }
+}
+
+// Helper function to create the files of an Anki profile: the collection with a note that
+// shows an image and the media folder with the image, a sound file, a hidden file and a subfolder
+export async function createAnkiProfile(directory: string): Promise<string> {
+  const collectionPath = join(directory, "collection.anki2");
+  const mediaFolder = join(directory, "collection.media");
+  await mkdir(join(mediaFolder, "subfolder"), { recursive: true });
+
+  await writeFile(
+    collectionPath,
+    await createAnkiDatabaseWithData({
+      cards: [{ did: 1, id: 2000, nid: 1000 }],
+      notes: [
+        {
+          flds: '<img src="image.png">\u001FBack',
+          guid: "profile",
+          id: 1000,
+          mid: 1_234_567_890_123,
+        },
+      ],
+    }),
+  );
+  await writeFile(join(mediaFolder, "image.png"), "image content");
+  await writeFile(join(mediaFolder, "sound.mp3"), "sound content");
+  await writeFile(join(mediaFolder, ".DS_Store"), "hidden");
+  await writeFile(join(mediaFolder, "subfolder", "nested.png"), "nested");
+
+  return collectionPath;
+}
+
+// Helper function to create a package with decks and subdecks to select parts of:
+// - note 1000 in "Japanese" (deck 100), tagged "japanese::verbs", shows verb.png
+// - note 1001 in "Japanese::Verbs" (deck 101), tagged "japanese", plays taberu.mp3
+// - note 1002 in "French" (deck 200) with its own note type, tagged "french", shows french.png and missing.png
+// The Japanese note type uses _font.ttf in its styling, unused.txt is not used at all.
+// Cards have the ID of their note + 1000, the French card has a review.
+export async function createMultiDeckAnkiPackage(): Promise<AnkiPackage> {
+  const result = await AnkiPackage.fromDefault();
+  if (!result.data) {
+    throw new Error("Failed to create Anki package");
+  }
+  const ankiPackage = result.data;
+
+  const japaneseNoteType = {
+    ...basicModel,
+    css: `${basicModel.css}@font-face { font-family: jp; src: url("_font.ttf"); }\n`,
+  };
+  const frenchNoteType = { ...basicModel, id: basicModel.id + 1, name: "French" };
+  ankiPackage.addNoteType(japaneseNoteType);
+  ankiPackage.addNoteType(frenchNoteType);
+  ankiPackage.addDeck({ ...defaultDeck, id: 100, name: "Japanese" });
+  ankiPackage.addDeck({ ...defaultDeck, id: 101, name: "Japanese::Verbs" });
+  ankiPackage.addDeck({ ...defaultDeck, id: 200, name: "French" });
+
+  const notes = [
+    {
+      deckId: 100,
+      fields: ['<img src="verb.png">', "Verb"],
+      noteTypeId: japaneseNoteType.id,
+      tags: ["japanese::verbs"],
+    },
+    {
+      deckId: 101,
+      fields: ["[sound:taberu.mp3]", "To eat"],
+      noteTypeId: japaneseNoteType.id,
+      tags: ["japanese"],
+    },
+    {
+      deckId: 200,
+      fields: ['<img src="french.png"><img src="missing.png">', "France"],
+      noteTypeId: frenchNoteType.id,
+      tags: ["french"],
+    },
+  ];
+  for (const [index, { deckId, fields, noteTypeId, tags }] of notes.entries()) {
+    const id = 1000 + index;
+    ankiPackage.addNote(createTestAnkiNote({ fields, id, noteTypeId, tags }));
+    ankiPackage.addCard(createTestAnkiCard({ deckId, id: id + 1000, noteId: id }));
+  }
+  ankiPackage.addReview(createTestAnkiReview({ cardId: 2002, ease: 3, id: 3000 }));
+
+  for (const filename of ["verb.png", "taberu.mp3", "french.png", "_font.ttf", "unused.txt"]) {
+    await ankiPackage.addMediaFile(filename, new TextEncoder().encode(filename));
+  }
+  return ankiPackage;
+}
+
+// Helper function to read the database of a written package without validating it
+export async function readExportedDatabase(
+  filepath: string,
+  dbFileName = "collection.anki21",
+): Promise<DatabaseDump> {
+  const archive = await ZipReader.open(await openLocalFile(filepath));
+  let content: Uint8Array;
+  try {
+    const entry = archive.getEntry(dbFileName);
+    if (!entry) {
+      throw new Error(`${dbFileName} not found in ${filepath}`);
+    }
+    content = await archive.read(entry);
+  } finally {
+    await archive.close();
+  }
+
+  const db = await AnkiDatabase.fromBuffer(
+    isZstdCompressed(content) ? decompressZstd(content) : content,
+  );
+  try {
+    return await db.toObject();
+  } finally {
+    await db.close();
+  }
+}
+
 // #endregion Helpers - Database Creation
@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 
 import {
+  BasicNote,
   SrsPackage,
   SrsReviewScore,
   createCard,
@@ -12,10 +13,13 @@ import {
 import { AnkiPackage } from "./anki-package";
 import {
   createBasicSrsPackage,
+  createTestAnkiCard,
+  createTestAnkiNote,
   expectPartial,
   expectSuccess,
   setupTempDir,
 } from "./anki-package.fixtures";
+import { basicModel, defaultDeck, defaultDeckConfig } from "./constants";
 import type { Ease } from "./types";
 
 setupTempDir();
@@ -463,9 +467,145 @@ describe("Conversion Anki → SRS", () => {
 
       await ankiPackage.cleanup();
     });
+
+    // Decks without notes are removed on conversion, unless they are parents of other decks
+    function addNoteToDeck(ankiPackage: AnkiPackage, deckId: number) {
+      ankiPackage.addNoteType(basicModel);
+      const note = createTestAnkiNote({ fields: ["Front", "Back"], noteTypeId: basicModel.id });
+      ankiPackage.addNote(note);
+      ankiPackage.addCard(createTestAnkiCard({ deckId, noteId: note.id }));
+    }
+
+    it("should convert subdecks into the deck hierarchy", async () => {
+      const ankiPackage = expectSuccess(await AnkiPackage.fromDefault());
+
+      try {
+        ankiPackage.addDeck({ ...defaultDeck, id: 3, name: "Japanese::N5" });
+        ankiPackage.addDeck({ ...defaultDeck, id: 2, name: "Japanese" });
+        ankiPackage.addDeck({ ...defaultDeck, id: 4, name: "Japanese::N5::Verbs" });
+        addNoteToDeck(ankiPackage, 4);
+
+        const srsPackage = expectSuccess(ankiPackage.toSrsPackage());
+        const [japanese] = srsPackage.getChildDecks().filter((deck) => deck.name === "Japanese");
+        const verbs = srsPackage.getDecks().find((deck) => deck.name === "Verbs");
+
+        expect(japanese).toBeDefined();
+        expect(srsPackage.getSubdecks(japanese?.id ?? "").map((deck) => deck.name)).toEqual([
+          "N5",
+          "Verbs",
+        ]);
+        expect(srsPackage.getDeckPath(verbs?.id ?? "").map((deck) => deck.name)).toEqual([
+          "Japanese",
+          "N5",
+          "Verbs",
+        ]);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should add missing parent decks with a warning", async () => {
+      const ankiPackage = expectSuccess(await AnkiPackage.fromDefault());
+
+      try {
+        ankiPackage.addDeck({ ...defaultDeck, id: 2, name: "Languages::Japanese" });
+        addNoteToDeck(ankiPackage, 2);
+
+        const result = ankiPackage.toSrsPackage();
+        const srsPackage = expectSuccess(result);
+        const japanese = srsPackage.getDecks().find((deck) => deck.name === "Japanese");
+
+        expect(srsPackage.getParentDeck(japanese?.id ?? "")?.name).toBe("Languages");
+        expect(result.issues).toEqual([
+          expect.objectContaining({
+            message:
+              "The parent deck 'Languages' of the deck 'Languages::Japanese' does not exist. It is added to keep the deck hierarchy.",
+            severity: "warning",
+          }),
+        ]);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should convert deck configurations to deck presets", async () => {
+      const ankiPackage = expectSuccess(await AnkiPackage.fromDefault());
+
+      try {
+        ankiPackage.addNoteType(basicModel);
+        ankiPackage.addDeck({
+          ...defaultDeck,
+          id: 1_700_000_000_000,
+          name: "Limited",
+          newLimit: 5,
+        });
+        for (const [index, deck] of ankiPackage.getDecks().entries()) {
+          const note = createTestAnkiNote({
+            fields: ["Front", "Back"],
+            id: index + 1,
+            noteTypeId: basicModel.id,
+          });
+          ankiPackage.addNote(note);
+          ankiPackage.addCard(createTestAnkiCard({ deckId: deck.id, noteId: note.id }));
+        }
+
+        const srsPackage = expectSuccess(ankiPackage.toSrsPackage());
+        const presets = srsPackage.getDeckPresets();
+
+        // Both decks share the default deck configuration
+        expect(presets).toEqual([
+          expect.objectContaining({
+            desiredRetention: defaultDeckConfig.desiredRetention,
+            learningSteps: defaultDeckConfig.new.delays,
+            maximumInterval: defaultDeckConfig.rev.maxIvl,
+            name: defaultDeckConfig.name,
+            newCardsPerDay: defaultDeckConfig.new.perDay,
+            relearningSteps: defaultDeckConfig.lapse.delays,
+            reviewsPerDay: defaultDeckConfig.rev.perDay,
+          }),
+        ]);
+        expect(srsPackage.getDecks()).toEqual([
+          expect.objectContaining({ name: defaultDeck.name, presetId: presets[0]?.id }),
+          expect.objectContaining({ name: "Limited", newCardsPerDay: 5, presetId: presets[0]?.id }),
+        ]);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
   });
 
   describe("Note type conversion", () => {
+    it("should convert Anki stock note types to the universal note types", async () => {
+      const ankiPackage = expectSuccess(await AnkiPackage.fromDefault());
+
+      try {
+        const secondBasicModel = { ...basicModel, id: basicModel.id + 1, name: "Basic-2" };
+        for (const [index, noteType] of [basicModel, secondBasicModel].entries()) {
+          ankiPackage.addNoteType(noteType);
+          const note = createTestAnkiNote({
+            fields: ["Front", "Back"],
+            id: index + 1,
+            noteTypeId: noteType.id,
+          });
+          ankiPackage.addNote(note);
+          ankiPackage.addCard(createTestAnkiCard({ deckId: defaultDeck.id, noteId: note.id }));
+        }
+
+        const srsPackage = expectSuccess(ankiPackage.toSrsPackage());
+        const [basicNoteType, otherNoteType] = srsPackage.getNoteTypes();
+
+        // Only one note type can become the universal note type, the others are kept as they are
+        expect(basicNoteType).toMatchObject({ ...BasicNote, templates: expect.any(Array) });
+        expect(otherNoteType).toMatchObject({ fields: [{ name: "Front" }, { name: "Back" }] });
+        expect(srsPackage.getNotes()[0]?.fieldValues).toEqual([
+          ["Question", "Front"],
+          ["Answer", "Back"],
+        ]);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
     it.todo("should convert fields with correct indexing", async () => {
       // TODO: Test field index assignment
     });
@@ -1,20 +1,50 @@
-import { access, writeFile } from "node:fs/promises";
+import { Buffer } from "node:buffer";
+import { createReadStream } from "node:fs";
+import { access, readFile, writeFile } from "node:fs/promises";
 import { join } from "node:path";
+import { Readable } from "node:stream";
 
 import { describe, expect, it } from "vitest";
 
+import { MemoryStorageBackend } from "@/storage/memory-storage";
+import { openLocalFile } from "@/storage/node-storage";
+import { readAll } from "@/storage/streams";
+import { ZipReader } from "@/zip/zip-reader";
+
+import type { AnkiExportSelection } from "./anki-package";
 import { AnkiPackage } from "./anki-package";
 import {
+  createAnkiDatabaseWithData,
+  createAnkiProfile,
   createBasicSrsPackage,
+  createCollectionPackage,
   createMultiCardPackage,
+  createMultiDeckAnkiPackage,
+  createTestAnkiCard,
+  createTestAnkiNote,
+  createTestAnkiReview,
+  createTestZip,
+  encodeMediaEntries,
   expectFailure,
   expectSuccess,
   getTempDir,
+  getValidAnkiDatabaseBuffer,
+  readExportedDatabase,
   setupTempDir,
+  validMetaV1,
+  validMetaV3,
+  zstd,
 } from "./anki-package.fixtures";
+import { basicModel, defaultDeck } from "./constants";
+import { CardType, DeckDynamicity, ExportVersion, QueueType } from "./types";
+import { isZstdCompressed } from "./zstd";
 
 setupTempDir();
 
+function sortById<T extends { id: number | string | null }>(items: T[]): T[] {
+  return [...items].sort((a, b) => Number(a.id) - Number(b.id));
+}
+
 describe("Import / Export", () => {
   describe("fromAnkiExport()", () => {
     it("should load valid .apkg files", async () => {
@@ -41,10 +71,236 @@ describe("Import / Export", () => {
       }
     });
 
-    it("should reject non-legacy exports", async () => {
+    it("should keep the 64-bit IDs of fields and templates", async () => {
+      const result = await AnkiPackage.fromAnkiExport("./tests/fixtures/anki/mixed-legacy-2.apkg");
+      const ankiPackage = expectSuccess(result);
+
+      try {
+        expect(result.issues).toEqual([]);
+        // Fields and templates of older Anki versions have no ID
+        const ids = ankiPackage
+          .getNoteTypes()
+          .flatMap((noteType) => [...noteType.flds, ...noteType.tmpls].map((item) => item.id))
+          .filter((id) => id !== null);
+        expect(ids.length).toBeGreaterThan(0);
+        expect(ids.every((id) => typeof id === "bigint")).toBe(true);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should load latest exports with a schema 18 database", async () => {
       const result = await AnkiPackage.fromAnkiExport("./tests/fixtures/anki/empty-latest.apkg");
+      const ankiPackage = expectSuccess(result);
+
+      try {
+        expect(ankiPackage.getDecks().map((deck) => deck.name)).toEqual(["Default"]);
+        expect(ankiPackage.toString()).toContain("AnkiPackage");
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should load latest (v3) exports with zstd compressed contents", async () => {
+      const tempDir = getTempDir();
+      const zipPath = join(tempDir, "latest.apkg");
+      const image = await readFile("./tests/fixtures/media/image.png");
+      await createTestZip(zipPath, [
+        { content: validMetaV3, name: "meta" },
+        {
+          content: zstd(encodeMediaEntries([{ name: "image.png", size: image.length }])),
+          name: "media",
+        },
+        { content: zstd(await getValidAnkiDatabaseBuffer()), name: "collection.anki21b" },
+        { content: zstd(image), name: "0" },
+      ]);
+
+      const result = await AnkiPackage.fromAnkiExport(zipPath);
+      const ankiPackage = expectSuccess(result);
+
+      try {
+        expect(ankiPackage.getDecks()[0]?.name).toBe("Default");
+        expect(ankiPackage.listMediaFiles()).toEqual(["image.png"]);
+        expect(await ankiPackage.getMediaFileSize("image.png")).toBe(image.length);
+
+        const chunks: Buffer[] = [];
+        for await (const chunk of ankiPackage.getMediaFile("image.png")) {
+          chunks.push(chunk as Buffer);
+        }
+        expect(Buffer.concat(chunks).equals(image)).toBe(true);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    describe("legacy v1 exports", () => {
+      // A collection as written by Anki 2.0, without the properties added later
+      const createLegacyV1Database = (
+        overrides: Pick<Parameters<typeof createAnkiDatabaseWithData>[0], "cards" | "conf"> = {},
+      ) =>
+        createAnkiDatabaseWithData({
+          cards: [{ did: 1, id: 3000, nid: 2000 }],
+          decks: {
+            "1": { conf: 1, desc: "", dyn: 0, id: 1, mod: 0, name: "Default", usn: 0 },
+          },
+          models: {
+            "1000": {
+              css: ".card {}",
+              did: 1,
+              flds: [
+                {
+                  font: "Arial",
+                  media: [],
+                  name: "Front",
+                  ord: 0,
+                  rtl: false,
+                  size: 20,
+                  sticky: false,
+                },
+                {
+                  font: "Arial",
+                  media: [],
+                  name: "Back",
+                  ord: 1,
+                  rtl: false,
+                  size: 20,
+                  sticky: false,
+                },
+              ],
+              id: 1000,
+              latexPost: "",
+              latexPre: "",
+              mod: 0,
+              name: "Basic",
+              req: [[0, "all", [0]]],
+              sortf: 0,
+              tmpls: [
+                {
+                  afmt: "{{Back}}",
+                  bafmt: "",
+                  bqfmt: "",
+                  did: null,
+                  name: "Card 1",
+                  ord: 0,
+                  qfmt: "{{Front}}",
+                },
+              ],
+              type: 0,
+              usn: 0,
+            },
+          },
+          notes: [{ flds: "Question\u001FAnswer", guid: "legacy", id: 2000, mid: 1000 }],
+          ...overrides,
+        });
+
+      it("should detect collection.anki2 in packages without meta file", async () => {
+        const tempDir = getTempDir();
+        const zipPath = join(tempDir, "legacy-1.apkg");
+        await createTestZip(zipPath, [
+          { content: "{}", name: "media" },
+          { content: await createLegacyV1Database(), name: "collection.anki2" },
+        ]);
+
+        const result = await AnkiPackage.fromAnkiExport(zipPath);
+        const ankiPackage = expectSuccess(result);
+
+        try {
+          expect(ankiPackage.getNotes()[0]?.sfld).toBe("Question");
+          expect(ankiPackage.getCards()).toHaveLength(1);
+        } finally {
+          await ankiPackage.cleanup();
+        }
+      });
+
+      it("should fill in properties missing in Anki 2.0 collections", async () => {
+        const tempDir = getTempDir();
+        const zipPath = join(tempDir, "legacy-1-meta.apkg");
+        await createTestZip(zipPath, [
+          { content: validMetaV1, name: "meta" },
+          { content: "{}", name: "media" },
+          { content: await createLegacyV1Database(), name: "collection.anki2" },
+        ]);
+
+        const result = await AnkiPackage.fromAnkiExport(zipPath);
+        const ankiPackage = expectSuccess(result);
+
+        try {
+          const [deck] = ankiPackage.getDecks();
+          expect(deck?.newToday).toEqual([0, 0]);
+          expect(deck?.reviewLimit).toBeNull();
+
+          const [noteType] = ankiPackage.getNoteTypes();
+          expect(noteType?.css).toBe(".card {}");
+          expect(noteType?.latexsvg).toBe(false);
+          expect(noteType?.originalStockKind).toBeNull();
+          expect(noteType?.flds[0]?.description).toBe("");
+          expect(noteType?.flds[0]?.plainText).toBe(false);
+          expect(noteType?.tmpls[0]?.bsize).toBe(0);
+        } finally {
+          await ankiPackage.cleanup();
+        }
+      });
+
+      it("should switch to the v2 scheduler when converting v1 relearning cards", async () => {
+        const tempDir = getTempDir();
+        const zipPath = join(tempDir, "legacy-1-relearning.apkg");
+        await createTestZip(zipPath, [
+          { content: validMetaV1, name: "meta" },
+          { content: "{}", name: "media" },
+          {
+            content: await createLegacyV1Database({
+              cards: [
+                { did: 1, id: 3000, nid: 2000, queue: QueueType.LEARN, type: CardType.REVIEW },
+              ],
+              conf: { schedVer: 1 },
+            }),
+            name: "collection.anki2",
+          },
+        ]);
+
+        const result = await AnkiPackage.fromAnkiExport(zipPath);
+        const ankiPackage = expectSuccess(result);
+
+        try {
+          expect(ankiPackage.getCards()[0]?.type).toBe(CardType.RELEARN);
+          expect(ankiPackage.getConfig().schedVer).toBe(2);
+        } finally {
+          await ankiPackage.cleanup();
+        }
+      });
+
+      it("should keep the v1 scheduler if no cards had to be converted", async () => {
+        const tempDir = getTempDir();
+        const zipPath = join(tempDir, "legacy-1-scheduler.apkg");
+        await createTestZip(zipPath, [
+          { content: validMetaV1, name: "meta" },
+          { content: "{}", name: "media" },
+          {
+            content: await createLegacyV1Database({ conf: { schedVer: 1 } }),
+            name: "collection.anki2",
+          },
+        ]);
+
+        const result = await AnkiPackage.fromAnkiExport(zipPath);
+        const ankiPackage = expectSuccess(result);
+
+        try {
+          expect(ankiPackage.getCards()[0]?.type).toBe(CardType.NEW);
+          expect(ankiPackage.getConfig().schedVer).toBe(1);
+        } finally {
+          await ankiPackage.cleanup();
+        }
+      });
+    });
+
+    it("should reject unknown export versions", async () => {
+      const tempDir = getTempDir();
+      const zipPath = join(tempDir, "future.apkg");
+      await createTestZip(zipPath, [{ content: Buffer.from([0x08, 0x07]), name: "meta" }]);
+
+      const result = await AnkiPackage.fromAnkiExport(zipPath);
       expectFailure(result);
-      expect(result.issues[0]?.message).toMatch(/Unsupported Anki export package version: 3./);
+      expect(result.issues[0]?.message).toMatch(/Unsupported Anki export package version: 7./);
     });
 
     it("should reject corrupted .apkg files", async () => {
@@ -78,6 +334,188 @@ describe("Import / Export", () => {
     });
   });
 
+  describe("fromAnkiExportBuffer()", () => {
+    it("should load packages from a buffer", async () => {
+      const data = await readFile("./tests/fixtures/anki/empty-legacy-2.apkg");
+
+      const result = await AnkiPackage.fromAnkiExportBuffer(data, { format: "apkg" });
+      const ankiPackage = expectSuccess(result);
+
+      try {
+        expect(ankiPackage.getDecks()[0]?.name).toBe("Default");
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should load packages from an ArrayBuffer or Blob", async () => {
+      const data = await readFile("./tests/fixtures/anki/empty-latest.apkg");
+      const arrayBuffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+
+      for (const input of [arrayBuffer, new Blob([data])]) {
+        const ankiPackage = expectSuccess(await AnkiPackage.fromAnkiExportBuffer(input));
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should recognize invalid contents without a file extension", async () => {
+      const result = await AnkiPackage.fromAnkiExportBuffer(
+        Buffer.from("This is not a valid zip file"),
+        { format: "colpkg" },
+      );
+      expectFailure(result);
+      expect(result.issues[0]?.message).toMatch(/not a valid ZIP archive/i);
+      expect(result.issues[0]?.message).toMatch(/\(\.colpkg\)/);
+    });
+
+    it("should reject empty buffers", async () => {
+      const result = await AnkiPackage.fromAnkiExportBuffer(new Uint8Array());
+      expectFailure(result);
+      expect(result.issues[0]?.message).toMatch(/empty \(0 bytes\)/);
+    });
+  });
+
+  describe("fromAnkiExportStream()", () => {
+    it("should load packages from a stream", async () => {
+      const stream = createReadStream("./tests/fixtures/anki/empty-legacy-2.colpkg", {
+        highWaterMark: 64,
+      });
+
+      const result = await AnkiPackage.fromAnkiExportStream(stream, { format: "colpkg" });
+      const ankiPackage = expectSuccess(result);
+
+      try {
+        expect(ankiPackage.getDecks()[0]?.name).toBe("Default");
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should report errors of the stream", async () => {
+      const stream = Readable.from(
+        (async function* failingSource() {
+          yield new Uint8Array([0x50, 0x4b]);
+          await Promise.resolve();
+          throw new Error("Connection reset");
+        })(),
+      );
+
+      const result = await AnkiPackage.fromAnkiExportStream(stream, {
+        errorHandling: "strict",
+      });
+      expectFailure(result);
+      expect(result.issues[0]?.message).toMatch(
+        /could not be read from the stream.*Connection reset/,
+      );
+    });
+  });
+
+  describe("fromAnkiCollection()", () => {
+    it("should read the collection and the media folder of a profile", async () => {
+      const collectionPath = await createAnkiProfile(getTempDir());
+
+      const result = await AnkiPackage.fromAnkiCollection(collectionPath);
+      const ankiPackage = expectSuccess(result);
+
+      try {
+        expect(ankiPackage.getFormat()).toBe("colpkg");
+        expect(ankiPackage.getNotes()).toHaveLength(1);
+        expect(ankiPackage.getCards()).toHaveLength(1);
+        expect(ankiPackage.listMediaFiles()).toEqual(["image.png", "sound.mp3"]);
+        expect(await ankiPackage.getMediaFileSize("sound.mp3")).toBe(13);
+
+        const image = await readAll(ankiPackage.getMediaFile("image.png"));
+        expect(new TextDecoder().decode(image)).toBe("image content");
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should export profiles as collection packages with their media", async () => {
+      const tempDir = getTempDir();
+      const collectionPath = await createAnkiProfile(tempDir);
+      const ankiPackage = expectSuccess(await AnkiPackage.fromAnkiCollection(collectionPath));
+
+      try {
+        const exportPath = join(tempDir, "backup.colpkg");
+        await ankiPackage.toAnkiExport(exportPath);
+
+        const reimportedPackage = expectSuccess(await AnkiPackage.fromAnkiExport(exportPath));
+        try {
+          expect(reimportedPackage.getFormat()).toBe("colpkg");
+          expect(sortById(reimportedPackage.getNotes())).toEqual(sortById(ankiPackage.getNotes()));
+          const sound = await readAll(reimportedPackage.getMediaFile("sound.mp3"));
+          expect(new TextDecoder().decode(sound)).toBe("sound content");
+        } finally {
+          await reimportedPackage.cleanup();
+        }
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should read the media folder given in the options", async () => {
+      const tempDir = getTempDir();
+      const collectionPath = await createAnkiProfile(tempDir);
+
+      const result = await AnkiPackage.fromAnkiCollection(collectionPath, {
+        mediaFolder: join(tempDir, "collection.media", "subfolder"),
+      });
+      const ankiPackage = expectSuccess(result);
+
+      try {
+        expect(ankiPackage.listMediaFiles()).toEqual(["nested.png"]);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should warn about a missing media folder", async () => {
+      const tempDir = getTempDir();
+      const collectionPath = join(tempDir, "renamed.anki2");
+      await writeFile(collectionPath, await getValidAnkiDatabaseBuffer());
+
+      const result = await AnkiPackage.fromAnkiCollection(collectionPath);
+
+      expect(result.status).toBe("success");
+      expect(result.issues).toHaveLength(1);
+      expect(result.issues[0]?.severity).toBe("warning");
+      expect(result.issues[0]?.message).toContain(
+        `'${join(tempDir, "renamed.media")}' does not exist`,
+      );
+      await result.data?.cleanup();
+    });
+
+    it("should warn about changes that are only in the write-ahead log", async () => {
+      const tempDir = getTempDir();
+      const collectionPath = await createAnkiProfile(tempDir);
+      await writeFile(`${collectionPath}-wal`, "pending changes");
+
+      const result = await AnkiPackage.fromAnkiCollection(collectionPath);
+
+      expect(result.status).toBe("success");
+      expect(result.issues[0]?.severity).toBe("warning");
+      expect(result.issues[0]?.message).toMatch(/collection.anki2-wal.*close Anki/);
+      await result.data?.cleanup();
+    });
+
+    it("should report missing and invalid collection files", async () => {
+      const tempDir = getTempDir();
+      const invalidPath = join(tempDir, "invalid.anki2");
+      await writeFile(invalidPath, "This is not a database file!");
+
+      const missing = expectFailure(
+        await AnkiPackage.fromAnkiCollection(join(tempDir, "missing.anki2")),
+      );
+      const invalid = expectFailure(await AnkiPackage.fromAnkiCollection(invalidPath));
+
+      expect(missing.issues[0]?.message).toMatch(/collection file .*missing.anki2' does not exist/);
+      expect(invalid.issues[0]?.message).toMatch(
+        /invalid.anki2 file is not a valid SQLite database/,
+      );
+    });
+  });
+
   describe("toAnkiExport()", () => {
     it("should write back the contents of the default zip file", async () => {
       const result = await AnkiPackage.fromAnkiExport("./tests/fixtures/anki/empty-legacy-2.apkg");
@@ -116,6 +554,151 @@ describe("Import / Export", () => {
       }
     });
 
+    it("should write packages in the latest export format", async () => {
+      const tempDir = getTempDir();
+      const result = await AnkiPackage.fromAnkiExport("./tests/fixtures/anki/mixed-legacy-2.apkg");
+      const ankiPackage = expectSuccess(result);
+
+      try {
+        const exportPath = join(tempDir, "latest.apkg");
+        await ankiPackage.toAnkiExport(exportPath, { version: ExportVersion.Latest });
+
+        const archive = await ZipReader.open(await openLocalFile(exportPath));
+        const entryNames = archive.entries.map((entry) => entry.name);
+        expect(entryNames).toEqual(
+          expect.arrayContaining(["collection.anki21b", "collection.anki2", "media", "meta"]),
+        );
+        expect(entryNames).not.toContain("collection.anki21");
+
+        // Older Anki versions only find a note asking to update Anki
+        const updateRequired = await readExportedDatabase(exportPath, "collection.anki2");
+        expect(updateRequired.notes).toHaveLength(1);
+        expect(updateRequired.notes[0]?.flds).toContain("Please update to the latest Anki version");
+
+        const collection = archive.getEntry("collection.anki21b");
+        expect(collection && isZstdCompressed(await archive.read(collection))).toBe(true);
+        await archive.close();
+
+        const reimportedPackage = expectSuccess(await AnkiPackage.fromAnkiExport(exportPath));
+        try {
+          expect(sortById(reimportedPackage.getDecks())).toEqual(sortById(ankiPackage.getDecks()));
+          // Schema 18 keeps floating point numbers with single precision
+          expect(sortById(reimportedPackage.getDeckConfigs())).toEqual(
+            sortById(ankiPackage.getDeckConfigs()).map((deckConfig) => ({
+              ...deckConfig,
+              fsrsWeights: deckConfig.fsrsWeights.map((weight) => expect.closeTo(weight, 4)),
+            })),
+          );
+          expect(reimportedPackage.getConfig()).toEqual(ankiPackage.getConfig());
+          expect(sortById(reimportedPackage.getNoteTypes())).toEqual(
+            sortById(ankiPackage.getNoteTypes()),
+          );
+          expect(sortById(reimportedPackage.getNotes())).toEqual(sortById(ankiPackage.getNotes()));
+          expect(sortById(reimportedPackage.getCards())).toEqual(sortById(ankiPackage.getCards()));
+          expect(sortById(reimportedPackage.getReviews())).toEqual(
+            sortById(ankiPackage.getReviews()),
+          );
+          expect(reimportedPackage.listMediaFiles().sort()).toEqual(
+            ankiPackage.listMediaFiles().sort(),
+          );
+          for (const filename of ankiPackage.listMediaFiles()) {
+            const original = await readAll(ankiPackage.getMediaFile(filename));
+            const reimported = await readAll(reimportedPackage.getMediaFile(filename));
+            expect(Buffer.from(reimported).equals(original)).toBe(true);
+          }
+        } finally {
+          await reimportedPackage.cleanup();
+        }
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should write the legacy export format by default", async () => {
+      const tempDir = getTempDir();
+      const ankiPackage = expectSuccess(await AnkiPackage.fromDefault());
+
+      try {
+        const exportPath = join(tempDir, "legacy.apkg");
+        await ankiPackage.toAnkiExport(exportPath);
+
+        const archive = await ZipReader.open(await openLocalFile(exportPath));
+        expect(archive.getEntry("collection.anki21")).toBeDefined();
+        expect(archive.getEntry("collection.anki21b")).toBeUndefined();
+        await archive.close();
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should write the same bytes for the same contents in deterministic mode", async () => {
+      const items = [1000, 2000, 3000].map((id) => ({
+        card: createTestAnkiCard({ deckId: 1, id: id + 1, noteId: id }),
+        filename: `${id.toFixed(0)}.txt`,
+        note: createTestAnkiNote({
+          fields: [`Question ${id.toFixed(0)}`, "Answer"],
+          id,
+          noteTypeId: basicModel.id,
+        }),
+      }));
+
+      // The same contents, added in a different order
+      const createPackage = async (order: typeof items) => {
+        const ankiPackage = expectSuccess(await AnkiPackage.fromDefault());
+        ankiPackage.addNoteType(basicModel);
+        for (const { card, filename, note } of order) {
+          ankiPackage.addNote(note);
+          ankiPackage.addCard(card);
+          await ankiPackage.addMediaFile(
+            filename,
+            new TextEncoder().encode(`Contents of ${filename}`),
+          );
+        }
+        return ankiPackage;
+      };
+      const first = await createPackage(items);
+      const second = await createPackage([...items.slice(1), ...items.slice(0, 1)]);
+
+      try {
+        for (const version of [ExportVersion.Legacy_V2, ExportVersion.Latest] as const) {
+          const firstData = await first.toAnkiExportBuffer({ deterministic: true, version });
+          const secondData = await second.toAnkiExportBuffer({ deterministic: true, version });
+          expect(Buffer.from(secondData).equals(firstData)).toBe(true);
+        }
+
+        const reimportedPackage = expectSuccess(
+          await AnkiPackage.fromAnkiExportBuffer(
+            await second.toAnkiExportBuffer({ deterministic: true }),
+          ),
+        );
+        try {
+          expect(reimportedPackage.getNotes().map((note) => note.id)).toEqual([1000, 2000, 3000]);
+          expect(reimportedPackage.listMediaFiles()).toEqual(["1000.txt", "2000.txt", "3000.txt"]);
+          const contents = await readAll(reimportedPackage.getMediaFile("2000.txt"));
+          expect(new TextDecoder().decode(contents)).toBe("Contents of 2000.txt");
+        } finally {
+          await reimportedPackage.cleanup();
+        }
+      } finally {
+        await Promise.all([first.cleanup(), second.cleanup()]);
+      }
+    });
+
+    it("should write the same bytes for conversions of the same SRS package", async () => {
+      const srsPackage = createMultiCardPackage(5);
+      const first = expectSuccess(await AnkiPackage.fromSrsPackage(srsPackage));
+      const second = expectSuccess(await AnkiPackage.fromSrsPackage(srsPackage));
+
+      try {
+        // IDs and GUIDs are derived from the SRS package instead of being generated
+        const firstData = await first.toAnkiExportBuffer({ deterministic: true });
+        const secondData = await second.toAnkiExportBuffer({ deterministic: true });
+        expect(Buffer.from(secondData).equals(firstData)).toBe(true);
+      } finally {
+        await Promise.all([first.cleanup(), second.cleanup()]);
+      }
+    });
+
     it("should create valid .apkg files", async () => {
       const tempDir = getTempDir();
       const { srsPackage } = createBasicSrsPackage({
@@ -357,4 +940,502 @@ describe("Import / Export", () => {
       }
     });
   });
+
+  describe("toAnkiExportBuffer()", () => {
+    it("should write packages into memory", async () => {
+      const ankiPackage = expectSuccess(
+        await AnkiPackage.fromAnkiExport("./tests/fixtures/anki/mixed-legacy-2.apkg"),
+      );
+
+      try {
+        const data = await ankiPackage.toAnkiExportBuffer();
+
+        const reimportedPackage = expectSuccess(await AnkiPackage.fromAnkiExportBuffer(data));
+        try {
+          expect(reimportedPackage.getNotes()).toEqual(ankiPackage.getNotes());
+          expect(reimportedPackage.listMediaFiles().sort()).toEqual(
+            ankiPackage.listMediaFiles().sort(),
+          );
+        } finally {
+          await reimportedPackage.cleanup();
+        }
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should write the kind of package and the export format given in the options", async () => {
+      const tempDir = getTempDir();
+      const sourcePath = join(tempDir, "source.colpkg");
+      await createCollectionPackage(sourcePath);
+      const ankiPackage = expectSuccess(await AnkiPackage.fromAnkiExport(sourcePath));
+
+      try {
+        // Without a file name, the kind of the package that was read is kept
+        const backupPath = join(tempDir, "backup.zip");
+        await writeFile(backupPath, await ankiPackage.toAnkiExportBuffer());
+        const decksPath = join(tempDir, "decks.zip");
+        await writeFile(
+          decksPath,
+          await ankiPackage.toAnkiExportBuffer({ format: "apkg", version: ExportVersion.Latest }),
+        );
+
+        const backup = await readExportedDatabase(backupPath);
+        expect(backup.deletedItems).toHaveLength(1);
+        const decks = await readExportedDatabase(decksPath, "collection.anki21b");
+        expect(decks.deletedItems).toHaveLength(0);
+        expect(decks.notes).toHaveLength(1);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+  });
+
+  describe("toAnkiExportStream()", () => {
+    it("should write packages as a stream", async () => {
+      const srsPackage = createMultiCardPackage(10);
+      const ankiPackage = expectSuccess(await AnkiPackage.fromSrsPackage(srsPackage));
+
+      try {
+        const stream = ankiPackage.toAnkiExportStream();
+        expect(stream).toBeInstanceOf(ReadableStream);
+
+        const reimportedPackage = expectSuccess(await AnkiPackage.fromAnkiExportStream(stream));
+        try {
+          expect(reimportedPackage.getDecks()[0]?.name).toBe("Test Deck");
+          expect(reimportedPackage.getNotes()).toHaveLength(10);
+          expect(reimportedPackage.getCards()).toHaveLength(10);
+        } finally {
+          await reimportedPackage.cleanup();
+        }
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should write the same archive as a buffer", async () => {
+      const ankiPackage = expectSuccess(
+        await AnkiPackage.fromAnkiExport("./tests/fixtures/anki/mixed-legacy-2.apkg"),
+      );
+
+      try {
+        const streamed = await readAll(ankiPackage.toAnkiExportStream());
+        const buffered = await ankiPackage.toAnkiExportBuffer();
+        expect(streamed.length).toBe(buffered.length);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should stop writing when the stream is cancelled", async () => {
+      const ankiPackage = expectSuccess(
+        await AnkiPackage.fromAnkiExport("./tests/fixtures/anki/mixed-legacy-2.apkg"),
+      );
+
+      try {
+        const reader = ankiPackage.toAnkiExportStream().getReader();
+        const first = await reader.read();
+        expect(first.done).toBe(false);
+        await reader.cancel();
+
+        // The package can still be written afterwards
+        const data = await ankiPackage.toAnkiExportBuffer();
+        expect(data.length).toBeGreaterThan(0);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+  });
+
+  describe("collection packages", () => {
+    it("should know which kind of package was read", async () => {
+      const colpkg = expectSuccess(
+        await AnkiPackage.fromAnkiExport("./tests/fixtures/anki/empty-legacy-2.colpkg"),
+      );
+      const apkg = expectSuccess(
+        await AnkiPackage.fromAnkiExport("./tests/fixtures/anki/empty-legacy-2.apkg"),
+      );
+      const buffer = expectSuccess(
+        await AnkiPackage.fromAnkiExportBuffer(
+          await readFile("./tests/fixtures/anki/empty-legacy-2.colpkg"),
+          { format: "colpkg" },
+        ),
+      );
+      const created = expectSuccess(await AnkiPackage.fromDefault());
+
+      try {
+        expect(colpkg.getFormat()).toBe("colpkg");
+        expect(apkg.getFormat()).toBe("apkg");
+        expect(buffer.getFormat()).toBe("colpkg");
+        expect(created.getFormat()).toBe("apkg");
+      } finally {
+        await Promise.all([colpkg, apkg, buffer, created].map((pack) => pack.cleanup()));
+      }
+    });
+
+    it("should keep the collection-wide state in collection packages", async () => {
+      const tempDir = getTempDir();
+      const sourcePath = join(tempDir, "source.colpkg");
+      await createCollectionPackage(sourcePath);
+      const ankiPackage = expectSuccess(await AnkiPackage.fromAnkiExport(sourcePath));
+
+      try {
+        const exportPath = join(tempDir, "backup.colpkg");
+        await ankiPackage.toAnkiExport(exportPath);
+
+        const exported = await readExportedDatabase(exportPath);
+        const original = await readExportedDatabase(sourcePath);
+        expect(exported.collection.dconf).toEqual(original.collection.dconf);
+        expect(exported.collection.conf).toEqual(original.collection.conf);
+        expect(exported.collection.tags).toEqual({ unused: 0, used: 0 });
+        expect(exported.deletedItems).toEqual([{ oid: 4000, type: 1, usn: -1 }]);
+        expect(exported.reviews).toHaveLength(1);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should only write what belongs to the decks in deck packages", async () => {
+      const tempDir = getTempDir();
+      const sourcePath = join(tempDir, "source.colpkg");
+      await createCollectionPackage(sourcePath);
+      const ankiPackage = expectSuccess(await AnkiPackage.fromAnkiExport(sourcePath));
+
+      try {
+        const exportPath = join(tempDir, "decks.apkg");
+        await ankiPackage.toAnkiExport(exportPath);
+
+        const exported = await readExportedDatabase(exportPath);
+        expect(Object.keys(exported.collection.dconf)).toEqual(["1"]);
+        expect(exported.collection.tags).toEqual({ used: 0 });
+        expect(exported.deletedItems).toEqual([]);
+        expect(exported.notes).toHaveLength(1);
+        expect(exported.cards).toHaveLength(1);
+        expect(exported.reviews).toHaveLength(1);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should write the kind of package given in the options", async () => {
+      const tempDir = getTempDir();
+      const sourcePath = join(tempDir, "source.colpkg");
+      await createCollectionPackage(sourcePath);
+      const ankiPackage = expectSuccess(await AnkiPackage.fromAnkiExport(sourcePath));
+
+      try {
+        const backupPath = join(tempDir, "backup.zip");
+        await ankiPackage.toAnkiExport(backupPath);
+        const decksPath = join(tempDir, "decks.zip");
+        await ankiPackage.toAnkiExport(decksPath, { format: "apkg" });
+
+        // Other extensions keep the kind of the package that was read
+        const backup = await readExportedDatabase(backupPath);
+        const decks = await readExportedDatabase(decksPath);
+        expect(backup.deletedItems).toHaveLength(1);
+        expect(decks.deletedItems).toHaveLength(0);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+  });
+
+  describe("selective export", () => {
+    async function exportSelection(ankiPackage: AnkiPackage, selection: AnkiExportSelection) {
+      const exportPath = join(getTempDir(), "selection.apkg");
+      await ankiPackage.toAnkiExport(exportPath, { selection });
+      const archive = await ZipReader.open(await openLocalFile(exportPath));
+      const mediaEntry = archive.getEntry("media");
+      const media = mediaEntry
+        ? (JSON.parse(new TextDecoder().decode(await archive.read(mediaEntry))) as Record<
+            string,
+            string
+          >)
+        : {};
+      await archive.close();
+
+      const exported = await readExportedDatabase(exportPath);
+      return {
+        decks: Object.values(exported.collection.decks)
+          .map((deck) => deck.name)
+          .sort(),
+        exported,
+        media: Object.values(media).sort(),
+        noteIds: exported.notes.map((note) => note.id),
+      };
+    }
+
+    it("should export the cards of the selected decks and their subdecks", async () => {
+      const ankiPackage = await createMultiDeckAnkiPackage();
+
+      try {
+        const { decks, exported, media, noteIds } = await exportSelection(ankiPackage, {
+          deckIds: [100],
+        });
+
+        expect(noteIds).toEqual([1000, 1001]);
+        expect(exported.cards.map((card) => card.id)).toEqual([2000, 2001]);
+        expect(decks).toEqual(["Default", "Japanese", "Japanese::Verbs"]);
+        expect(Object.keys(exported.collection.models)).toEqual([basicModel.id.toFixed(0)]);
+        expect(exported.reviews).toEqual([]);
+        expect(media).toEqual(["_font.ttf", "taberu.mp3", "verb.png"]);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should keep the parent decks of selected subdecks", async () => {
+      const ankiPackage = await createMultiDeckAnkiPackage();
+
+      try {
+        const subdeck = await exportSelection(ankiPackage, { deckIds: [101] });
+        expect(subdeck.noteIds).toEqual([1001]);
+        expect(subdeck.decks).toEqual(["Default", "Japanese", "Japanese::Verbs"]);
+
+        const withoutSubdecks = await exportSelection(ankiPackage, {
+          deckIds: [100],
+          includeSubdecks: false,
+        });
+        expect(withoutSubdecks.noteIds).toEqual([1000]);
+        expect(withoutSubdecks.decks).toEqual(["Default", "Japanese"]);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should export the notes with any of the selected tags or their child tags", async () => {
+      const ankiPackage = await createMultiDeckAnkiPackage();
+
+      try {
+        const japanese = await exportSelection(ankiPackage, { tags: ["JAPANESE"] });
+        expect(japanese.noteIds).toEqual([1000, 1001]);
+
+        const verbs = await exportSelection(ankiPackage, { tags: ["japanese::verbs", "french"] });
+        expect(verbs.noteIds).toEqual([1000, 1002]);
+        expect(verbs.exported.reviews.map((review) => review.cid)).toEqual([2002]);
+        expect(verbs.exported.collection.tags).toEqual({ french: 0, "japanese::verbs": 0 });
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should export the notes and cards the filters accept", async () => {
+      const ankiPackage = await createMultiDeckAnkiPackage();
+
+      try {
+        const { noteIds } = await exportSelection(ankiPackage, {
+          cardFilter: (card) => card.id !== 2001,
+          deckIds: [100],
+          noteFilter: (note) => note.flds.includes("<img"),
+        });
+        expect(noteIds).toEqual([1000]);
+
+        // Notes without any selected cards are left out
+        const none = await exportSelection(ankiPackage, {
+          cardFilter: () => false,
+        });
+        expect(none.noteIds).toEqual([]);
+        expect(none.decks).toEqual(["Default"]);
+        expect(none.media).toEqual([]);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should report what an export leaves out", async () => {
+      const ankiPackage = await createMultiDeckAnkiPackage();
+
+      try {
+        expect(ankiPackage.getExportSummary({ selection: { deckIds: [200] } })).toEqual({
+          cards: 1,
+          decks: 2,
+          leftOut: {
+            cards: 2,
+            mediaFiles: ["verb.png", "taberu.mp3", "_font.ttf", "unused.txt"],
+            notes: 2,
+          },
+          mediaFiles: ["french.png"],
+          missingMediaFiles: ["missing.png"],
+          noteTypes: 1,
+          notes: 1,
+          reviews: 1,
+        });
+
+        const summary = ankiPackage.getExportSummary();
+        expect(summary.notes).toBe(3);
+        expect(summary.leftOut).toEqual({ cards: 0, mediaFiles: [], notes: 0 });
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should only export parts of the collection as deck packages", async () => {
+      const ankiPackage = await createMultiDeckAnkiPackage();
+
+      try {
+        await expect(
+          ankiPackage.toAnkiExport(join(getTempDir(), "part.colpkg"), {
+            selection: { deckIds: [100] },
+          }),
+        ).rejects.toThrow(/deck package/);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+  });
+
+  describe("exports without scheduling information", () => {
+    it("should reset the cards to new cards and leave out the reviews", async () => {
+      const ankiPackage = expectSuccess(await AnkiPackage.fromDefault());
+
+      try {
+        ankiPackage.addNoteType(basicModel);
+        ankiPackage.addDeck({ ...defaultDeck, id: 100, name: "Vocabulary", revToday: [5, 20] });
+        ankiPackage.addDeck({ ...defaultDeck, dyn: DeckDynamicity.DYNAMIC, id: 200, name: "Cram" });
+        const notes = [
+          { id: 1000, tags: ["vocab", "leech"] },
+          { id: 1001, tags: ["Marked"] },
+          { id: 1002, tags: [] },
+        ];
+        for (const { id, tags } of notes) {
+          ankiPackage.addNote(
+            createTestAnkiNote({
+              fields: [`Word ${id.toFixed(0)}`, "Meaning"],
+              id,
+              noteTypeId: basicModel.id,
+              tags,
+            }),
+          );
+        }
+        // A review card, a new card at position 3 and a learning card in a filtered deck
+        ankiPackage.addCard({
+          ...createTestAnkiCard({
+            deckId: 100,
+            due: 120,
+            factor: 2300,
+            id: 2000,
+            interval: 30,
+            lapses: 8,
+            noteId: 1000,
+            queue: QueueType.REVIEW,
+            reps: 20,
+            type: CardType.REVIEW,
+          }),
+          flags: 1,
+        });
+        ankiPackage.addCard(createTestAnkiCard({ deckId: 100, due: 3, id: 2001, noteId: 1001 }));
+        ankiPackage.addCard({
+          ...createTestAnkiCard({
+            deckId: 200,
+            due: 1_700_000_000,
+            id: 2002,
+            noteId: 1002,
+            queue: QueueType.LEARN,
+            reps: 1,
+            type: CardType.LEARN,
+          }),
+          odid: 100,
+          odue: 0,
+        });
+        ankiPackage.addReview(createTestAnkiReview({ cardId: 2000, ease: 3, id: 3000 }));
+
+        const exportPath = join(getTempDir(), "shared.apkg");
+        await ankiPackage.toAnkiExport(exportPath, { includeScheduling: false });
+        const exported = await readExportedDatabase(exportPath);
+
+        expect(exported.reviews).toEqual([]);
+        // Cards that were new come first, studied cards follow in the order of their notes
+        expect(
+          exported.cards.map(({ did, due, flags, ivl, lapses, odid, queue, reps, type }) => ({
+            did,
+            due,
+            flags,
+            ivl,
+            lapses,
+            odid,
+            queue,
+            reps,
+            type,
+          })),
+        ).toEqual([
+          {
+            did: 100,
+            due: 2,
+            flags: 0,
+            ivl: 0,
+            lapses: 0,
+            odid: 0,
+            queue: QueueType.NEW,
+            reps: 0,
+            type: CardType.NEW,
+          },
+          {
+            did: 100,
+            due: 1,
+            flags: 0,
+            ivl: 0,
+            lapses: 0,
+            odid: 0,
+            queue: QueueType.NEW,
+            reps: 0,
+            type: CardType.NEW,
+          },
+          {
+            did: 100,
+            due: 3,
+            flags: 0,
+            ivl: 0,
+            lapses: 0,
+            odid: 0,
+            queue: QueueType.NEW,
+            reps: 0,
+            type: CardType.NEW,
+          },
+        ]);
+        expect(exported.collection.conf.nextPos).toBe(4);
+        expect(exported.notes.map((note) => note.tags)).toEqual(["vocab", "", ""]);
+        expect(exported.collection.decks["100"]?.revToday).toEqual([0, 0]);
+
+        // The package itself keeps the learning progress
+        expect(ankiPackage.getReviews()).toHaveLength(1);
+        expect(ankiPackage.getExportSummary({ includeScheduling: false }).reviews).toBe(0);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+  });
+
+  describe("storage backends", () => {
+    it("should keep the package contents in the given storage", async () => {
+      const tempDir = getTempDir();
+      const result = await AnkiPackage.fromAnkiExport("./tests/fixtures/anki/mixed-legacy-2.apkg", {
+        storage: new MemoryStorageBackend(),
+      });
+      const ankiPackage = expectSuccess(result);
+
+      try {
+        expect(ankiPackage.toString()).toContain("memory://");
+
+        await ankiPackage.addMediaFile("added.txt", new TextEncoder().encode("added in memory"));
+        const exportPath = join(tempDir, "memory.apkg");
+        await ankiPackage.toAnkiExport(exportPath);
+
+        const reimportedPackage = expectSuccess(
+          await AnkiPackage.fromAnkiExport(exportPath, { storage: new MemoryStorageBackend() }),
+        );
+        try {
+          expect(reimportedPackage.listMediaFiles().sort()).toEqual(
+            ankiPackage.listMediaFiles().sort(),
+          );
+          const added = await readAll(reimportedPackage.getMediaFile("added.txt"));
+          expect(new TextDecoder().decode(added)).toBe("added in memory");
+          expect(reimportedPackage.getNotes()).toHaveLength(ankiPackage.getNotes().length);
+        } finally {
+          await reimportedPackage.cleanup();
+        }
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+  });
 });
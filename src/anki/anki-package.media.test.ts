@@ -1,7 +1,10 @@
 import { Buffer } from "node:buffer";
+import { readFile } from "node:fs/promises";
 
 import { describe, expect, it } from "vitest";
 
+import type { Storage } from "@/storage/storage";
+
 import { AnkiPackage } from "./anki-package";
 import { createTestAnkiNote, expectSuccess, setupTempDir } from "./anki-package.fixtures";
 import { basicModel } from "./constants";
@@ -794,4 +797,64 @@ describe("Media File APIs", () => {
       }
     });
   });
+
+  describe("archived media files", () => {
+    const readStream = async (stream: AsyncIterable<unknown>) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk as Buffer);
+      }
+      return Buffer.concat(chunks);
+    };
+
+    it("should not extract media files when loading a package", async () => {
+      const result = await AnkiPackage.fromAnkiExport(MEDIA_PACKAGE_PATH);
+      const pkg = expectSuccess(result);
+
+      try {
+        const { storage } = pkg as unknown as { storage: Storage };
+        const extractedFiles = await storage.list();
+
+        expect(extractedFiles).toContain("collection.anki21");
+        expect(extractedFiles).not.toContain("0");
+        expect(await pkg.getMediaFileSize(EXPECTED_FILENAME)).toBe(10_701);
+      } finally {
+        await pkg.cleanup();
+      }
+    });
+
+    it("should copy archived media files when exporting", async () => {
+      const result = await AnkiPackage.fromAnkiExport(MEDIA_PACKAGE_PATH);
+      const pkg = expectSuccess(result);
+
+      try {
+        const original = await readStream(pkg.getMediaFile(EXPECTED_FILENAME));
+
+        const exportPath = "out/test-with-archived-media.apkg";
+        await pkg.toAnkiExport(exportPath);
+
+        const reimportedPkg = expectSuccess(await AnkiPackage.fromAnkiExport(exportPath));
+        try {
+          const reimported = await readStream(reimportedPkg.getMediaFile(EXPECTED_FILENAME));
+          expect(reimported.equals(original)).toBe(true);
+        } finally {
+          await reimportedPkg.cleanup();
+        }
+      } finally {
+        await pkg.cleanup();
+      }
+    });
+
+    it("should read media files of packages loaded from a buffer", async () => {
+      const data = await readFile(MEDIA_PACKAGE_PATH);
+      const pkg = expectSuccess(await AnkiPackage.fromAnkiExportBuffer(data));
+
+      try {
+        const content = await readStream(pkg.getMediaFile(EXPECTED_FILENAME));
+        expect(content).toHaveLength(10_701);
+      } finally {
+        await pkg.cleanup();
+      }
+    });
+  });
 });
@@ -1,10 +1,16 @@
+import { join } from "node:path";
+
 import { describe, expect, it } from "vitest";
 
+import type { SrsDeckPreset } from "@/srs-package";
 import {
+  BasicNote,
+  ClozeNote,
   SrsPackage,
   SrsReviewScore,
   createCard,
   createDeck,
+  createDeckPreset,
   createNote,
   createNoteType,
   createReview,
@@ -12,13 +18,26 @@ import {
 
 import { AnkiPackage } from "./anki-package";
 import {
+  createBasicNoteType,
   createBasicSrsPackage,
   createBasicTemplate,
-  expectFailure,
+  createMultiCardPackage,
+  createTestAnkiCard,
+  createTestAnkiNote,
   expectSuccess,
+  getTempDir,
   setupTempDir,
 } from "./anki-package.fixtures";
-import type { Ease } from "./types";
+import { fieldChecksum } from "./checksum";
+import {
+  ankiDefaultCollection,
+  basicModel,
+  clozeModel,
+  defaultDeck,
+  defaultDeckConfig,
+} from "./constants";
+import type { Ease, NoteType, RevlogTable } from "./types";
+import { CardType, NoteTypeKind, OriginalStockKind, QueueType, ReviewType } from "./types";
 import { extractTimestampFromUuid } from "./util";
 
 setupTempDir();
@@ -135,8 +154,15 @@ describe("Conversion SRS → Anki", () => {
     it("should handle empty SRS packages", async () => {
       const emptySrsPackage = new SrsPackage();
       const result = await AnkiPackage.fromSrsPackage(emptySrsPackage);
-      expectFailure(result);
-      expect(result.issues[0]?.message).toMatch(/The package must contain exactly one deck/);
+      const ankiPackage = expectSuccess(result);
+
+      try {
+        // Like a new package from fromDefault(), only the default deck is left
+        expect(ankiPackage.getDecks().map((deck) => deck.name)).toEqual(["Default"]);
+        expect(ankiPackage.getNotes()).toHaveLength(0);
+      } finally {
+        await ankiPackage.cleanup();
+      }
     });
 
     it("should convert note types with multiple fields and templates", async () => {
@@ -285,9 +311,234 @@ describe("Conversion SRS → Anki", () => {
         await ankiPackage.cleanup();
       }
     });
+
+    it("should calculate which fields the templates require", async () => {
+      const { noteType, srsPackage } = createBasicSrsPackage();
+      noteType.fields.push({ id: 2, name: "Add Reverse" });
+      noteType.templates.push({
+        answerTemplate: "{{Front}}",
+        id: 1,
+        name: "Card 2",
+        questionTemplate: "{{#Add Reverse}}{{Back}}{{/Add Reverse}}",
+      });
+
+      const ankiPackage = expectSuccess(await AnkiPackage.fromSrsPackage(srsPackage));
+
+      try {
+        expect(ankiPackage.getNoteTypes()[0]?.req).toEqual([
+          [0, "any", [0]],
+          [1, "all", [1, 2]],
+        ]);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
   });
 
   describe("Deck conversion", () => {
+    // Creates a package with a note and card in each deck
+    function createMultiDeckSrsPackage(
+      decks: Parameters<typeof createDeck>[0][],
+      presets: SrsDeckPreset[] = [],
+    ) {
+      const srsPackage = new SrsPackage();
+      for (const preset of presets) {
+        srsPackage.addDeckPreset(preset);
+      }
+      const noteType = createBasicNoteType();
+      srsPackage.addNoteType(noteType);
+
+      for (const deckInput of decks) {
+        const deck = createDeck(deckInput);
+        const note = createNote(
+          {
+            deckId: deck.id,
+            fieldValues: [
+              ["Front", `Question in ${deck.name}`],
+              ["Back", "Answer"],
+            ],
+            noteTypeId: noteType.id,
+          },
+          noteType,
+        );
+        srsPackage.addDeck(deck);
+        srsPackage.addNote(note);
+        srsPackage.addCard(createCard({ noteId: note.id, templateId: 0 }));
+      }
+
+      return srsPackage;
+    }
+
+    it("should convert packages with multiple decks", async () => {
+      const srsPackage = createMultiDeckSrsPackage([
+        { name: "Chapter 1" },
+        { name: "Chapter 2" },
+        { name: "Chapter 3" },
+      ]);
+
+      const result = await AnkiPackage.fromSrsPackage(srsPackage);
+      const ankiPackage = expectSuccess(result);
+
+      try {
+        const decks = ankiPackage.getDecks();
+        expect(decks.map((deck) => deck.name)).toEqual(["Chapter 1", "Chapter 2", "Chapter 3"]);
+        expect(new Set(decks.map((deck) => deck.id)).size).toBe(3);
+
+        // Each card is in the deck of its note
+        for (const card of ankiPackage.getCards()) {
+          const note = ankiPackage.getNotes().find((n) => n.id === card.nid);
+          const deck = decks.find((d) => d.id === card.did);
+          expect(note?.flds).toContain(`Question in ${deck?.name ?? "no deck"}`);
+        }
+
+        const exportPath = join(getTempDir(), "chapters.apkg");
+        await ankiPackage.toAnkiExport(exportPath);
+        const reimportedPackage = expectSuccess(await AnkiPackage.fromAnkiExport(exportPath));
+        try {
+          expect(reimportedPackage.getDecks()).toEqual(decks);
+          expect(reimportedPackage.getCards()).toEqual(ankiPackage.getCards());
+        } finally {
+          await reimportedPackage.cleanup();
+        }
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should allocate unique IDs for decks with the same original ID", async () => {
+      const srsPackage = createMultiDeckSrsPackage([
+        { applicationSpecificData: { originalAnkiId: "1234567890" }, name: "First" },
+        { applicationSpecificData: { originalAnkiId: "1234567890" }, name: "Second" },
+      ]);
+
+      const result = await AnkiPackage.fromSrsPackage(srsPackage);
+      const ankiPackage = expectSuccess(result);
+
+      try {
+        const decks = ankiPackage.getDecks();
+        expect(decks.map((deck) => [deck.name, deck.id])).toEqual([
+          ["First", 1_234_567_890],
+          ["Second", 1_234_567_891],
+        ]);
+
+        const cardDeckIds = ankiPackage.getCards().map((card) => card.did);
+        expect(cardDeckIds.sort()).toEqual([1_234_567_890, 1_234_567_891]);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should use the full names of subdecks", async () => {
+      const japaneseDeck = createDeck({ name: "Japanese" });
+      const n5Deck = createDeck({ name: "N5", parentId: japaneseDeck.id });
+      const srsPackage = createMultiDeckSrsPackage([
+        japaneseDeck,
+        n5Deck,
+        { name: "Verbs", parentId: n5Deck.id },
+      ]);
+
+      const result = await AnkiPackage.fromSrsPackage(srsPackage);
+      const ankiPackage = expectSuccess(result);
+
+      try {
+        expect(ankiPackage.getDecks().map((deck) => deck.name)).toEqual([
+          "Japanese",
+          "Japanese::N5",
+          "Japanese::N5::Verbs",
+        ]);
+
+        const srsDecks = expectSuccess(ankiPackage.toSrsPackage()).getDecks();
+        const [japanese, n5, verbs] = srsDecks;
+        expect(srsDecks.map((deck) => deck.name)).toEqual(["Japanese", "N5", "Verbs"]);
+        expect(japanese?.parentId).toBeUndefined();
+        expect(n5?.parentId).toBe(japanese?.id);
+        expect(verbs?.parentId).toBe(n5?.id);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should create missing parent decks", async () => {
+      const srsPackage = createMultiDeckSrsPackage([
+        { applicationSpecificData: { originalAnkiId: "1000" }, name: "Languages::Japanese" },
+      ]);
+
+      const result = await AnkiPackage.fromSrsPackage(srsPackage);
+      const ankiPackage = expectSuccess(result);
+
+      try {
+        expect(ankiPackage.getDecks().map((deck) => [deck.name, deck.id])).toEqual([
+          ["Languages::Japanese", 1000],
+          ["Languages", 1001],
+        ]);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should keep the collapsed state of Anki decks", async () => {
+      const srsPackage = createMultiDeckSrsPackage([
+        {
+          applicationSpecificData: {
+            ankiDeckData: JSON.stringify({ browserCollapsed: true, collapsed: false }),
+          },
+          name: "Expanded",
+        },
+        { applicationSpecificData: { ankiDeckData: "invalid" }, name: "Invalid data" },
+        { name: "New" },
+      ]);
+
+      const result = await AnkiPackage.fromSrsPackage(srsPackage);
+      const ankiPackage = expectSuccess(result);
+
+      try {
+        expect(
+          ankiPackage
+            .getDecks()
+            .map(({ browserCollapsed, collapsed }) => [collapsed, browserCollapsed]),
+        ).toEqual([
+          [false, true],
+          [true, true],
+          [true, true],
+        ]);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should allocate the same IDs in any order", async () => {
+      // UUIDs of decks created in the same millisecond
+      const createDecks = (suffixes: string[]) =>
+        suffixes.map((suffix) =>
+          createDeck({
+            id: `0190a1b2-c3d4-7000-8000-00000000000${suffix}`,
+            name: `Deck ${suffix}`,
+          }),
+        );
+
+      const inOrder = expectSuccess(
+        await AnkiPackage.fromSrsPackage(createMultiDeckSrsPackage(createDecks(["a", "b", "c"]))),
+      );
+      const reversed = expectSuccess(
+        await AnkiPackage.fromSrsPackage(createMultiDeckSrsPackage(createDecks(["c", "b", "a"]))),
+      );
+
+      try {
+        const getDeckIds = (ankiPackage: AnkiPackage) =>
+          Object.fromEntries(ankiPackage.getDecks().map((deck) => [deck.name, deck.id]));
+        const baseId = extractTimestampFromUuid("0190a1b2-c3d4-7000-8000-00000000000a");
+        expect(getDeckIds(inOrder)).toEqual({
+          "Deck a": baseId,
+          "Deck b": baseId + 1,
+          "Deck c": baseId + 2,
+        });
+        expect(getDeckIds(reversed)).toEqual(getDeckIds(inOrder));
+      } finally {
+        await inOrder.cleanup();
+        await reversed.cleanup();
+      }
+    });
+
     it.todo("should preserve deck descriptions", async () => {
       // TODO: Test that deck descriptions are preserved and converted properly
     });
@@ -354,6 +605,90 @@ describe("Conversion SRS → Anki", () => {
 
       await ankiPackage.cleanup();
     });
+    it("should keep deck option presets and deck limits converted from Anki", async () => {
+      const deckConfig = {
+        ...defaultDeckConfig,
+        desiredRetention: 0.85,
+        id: 1_700_000_000_000,
+        lapse: { ...defaultDeckConfig.lapse, delays: [15], leechAction: 1 },
+        name: "Vocabulary",
+        new: { ...defaultDeckConfig.new, delays: [1, 10, 60], perDay: 5 },
+        rev: { ...defaultDeckConfig.rev, maxIvl: 365, perDay: 100 },
+        timer: 1,
+      };
+      const deck = {
+        ...defaultDeck,
+        conf: deckConfig.id,
+        id: 1_700_000_000_001,
+        name: "Japanese",
+        newLimit: 3,
+        reviewLimit: 50,
+      };
+      const ankiPackage = expectSuccess(await AnkiPackage.fromDefault());
+      ankiPackage.addNoteType(basicModel);
+      ankiPackage.addDeckConfig(deckConfig);
+      ankiPackage.addDeck(deck);
+      const note = createTestAnkiNote({ fields: ["Front", "Back"], noteTypeId: basicModel.id });
+      ankiPackage.addNote(note);
+      ankiPackage.addCard(createTestAnkiCard({ deckId: deck.id, noteId: note.id }));
+
+      const srsPackage = expectSuccess(ankiPackage.toSrsPackage());
+      await ankiPackage.cleanup();
+      const convertedPackage = expectSuccess(await AnkiPackage.fromSrsPackage(srsPackage));
+
+      try {
+        expect(convertedPackage.getDeckConfigs()).toContainEqual(deckConfig);
+        expect(convertedPackage.getDecks()).toContainEqual(
+          expect.objectContaining({ conf: deckConfig.id, newLimit: 3, reviewLimit: 50 }),
+        );
+      } finally {
+        await convertedPackage.cleanup();
+      }
+    });
+
+    it("should export deck presets as Anki deck configurations", async () => {
+      const preset = createDeckPreset({
+        learningSteps: [1, 10],
+        maximumInterval: 180,
+        name: "Exam",
+        newCardsPerDay: 50,
+        relearningSteps: [5],
+        reviewsPerDay: 500,
+      });
+      const srsPackage = createMultiDeckSrsPackage(
+        [
+          { name: "With preset", newCardsPerDay: 10, presetId: preset.id },
+          { name: "Without preset" },
+        ],
+        [preset],
+      );
+
+      const ankiPackage = expectSuccess(await AnkiPackage.fromSrsPackage(srsPackage));
+
+      try {
+        const deckConfigs = ankiPackage.getDeckConfigs();
+        const deckConfig = deckConfigs.find((config) => config.name === "Exam");
+        expect(deckConfig).toMatchObject({
+          id: extractTimestampFromUuid(preset.id),
+          lapse: { delays: [5] },
+          new: { delays: [1, 10], perDay: 50 },
+          rev: { maxIvl: 180, perDay: 500 },
+        });
+        expect(deckConfigs.map((config) => config.id)).toContain(defaultDeckConfig.id);
+
+        const decks = ankiPackage.getDecks();
+        expect(decks.find((deck) => deck.name === "With preset")).toMatchObject({
+          conf: deckConfig?.id,
+          newLimit: 10,
+          reviewLimit: null,
+        });
+        expect(decks.find((deck) => deck.name === "Without preset")?.conf).toBe(
+          defaultDeckConfig.id,
+        );
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
   });
 
   describe("Note type conversion", () => {
@@ -384,6 +719,124 @@ describe("Conversion SRS → Anki", () => {
     it.todo("should handle note types without descriptions", async () => {
       // TODO: Test behavior when note type has no description
     });
+
+    it("should keep all properties of note types converted from Anki", async () => {
+      const [front, back] = basicModel.flds;
+      const [template] = basicModel.tmpls;
+      if (!front || !back || !template) {
+        throw new Error("Basic note type should have two fields and a template");
+      }
+      const noteType: NoteType = {
+        ...basicModel,
+        css: ".card { font-family: 'Noto Sans JP'; direction: rtl; }",
+        flds: [
+          { ...front, font: "Noto Sans JP", plainText: true, rtl: true, size: 28, sticky: true },
+          { ...back, collapsed: true, description: "The answer", excludeFromSearch: true },
+        ],
+        latexPost: "\\end{document}\n% custom",
+        latexPre: "\\documentclass{article}\n\\begin{document}\n",
+        latexsvg: true,
+        mod: 1_700_000_000,
+        sortf: 1,
+        tmpls: [{ ...template, bafmt: "{{Back}}", bfont: "Arial", bqfmt: "{{Front}}", bsize: 12 }],
+      };
+      const ankiPackage = expectSuccess(await AnkiPackage.fromDefault());
+      ankiPackage.addNoteType(noteType);
+      const note = createTestAnkiNote({ fields: ["Front", "Back"], noteTypeId: noteType.id });
+      ankiPackage.addNote(note);
+      ankiPackage.addCard(createTestAnkiCard({ deckId: defaultDeck.id, noteId: note.id }));
+
+      const srsPackage = expectSuccess(ankiPackage.toSrsPackage());
+      await ankiPackage.cleanup();
+      const convertedPackage = expectSuccess(await AnkiPackage.fromSrsPackage(srsPackage));
+
+      try {
+        expect(convertedPackage.getNoteTypes()).toEqual([{ ...noteType, did: defaultDeck.id }]);
+        expect(convertedPackage.getNotes()[0]?.sfld).toBe("Back");
+      } finally {
+        await convertedPackage.cleanup();
+      }
+    });
+
+    it("should export the universal note types as Anki stock note types", async () => {
+      const srsPackage = new SrsPackage();
+      const deck = createDeck({ name: "Stock" });
+      srsPackage.addDeck(deck);
+      srsPackage.addNoteType(ClozeNote);
+      const note = createNote(
+        {
+          deckId: deck.id,
+          fieldValues: [
+            ["Text", "{{c1::Paris}} is the capital of France"],
+            ["Back Extra", ""],
+          ],
+          noteTypeId: ClozeNote.id,
+        },
+        ClozeNote,
+      );
+      srsPackage.addNote(note);
+      srsPackage.addCard(createCard({ noteId: note.id, templateId: 0 }));
+
+      const ankiPackage = expectSuccess(await AnkiPackage.fromSrsPackage(srsPackage));
+
+      try {
+        expect(ankiPackage.getNoteTypes()[0]).toMatchObject({
+          css: clozeModel.css,
+          flds: clozeModel.flds,
+          name: clozeModel.name,
+          originalStockKind: OriginalStockKind.CLOZE,
+          tmpls: clozeModel.tmpls,
+          type: NoteTypeKind.CLOZE,
+        });
+        expect(ankiPackage.getNotes()[0]?.flds).toBe(
+          "{{c1::Paris}} is the capital of France\u001F",
+        );
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should import and export Anki stock note types with their Anki names", async () => {
+      const ankiPackage = expectSuccess(await AnkiPackage.fromDefault());
+      const noteType = { ...basicModel, name: "Einfach" };
+      ankiPackage.addNoteType(noteType);
+      const note = createTestAnkiNote({ fields: ["Vorne", "Hinten"], noteTypeId: noteType.id });
+      ankiPackage.addNote(note);
+      ankiPackage.addCard(createTestAnkiCard({ deckId: defaultDeck.id, noteId: note.id }));
+
+      const srsPackage = expectSuccess(ankiPackage.toSrsPackage());
+      await ankiPackage.cleanup();
+      const convertedPackage = expectSuccess(await AnkiPackage.fromSrsPackage(srsPackage));
+
+      try {
+        expect(srsPackage.getNoteTypes().map(({ id }) => id)).toEqual([BasicNote.id]);
+        expect(convertedPackage.getNoteTypes()).toEqual([{ ...noteType, did: defaultDeck.id }]);
+      } finally {
+        await convertedPackage.cleanup();
+      }
+    });
+
+    it("should replace invalid note type properties converted from Anki", async () => {
+      const { noteType, srsPackage } = createBasicSrsPackage();
+      noteType.applicationSpecificData = {
+        ankiNoteTypeData: JSON.stringify({ css: ".card { color: red; }", sortf: "Back" }),
+      };
+
+      const result = await AnkiPackage.fromSrsPackage(srsPackage);
+      const ankiPackage = expectSuccess(result);
+
+      try {
+        expect(ankiPackage.getNoteTypes()[0]).toMatchObject({
+          css: ".card { color: red; }",
+          sortf: 0,
+        });
+        expect(result.issues.map((issue) => issue.message)).toEqual([
+          expect.stringContaining(`has an invalid 'sortf' value "Back"`),
+        ]);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
   });
 
   describe("Note conversion", () => {
@@ -410,6 +863,130 @@ describe("Conversion SRS → Anki", () => {
     it.todo("should preserve field value ordering", async () => {
       // TODO: Test that field values maintain correct order
     });
+
+    it("should calculate the sort field and checksum like Anki", async () => {
+      const { srsPackage } = createBasicSrsPackage({
+        backValue: "Answer",
+        frontValue: '<b>abc</b> <img src="front.png">',
+      });
+
+      const ankiPackage = expectSuccess(await AnkiPackage.fromSrsPackage(srsPackage));
+
+      try {
+        expect(ankiPackage.getNotes()[0]).toMatchObject({
+          csum: fieldChecksum("abc  front.png "),
+          sfld: "abc  front.png ",
+        });
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should decode named entities and strip the checksum field twice like Anki", async () => {
+      const { srsPackage } = createBasicSrsPackage({ frontValue: "caf&eacute; &amp;lt;b&amp;gt;" });
+
+      const ankiPackage = expectSuccess(await AnkiPackage.fromSrsPackage(srsPackage));
+
+      try {
+        expect(ankiPackage.getNotes()[0]).toMatchObject({
+          csum: fieldChecksum("café <b>"),
+          sfld: "café &lt;b&gt;",
+        });
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should keep the GUIDs of notes converted from Anki", async () => {
+      const { note, srsPackage } = createBasicSrsPackage();
+      note.applicationSpecificData = { ankiGuid: "Kx8#fPq2!z" };
+
+      const ankiPackage = expectSuccess(await AnkiPackage.fromSrsPackage(srsPackage));
+
+      try {
+        expect(ankiPackage.getNotes()[0]?.guid).toBe("Kx8#fPq2!z");
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should derive the same GUIDs when notes are exported again", async () => {
+      const srsPackage = createMultiCardPackage(3);
+
+      const firstExport = expectSuccess(await AnkiPackage.fromSrsPackage(srsPackage));
+      const secondExport = expectSuccess(await AnkiPackage.fromSrsPackage(srsPackage));
+
+      try {
+        const guids = firstExport.getNotes().map((ankiNote) => ankiNote.guid);
+        expect(new Set(guids).size).toBe(3);
+        expect(secondExport.getNotes().map((ankiNote) => ankiNote.guid)).toEqual(guids);
+      } finally {
+        await firstExport.cleanup();
+        await secondExport.cleanup();
+      }
+    });
+    it("should allocate the same note and card IDs in any order", async () => {
+      // UUIDs of notes and cards created in the same millisecond
+      const createPackage = (suffixes: string[]) => {
+        const srsPackage = new SrsPackage();
+        const deck = createDeck({ name: "Deck" });
+        const noteType = createBasicNoteType();
+        srsPackage.addDeck(deck);
+        srsPackage.addNoteType(noteType);
+        for (const suffix of suffixes) {
+          const note = createNote(
+            {
+              deckId: deck.id,
+              fieldValues: [
+                ["Front", `Question ${suffix}`],
+                ["Back", `Answer ${suffix}`],
+              ],
+              id: `0190a1b2-c3d4-7000-8000-00000000000${suffix}`,
+              noteTypeId: noteType.id,
+            },
+            noteType,
+          );
+          srsPackage.addNote(note);
+          srsPackage.addCard(
+            createCard({
+              id: `0190a1b2-c3d4-7000-8000-00000000001${suffix}`,
+              noteId: note.id,
+              templateId: 0,
+            }),
+          );
+        }
+        return srsPackage;
+      };
+
+      const inOrder = expectSuccess(
+        await AnkiPackage.fromSrsPackage(createPackage(["a", "b", "c"])),
+      );
+      const reordered = expectSuccess(
+        await AnkiPackage.fromSrsPackage(createPackage(["c", "a", "b"])),
+      );
+
+      try {
+        const getIds = (ankiPackage: AnkiPackage) => {
+          const notes = ankiPackage.getNotes();
+          return Object.fromEntries(
+            ankiPackage.getCards().map((card) => {
+              const note = notes.find((n) => n.id === card.nid);
+              return [note?.sfld, [note?.id, card.id]];
+            }),
+          );
+        };
+        const baseId = extractTimestampFromUuid("0190a1b2-c3d4-7000-8000-00000000000a");
+        expect(getIds(inOrder)).toEqual({
+          "Question a": [baseId, baseId],
+          "Question b": [baseId + 1, baseId + 1],
+          "Question c": [baseId + 2, baseId + 2],
+        });
+        expect(getIds(reordered)).toEqual(getIds(inOrder));
+      } finally {
+        await inOrder.cleanup();
+        await reordered.cleanup();
+      }
+    });
   });
 
   describe("Card conversion", () => {
@@ -461,6 +1038,177 @@ describe("Conversion SRS → Anki", () => {
     });
   });
 
+  describe("Card scheduling", () => {
+    it("should keep the scheduling state of cards converted from Anki", async () => {
+      const ankiPackage = expectSuccess(await AnkiPackage.fromDefault());
+      ankiPackage.addNoteType(basicModel);
+      const note = createTestAnkiNote({ fields: ["Front", "Back"], noteTypeId: basicModel.id });
+      const matureCard = createTestAnkiCard({
+        deckId: defaultDeck.id,
+        due: 900,
+        factor: 2300,
+        interval: 120,
+        lapses: 2,
+        noteId: note.id,
+        queue: QueueType.REVIEW,
+        reps: 25,
+        type: CardType.REVIEW,
+      });
+      ankiPackage.addNote(note);
+      ankiPackage.addCard(matureCard);
+
+      const srsPackage = expectSuccess(ankiPackage.toSrsPackage());
+      await ankiPackage.cleanup();
+      const convertedPackage = expectSuccess(await AnkiPackage.fromSrsPackage(srsPackage));
+
+      try {
+        const [card] = convertedPackage.getCards();
+        expect(card).toMatchObject({
+          due: 900,
+          factor: 2300,
+          ivl: 120,
+          lapses: 2,
+          left: matureCard.left,
+          queue: QueueType.REVIEW,
+          reps: 25,
+          type: CardType.REVIEW,
+        });
+      } finally {
+        await convertedPackage.cleanup();
+      }
+    });
+
+    it("should keep the review log entries of reviews converted from Anki", async () => {
+      const ankiPackage = expectSuccess(await AnkiPackage.fromDefault());
+      ankiPackage.addNoteType(basicModel);
+      const note = createTestAnkiNote({ fields: ["Front", "Back"], noteTypeId: basicModel.id });
+      const card = createTestAnkiCard({ deckId: defaultDeck.id, noteId: note.id });
+      const review = {
+        cid: card.id,
+        ease: 3,
+        factor: 2450,
+        id: 1_700_000_000_000,
+        ivl: 30,
+        lastIvl: 12,
+        time: 7300,
+        type: ReviewType.FILTERED,
+        usn: 0,
+      } satisfies RevlogTable;
+      ankiPackage.addNote(note);
+      ankiPackage.addCard(card);
+      ankiPackage.addReview(review);
+
+      const srsPackage = expectSuccess(ankiPackage.toSrsPackage());
+      await ankiPackage.cleanup();
+      const convertedPackage = expectSuccess(await AnkiPackage.fromSrsPackage(srsPackage));
+
+      try {
+        const { cid: _cid, ...reviewLog } = review;
+        expect(convertedPackage.getReviews()).toMatchObject([reviewLog]);
+      } finally {
+        await convertedPackage.cleanup();
+      }
+    });
+
+    it("should complete the scheduling state of review cards from older packages", async () => {
+      const { card, srsPackage } = createBasicSrsPackage();
+      card.applicationSpecificData = { ankiDue: "40", ankiQueue: "2", ankiType: "2" };
+
+      const ankiPackage = expectSuccess(await AnkiPackage.fromSrsPackage(srsPackage));
+
+      try {
+        expect(ankiPackage.getCards()[0]).toMatchObject({
+          due: 40,
+          factor: defaultDeckConfig.new.initialFactor,
+          ivl: 1,
+          queue: QueueType.REVIEW,
+          type: CardType.REVIEW,
+        });
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should derive the scheduling state from the reviews of cards", async () => {
+      const { card, srsPackage } = createBasicSrsPackage();
+      const collectionCreated = ankiDefaultCollection.crt * 1000;
+      const day = 86_400_000;
+      srsPackage.addReview(
+        createReview({ cardId: card.id, score: SrsReviewScore.Easy, timestamp: collectionCreated }),
+      );
+      srsPackage.addReview(
+        createReview({
+          cardId: card.id,
+          score: SrsReviewScore.Normal,
+          timestamp: collectionCreated + 4 * day,
+        }),
+      );
+
+      const ankiPackage = expectSuccess(await AnkiPackage.fromSrsPackage(srsPackage));
+
+      try {
+        expect(ankiPackage.getCards()[0]).toMatchObject({
+          due: 4 + 10,
+          factor: 2500,
+          ivl: 10,
+          queue: QueueType.REVIEW,
+          reps: 2,
+          type: CardType.REVIEW,
+        });
+        expect(ankiPackage.getReviews()).toMatchObject([
+          { factor: 2500, ivl: 4, lastIvl: 0, time: 0, type: ReviewType.LEARNING },
+          { factor: 2500, ivl: 10, lastIvl: 4, time: 0, type: ReviewType.REVIEW },
+        ]);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should leave out the learning progress without scheduling information", async () => {
+      const { card, srsPackage } = createBasicSrsPackage();
+      srsPackage.addReview(
+        createReview({
+          cardId: card.id,
+          score: SrsReviewScore.Easy,
+          timestamp: ankiDefaultCollection.crt * 1000,
+        }),
+      );
+
+      const ankiPackage = expectSuccess(
+        await AnkiPackage.fromSrsPackage(srsPackage, { includeScheduling: false }),
+      );
+
+      try {
+        expect(ankiPackage.getCards()[0]).toMatchObject({
+          due: 1,
+          ivl: 0,
+          queue: QueueType.NEW,
+          reps: 0,
+          type: CardType.NEW,
+        });
+        expect(ankiPackage.getReviews()).toEqual([]);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+
+    it("should keep cards without reviews new in the order of their notes", async () => {
+      const srsPackage = createMultiCardPackage(3);
+
+      const ankiPackage = expectSuccess(await AnkiPackage.fromSrsPackage(srsPackage));
+
+      try {
+        const cards = ankiPackage.getCards();
+        expect(cards.map((c) => [c.type, c.queue])).toEqual(
+          cards.map(() => [CardType.NEW, QueueType.NEW]),
+        );
+        expect(cards.map((c) => c.due)).toEqual([1, 2, 3]);
+      } finally {
+        await ankiPackage.cleanup();
+      }
+    });
+  });
+
   describe("Review conversion", () => {
     it.todo("should map all SrsReviewScore values to Ease", async () => {
       // TODO: Test all possible score mappings
@@ -1,48 +1,97 @@
-import { createReadStream, createWriteStream } from "node:fs";
-import { copyFile, mkdtemp, readFile, rm, stat, writeFile } from "node:fs/promises";
-import { tmpdir } from "node:os";
-import { join } from "node:path";
-import type { Readable } from "node:stream";
-import { pipeline } from "node:stream/promises";
-
 import protobuf from "protobufjs";
-import type { CentralDirectory } from "unzipper";
-import { Open } from "unzipper";
 
 import type { ConversionIssue, ConversionOptions, ConversionResult } from "@/error-handling";
 import { IssueCollector } from "@/error-handling";
-import type { SrsCard } from "@/srs-package";
+import type { SrsCard, SrsDeck, SrsReview } from "@/srs-package";
 import {
   SrsPackage,
   SrsReviewScore,
   createCard,
   createDeck,
+  createDeckPreset,
   createNote,
   createNoteType,
   createReview,
 } from "@/srs-package";
-
-import { defaultDeck } from "./constants";
+import {
+  getLocalFileSize,
+  listLocalFiles,
+  openLocalFile,
+  readLocalFile,
+  writeLocalFile,
+} from "@/storage/node-storage";
+import type { Storage, StorageBackend } from "@/storage/storage";
+import { getDefaultStorageBackend } from "@/storage/storage";
+import { concatChunks, readAll, readChunks, toReadableStream } from "@/storage/streams";
+import type { ZipEntry, ZipSource } from "@/zip/zip-reader";
+import { ZipError, ZipReader, bufferSource } from "@/zip/zip-reader";
+import type { ZipWriterEntry } from "@/zip/zip-writer";
+import { writeZip } from "@/zip/zip-writer";
+
+import { fieldChecksum, sha1, stripHtmlPreservingMediaFilenames } from "./checksum";
+import {
+  ankiDefaultCollection,
+  basicModel,
+  defaultConfig,
+  defaultDeck,
+  defaultDeckConfig,
+  defaultField,
+  defaultNoteType,
+  defaultTemplate,
+} from "./constants";
+import type { CollectionJsonColumn, DamagedRowRange, RecoverableTable } from "./database";
 import { AnkiDatabase, AnkiDatabaseError } from "./database";
+import { guid64FromSeed } from "./guid";
+import type { MediaEntriesMessage, MediaEntryMessage } from "./media-entries";
+import { parseMediaEntries, writeMediaEntries } from "./media-entries";
+import type { ReviewLogState } from "./scheduling";
+import {
+  getNewCardState,
+  getReviewLogData,
+  getSchedulingData,
+  replayReviews,
+  restoreReviewLog,
+  restoreSchedulingState,
+} from "./scheduling";
+import { getAnkiStockNoteType, getSrsStockNoteType } from "./stock-note-types";
+import { getTemplateRequirements } from "./templates";
 import type {
   CardsTable,
   Config,
   DatabaseDump,
   Deck,
+  DeckConfig,
   MediaFileMapping,
   NoteType,
   NotesTable,
   RevlogTable,
 } from "./types";
-import { DeckDynamicity, Ease, ExportVersion, NoteTypeKind } from "./types";
 import {
-  createSelectiveZip,
+  CardType,
+  DeckDynamicity,
+  Ease,
+  ExportVersion,
+  NoteTypeKind,
+  OriginalStockKind,
+  QueueType,
+  ReviewType,
+} from "./types";
+import {
   extractTimestampFromUuid,
-  guid64,
   joinAnkiFields,
+  omitFields,
+  parseWithBigInts,
   serializeWithBigInts,
   splitAnkiFields,
 } from "./util";
+import { validateConfig, validateDeck, validateDeckConfig, validateNoteType } from "./validation";
+import {
+  compressZstd,
+  compressZstdStream,
+  decompressZstd,
+  decompressZstdStream,
+  isZstdCompressed,
+} from "./zstd";
 
 /**
  * Validation result for individual items
@@ -52,85 +101,6 @@ interface ValidationResult {
   error?: string;
 }
 
-/**
- * Validates a deck entry from the database
- * @param deckId - The deck ID key from the decks object
- * @param data - The raw deck data to validate
- * @returns Validation result indicating if the deck is valid
- */
-function validateDeckEntry(deckId: string, data: unknown): ValidationResult {
-  if (data === null || typeof data !== "object") {
-    return { error: "not an object", valid: false };
-  }
-
-  const deck = data as Record<string, unknown>;
-  const deckIdValue = deck["id"];
-  const deckNameValue = deck["name"];
-
-  if (typeof deckIdValue !== "number" || Number.isNaN(deckIdValue)) {
-    return { error: "missing or invalid 'id' field", valid: false };
-  }
-
-  if (typeof deckNameValue !== "string") {
-    return { error: "missing or invalid 'name' field", valid: false };
-  }
-
-  if (deckIdValue.toString() !== deckId) {
-    return {
-      error: `deck ID mismatch: key is '${deckId}' but id field is '${deckIdValue.toString()}'`,
-      valid: false,
-    };
-  }
-
-  return { valid: true };
-}
-
-/**
- * Validates a note type entry from the database
- * @param noteTypeId - The note type ID key from the models object
- * @param data - The raw note type data to validate
- * @returns Validation result indicating if the note type is valid
- */
-function validateNoteTypeEntry(noteTypeId: string, data: unknown): ValidationResult {
-  if (data === null || typeof data !== "object") {
-    return { error: "not an object", valid: false };
-  }
-
-  const noteType = data as Record<string, unknown>;
-  const noteTypeIdValue = noteType["id"];
-  const noteTypeNameValue = noteType["name"];
-  const noteTypeFldsValue = noteType["flds"];
-  const noteTypeTmplsValue = noteType["tmpls"];
-
-  if (typeof noteTypeIdValue !== "number" || Number.isNaN(noteTypeIdValue)) {
-    return { error: "missing or invalid 'id' field", valid: false };
-  }
-
-  if (typeof noteTypeNameValue !== "string") {
-    return { error: "missing or invalid 'name' field", valid: false };
-  }
-
-  if (!Array.isArray(noteTypeFldsValue)) {
-    return { error: "missing or invalid 'flds' (fields) array", valid: false };
-  }
-
-  if (!Array.isArray(noteTypeTmplsValue)) {
-    return {
-      error: "missing or invalid 'tmpls' (templates) array",
-      valid: false,
-    };
-  }
-
-  if (noteTypeIdValue.toString() !== noteTypeId) {
-    return {
-      error: `note type ID mismatch: key is '${noteTypeId}' but id field is '${noteTypeIdValue.toString()}'`,
-      valid: false,
-    };
-  }
-
-  return { valid: true };
-}
-
 /**
  * Validates a note from the database
  * @param note - The note to validate
@@ -237,29 +207,58 @@ function validateReview(review: RevlogTable, validCardIds: Set<number>): Validat
  * @returns Database dump with only valid items
  */
 function filterValidDatabaseItems(dump: DatabaseDump, collector: IssueCollector): DatabaseDump {
-  // Step 1: Validate decks
+  // Step 1: Validate the configuration, repairing it where needed
+  const config = validateConfig(dump.collection.conf);
+  for (const warning of config.warnings) {
+    collector.addWarning(warning, { originalData: dump.collection.conf });
+  }
+
+  // Step 2: Validate deck configurations
+  const validDeckConfigs: Record<string, DeckConfig> = {};
+  for (const [deckConfigId, deckConfigData] of Object.entries(dump.collection.dconf)) {
+    const validation = validateDeckConfig(deckConfigId, deckConfigData);
+    if (validation.valid) {
+      validDeckConfigs[deckConfigId] = validation.value;
+      for (const warning of validation.warnings) {
+        collector.addWarning(warning, { originalData: deckConfigData });
+      }
+    } else {
+      collector.addError(
+        `Deck configuration '${deckConfigId}' is invalid: ${validation.error}. This deck configuration will be skipped.`,
+        { originalData: deckConfigData },
+      );
+    }
+  }
+
+  // Step 3: Validate decks
   const validDecks: Record<string, Deck> = {};
   for (const [deckId, deckData] of Object.entries(dump.collection.decks)) {
-    const validation = validateDeckEntry(deckId, deckData);
+    const validation = validateDeck(deckId, deckData);
     if (validation.valid) {
-      validDecks[deckId] = deckData;
+      validDecks[deckId] = validation.value;
+      for (const warning of validation.warnings) {
+        collector.addWarning(warning, { itemType: "deck", originalData: deckData });
+      }
     } else {
       collector.addError(
-        `Deck '${deckId}' is invalid: ${validation.error ?? "unknown error"}. This deck will be skipped.`,
+        `Deck '${deckId}' is invalid: ${validation.error}. This deck will be skipped.`,
         { itemType: "deck", originalData: deckData },
       );
     }
   }
 
-  // Step 2: Validate note types
+  // Step 4: Validate note types with their fields and templates
   const validNoteTypes: Record<string, NoteType> = {};
   for (const [modelId, modelData] of Object.entries(dump.collection.models)) {
-    const validation = validateNoteTypeEntry(modelId, modelData);
+    const validation = validateNoteType(modelId, modelData);
     if (validation.valid) {
-      validNoteTypes[modelId] = modelData;
+      validNoteTypes[modelId] = validation.value;
+      for (const warning of validation.warnings) {
+        collector.addWarning(warning, { itemType: "noteType", originalData: modelData });
+      }
     } else {
       collector.addError(
-        `Note type '${modelId}' is invalid: ${validation.error ?? "unknown error"}. This note type will be skipped.`,
+        `Note type '${modelId}' is invalid: ${validation.error}. This note type will be skipped.`,
         { itemType: "noteType", originalData: modelData },
       );
     }
@@ -268,7 +267,7 @@ function filterValidDatabaseItems(dump: DatabaseDump, collector: IssueCollector)
   const validDeckIds = new Set(Object.keys(validDecks).map(Number));
   const validNoteTypeIds = new Set(Object.keys(validNoteTypes).map(Number));
 
-  // Step 3: Validate notes
+  // Step 5: Validate notes
   const validNotes: NotesTable[] = [];
   for (const note of dump.notes) {
     const validation = validateNote(note, validNoteTypeIds);
@@ -284,7 +283,7 @@ function filterValidDatabaseItems(dump: DatabaseDump, collector: IssueCollector)
 
   const validNoteIds = new Set(validNotes.map((n) => n.id));
 
-  // Step 4: Validate cards
+  // Step 6: Validate cards
   const validCards: CardsTable[] = [];
   for (const card of dump.cards) {
     const validation = validateCard(card, validNoteIds, validDeckIds);
@@ -303,7 +302,7 @@ function filterValidDatabaseItems(dump: DatabaseDump, collector: IssueCollector)
     validCards.map((c) => c.id).filter((id): id is number => id !== null),
   );
 
-  // Step 5: Validate reviews
+  // Step 7: Validate reviews
   const validReviews: RevlogTable[] = [];
   for (const review of dump.reviews) {
     const validation = validateReview(review, validCardIds);
@@ -322,6 +321,8 @@ function filterValidDatabaseItems(dump: DatabaseDump, collector: IssueCollector)
     cards: validCards,
     collection: {
       ...dump.collection,
+      conf: config.value,
+      dconf: validDeckConfigs,
       decks: validDecks,
       models: validNoteTypes,
     },
@@ -331,6 +332,71 @@ function filterValidDatabaseItems(dump: DatabaseDump, collector: IssueCollector)
   };
 }
 
+/**
+ * Brings a collection written by Anki 2.0 (legacy v1 packages) up to the layout
+ * of current schema 11 collections.
+ *
+ * Anki 2.0 wrote the same schema, but many properties of decks, deck configs,
+ * note types, fields and templates were added later and are missing. Missing
+ * properties are filled with the values Anki uses for new items. Cards that
+ * were relearning under the v1 scheduler are stored as review cards in the
+ * learning queue, they are converted to relearning cards as Anki does when
+ * upgrading to the v2 scheduler, and the collection then uses the v2 scheduler.
+ * @param dump - The raw database dump of a legacy v1 package
+ * @returns Database dump with all properties present
+ */
+function upgradeLegacyV1Collection(dump: DatabaseDump): DatabaseDump {
+  const { collection } = dump;
+  const usesV1Scheduler = (collection.conf.schedVer ?? 1) === 1;
+  const isV1RelearningCard = (card: CardsTable) =>
+    usesV1Scheduler &&
+    card.type === CardType.REVIEW &&
+    (card.queue === QueueType.LEARN || card.queue === QueueType.DAYLEARN);
+  const convertedCards = dump.cards.some((card) => isV1RelearningCard(card));
+
+  const cards = dump.cards.map((card) =>
+    isV1RelearningCard(card) ? { ...card, type: CardType.RELEARN } : card,
+  );
+
+  return {
+    ...dump,
+    cards,
+    collection: {
+      ...collection,
+      // The converted cards are only valid for the v2 scheduler
+      conf: { ...defaultConfig, ...collection.conf, ...(convertedCards && { schedVer: 2 }) },
+      dconf: Object.fromEntries(
+        Object.entries(collection.dconf).map(([id, deckConfig]) => [
+          id,
+          {
+            ...defaultDeckConfig,
+            ...deckConfig,
+            lapse: { ...defaultDeckConfig.lapse, ...deckConfig.lapse },
+            new: { ...defaultDeckConfig.new, ...deckConfig.new },
+            rev: { ...defaultDeckConfig.rev, ...deckConfig.rev },
+          },
+        ]),
+      ),
+      decks: Object.fromEntries(
+        Object.entries(collection.decks).map(([id, deck]) => [id, { ...defaultDeck, ...deck }]),
+      ),
+      models: Object.fromEntries(
+        Object.entries(collection.models).map(([id, noteType]) => [
+          id,
+          {
+            ...defaultNoteType,
+            ...noteType,
+            flds: noteType.flds.map((field) => ({ ...defaultField, ...field })),
+            tmpls: noteType.tmpls.map((template) => ({ ...defaultTemplate, ...template })),
+          },
+        ]),
+      ),
+    },
+    // The sort field column has integer affinity, numeric sort fields are read as numbers
+    notes: dump.notes.map((note) => ({ ...note, sfld: String(note.sfld) })),
+  };
+}
+
 /**
  * Analyzes a note's field content to find cloze deletions and returns the required card ordinals.
  * For cloze note types, cards are generated based on the cloze deletion numbers found in the field content.
@@ -352,6 +418,306 @@ function analyzeClozeOrdinals(fieldContent: string): number[] {
   return clozeNumbers;
 }
 
+/**
+ * Takes the parts of a collection that belong in a deck package. Collection-wide
+ * state (deleted items, unused deck configurations and tags, reviews of other
+ * cards) is left out.
+ * @param dump - The contents of the collection
+ * @returns The contents of the deck package
+ */
+function getDeckPackageContents(dump: DatabaseDump): DatabaseDump {
+  const { collection } = dump;
+
+  const usedDeckConfigIds = new Set([defaultDeckConfig.id]);
+  for (const deck of Object.values(collection.decks)) {
+    if (deck.dyn === DeckDynamicity.STATIC) {
+      usedDeckConfigIds.add(deck.conf);
+    }
+  }
+
+  // Tags are registered with their update sequence number, unregistered ones like new tags
+  const tags: Record<string, number> = {};
+  for (const note of dump.notes) {
+    for (const tag of note.tags.split(" ")) {
+      if (tag !== "") {
+        tags[tag] = collection.tags[tag] ?? 0;
+      }
+    }
+  }
+
+  const cardIds = new Set(dump.cards.map((card) => card.id));
+  return {
+    cards: dump.cards,
+    collection: {
+      ...collection,
+      dconf: Object.fromEntries(
+        Object.entries(collection.dconf).filter(([, deckConfig]) =>
+          usedDeckConfigIds.has(deckConfig.id),
+        ),
+      ),
+      tags,
+    },
+    deletedItems: [],
+    notes: dump.notes,
+    reviews: dump.reviews.filter((review) => cardIds.has(review.cid)),
+  };
+}
+
+/**
+ * Takes the cards of a collection a selection exports, with their notes and
+ * the decks and note types they need. Decks keep their parent decks, so their
+ * place in the deck hierarchy does not change.
+ * @param dump - The contents of the collection
+ * @param selection - The part of the collection to export
+ * @returns The selected contents
+ */
+function getSelectedContents(dump: DatabaseDump, selection: AnkiExportSelection): DatabaseDump {
+  const { collection } = dump;
+  const decks = Object.values(collection.decks);
+
+  let selectedDeckIds: Set<number> | undefined;
+  if (selection.deckIds) {
+    const { deckIds, includeSubdecks = true } = selection;
+    const names = decks.filter((deck) => deckIds.includes(deck.id)).map((deck) => deck.name);
+    selectedDeckIds = new Set(
+      decks
+        .filter(
+          (deck) =>
+            deckIds.includes(deck.id) || (includeSubdecks && isSubdeckOfAny(deck.name, names)),
+        )
+        .map((deck) => deck.id),
+    );
+  }
+
+  const tags = selection.tags?.map((tag) => tag.toLowerCase());
+  const noteIds = new Set(
+    dump.notes
+      .filter(
+        (note) =>
+          (tags === undefined || hasAnyTag(note.tags, tags)) &&
+          (selection.noteFilter?.(note) ?? true),
+      )
+      .map((note) => note.id),
+  );
+  // Cards in filtered decks belong to their original deck as well
+  const cards = dump.cards.filter(
+    (card) =>
+      noteIds.has(card.nid) &&
+      (selectedDeckIds === undefined ||
+        selectedDeckIds.has(card.did) ||
+        selectedDeckIds.has(card.odid)) &&
+      (selection.cardFilter?.(card) ?? true),
+  );
+  const cardNoteIds = new Set(cards.map((card) => card.nid));
+  const notes = dump.notes.filter((note) => cardNoteIds.has(note.id));
+
+  const usedDeckIds = new Set([
+    defaultDeck.id,
+    ...(selectedDeckIds ?? []),
+    ...cards.flatMap((card) => [card.did, card.odid]),
+  ]);
+  const usedDeckNames = decks.filter((deck) => usedDeckIds.has(deck.id)).map((deck) => deck.name);
+  const usedNoteTypeIds = new Set(notes.map((note) => note.mid.toFixed(0)));
+
+  return {
+    ...dump,
+    cards,
+    collection: {
+      ...collection,
+      decks: Object.fromEntries(
+        Object.entries(collection.decks).filter(
+          ([, deck]) =>
+            usedDeckIds.has(deck.id) ||
+            usedDeckNames.some((name) => isSubdeckOfAny(name, [deck.name])),
+        ),
+      ),
+      models: Object.fromEntries(
+        Object.entries(collection.models).filter(([id]) => usedNoteTypeIds.has(id)),
+      ),
+    },
+    notes,
+  };
+}
+
+/**
+ * Removes the learning progress from a collection, like Anki does when decks
+ * are exported without scheduling information. Reviews are left out and all
+ * cards become new cards. Cards in filtered decks go back to their home deck.
+ * The new cards keep the order of the cards that were new before, studied
+ * cards follow in the order their notes were added. The `leech` and `marked`
+ * tags and the study counters of the decks are cleared as well.
+ * @param dump - The contents of the collection
+ * @returns The contents without the learning progress
+ */
+function getContentsWithoutScheduling(dump: DatabaseDump): DatabaseDump {
+  const { collection } = dump;
+
+  // All cards of a note are new together, at the earliest position of its new cards
+  const notePositions = new Map<number, number>();
+  for (const card of dump.cards) {
+    const due = card.odid === 0 ? card.due : card.odue;
+    const isNew = card.type === CardType.NEW && card.queue === QueueType.NEW;
+    const position = notePositions.get(card.nid) ?? Number.POSITIVE_INFINITY;
+    notePositions.set(card.nid, isNew ? Math.min(position, due) : position);
+  }
+  const sortedNoteIds = [...notePositions.entries()]
+    .sort(([idA, positionA], [idB, positionB]) => positionA - positionB || idA - idB)
+    .map(([noteId]) => noteId);
+  const newPositions = new Map(sortedNoteIds.map((noteId, index) => [noteId, index + 1]));
+
+  const removeSchedulingTags = (tags: string): string => {
+    const remaining = tags
+      .split(" ")
+      .filter((tag) => !SCHEDULING_TAGS.includes(tag.toLowerCase()))
+      .join(" ");
+    return remaining.trim() === "" ? "" : remaining;
+  };
+
+  return {
+    ...dump,
+    cards: dump.cards.map((card) => ({
+      ...card,
+      ...getNewCardState(newPositions.get(card.nid) ?? 0),
+      data: "",
+      did: card.odid === 0 ? card.did : card.odid,
+      flags: 0,
+      odid: 0,
+      odue: 0,
+    })),
+    collection: {
+      ...collection,
+      conf: { ...collection.conf, nextPos: sortedNoteIds.length + 1 },
+      decks: Object.fromEntries(
+        Object.entries(collection.decks).map(([id, deck]) => [
+          id,
+          { ...deck, lrnToday: [0, 0], newToday: [0, 0], revToday: [0, 0], timeToday: [0, 0] },
+        ]),
+      ),
+      tags: Object.fromEntries(
+        Object.entries(collection.tags).filter(
+          ([tag]) => !SCHEDULING_TAGS.includes(tag.toLowerCase()),
+        ),
+      ),
+    },
+    notes: dump.notes.map((note) => ({ ...note, tags: removeSchedulingTags(note.tags) })),
+    reviews: [],
+  };
+}
+
+/**
+ * Checks if a deck is a subdeck of any of the given decks, at any level.
+ * @param deckName - The full name of the deck
+ * @param parentNames - The full names of the possible parent decks
+ * @returns Whether the deck is below any of the decks
+ */
+function isSubdeckOfAny(deckName: string, parentNames: readonly string[]): boolean {
+  return parentNames.some((parentName) =>
+    deckName.startsWith(parentName + DECK_HIERARCHY_SEPARATOR),
+  );
+}
+
+/**
+ * Checks if a note has any of the given tags or their child tags.
+ * @param noteTags - The space-separated tags of the note
+ * @param tags - The tags to look for, in lower case
+ * @returns Whether the note has any of the tags
+ */
+function hasAnyTag(noteTags: string, tags: readonly string[]): boolean {
+  return noteTags
+    .toLowerCase()
+    .split(" ")
+    .some((noteTag) =>
+      tags.some((tag) => noteTag === tag || noteTag.startsWith(tag + TAG_HIERARCHY_SEPARATOR)),
+    );
+}
+
+/**
+ * Finds the media files the fields of a note or a template use.
+ * @param text - The field or template
+ * @returns The names of the referenced media files
+ */
+function getMediaReferences(text: string): string[] {
+  // Use matchAll() to avoid lastIndex issues with global regex
+  // match[1] contains img src, match[2] contains sound filename
+  return [...text.matchAll(MEDIA_REFERENCE_PATTERN)]
+    .map((match) => match[1] ?? match[2])
+    .filter((filename): filename is string => filename !== undefined && filename !== "");
+}
+
+/**
+ * Finds the media files the notes of a collection use. Note types can use
+ * media files whose names start with `_` in their templates and styling,
+ * e.g. fonts and scripts, which are not referenced by the notes.
+ * @param dump - The contents of the collection
+ * @param mediaFileNames - The names of the media files of the package
+ * @returns The names of the used media files
+ */
+function getUsedMediaFiles(dump: DatabaseDump, mediaFileNames: Iterable<string>): Set<string> {
+  const usedMediaFiles = new Set(
+    dump.notes.flatMap((note) =>
+      splitAnkiFields(note.flds).flatMap((field) => getMediaReferences(field)),
+    ),
+  );
+
+  const templates = Object.values(dump.collection.models)
+    .flatMap((noteType) => [
+      noteType.css,
+      ...noteType.tmpls.flatMap((template) => [template.qfmt, template.afmt]),
+    ])
+    .join("\n");
+  for (const name of getMediaReferences(templates)) {
+    usedMediaFiles.add(name);
+  }
+  for (const name of mediaFileNames) {
+    if (name.startsWith("_") && templates.includes(name)) {
+      usedMediaFiles.add(name);
+    }
+  }
+  return usedMediaFiles;
+}
+
+/**
+ * Sorts the contents of a collection by their IDs, so they are written the
+ * same way no matter in which order they were added.
+ * @param dump - The contents of the collection
+ * @returns The sorted contents
+ */
+function getSortedContents(dump: DatabaseDump): DatabaseDump {
+  const byId = (a: { id: number | null }, b: { id: number | null }) => (a.id ?? 0) - (b.id ?? 0);
+  const byNumericKey = ([a]: [string, unknown], [b]: [string, unknown]) => Number(a) - Number(b);
+  const { collection } = dump;
+
+  return {
+    cards: [...dump.cards].sort(byId),
+    collection: {
+      ...collection,
+      conf: Object.fromEntries(
+        Object.entries(collection.conf).sort(([a], [b]) => compareCodePoints(a, b)),
+      ) as typeof collection.conf,
+      dconf: Object.fromEntries(Object.entries(collection.dconf).sort(byNumericKey)),
+      decks: Object.fromEntries(Object.entries(collection.decks).sort(byNumericKey)),
+      models: Object.fromEntries(Object.entries(collection.models).sort(byNumericKey)),
+      tags: Object.fromEntries(
+        Object.entries(collection.tags).sort(([a], [b]) => compareCodePoints(a, b)),
+      ),
+    },
+    deletedItems: [...dump.deletedItems].sort((a, b) => a.oid - b.oid || a.type - b.type),
+    notes: [...dump.notes].sort(byId),
+    reviews: [...dump.reviews].sort(byId),
+  };
+}
+
+/**
+ * Compares strings by their code points, unlike `localeCompare()` the order
+ * does not depend on the locale.
+ * @param a - The first string
+ * @param b - The second string
+ * @returns A negative number if `a` comes first, a positive number if `b` comes first, 0 otherwise
+ */
+function compareCodePoints(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
 /**
  * Resolves an Anki ID from an SRS entity using a two-step strategy.
  *
@@ -378,17 +744,289 @@ function resolveAnkiId(
   return fallbackValue;
 }
 
-const EXPORT_VERSION = ExportVersion.Legacy_V2;
-const DB_VERSION = 11;
+/**
+ * Sorts SRS entities by the Anki ID they are converted to, and entities with
+ * the same ID by their UUID. Entities whose IDs collide get the following
+ * IDs in this order, so the IDs do not change if the entities are exported
+ * again in another order.
+ * @param entities - The SRS entities
+ * @returns The sorted entities
+ */
+function sortByAnkiId<T extends { id: string; applicationSpecificData?: Record<string, string> }>(
+  entities: readonly T[],
+): T[] {
+  const ankiIds = new Map(
+    entities.map((entity) => [
+      entity,
+      resolveAnkiId(entity.applicationSpecificData, extractTimestampFromUuid(entity.id)),
+    ]),
+  );
+  return [...entities].sort(
+    (a, b) => (ankiIds.get(a) ?? 0) - (ankiIds.get(b) ?? 0) || a.id.localeCompare(b.id),
+  );
+}
+
+/** Packages are written in the legacy format by default, as all Anki versions can read it */
+const DEFAULT_EXPORT_VERSION = ExportVersion.Legacy_V2;
+const SUPPORTED_EXPORT_VERSIONS = [
+  ExportVersion.Legacy_V1,
+  ExportVersion.Legacy_V2,
+  ExportVersion.Latest,
+] as const;
+const COLLECTION_FILE_NAMES: Record<ExportVersion, string> = {
+  [ExportVersion.Legacy_V1]: "collection.anki2",
+  [ExportVersion.Legacy_V2]: "collection.anki21",
+  [ExportVersion.Latest]: "collection.anki21b",
+};
 const VALID_FILE_EXTENSIONS = [".apkg", ".colpkg"] as const;
+/** The modification date of the files in deterministic exports, the earliest date ZIP archives can store */
+const DETERMINISTIC_EXPORT_DATE = new Date(1980, 0, 1);
+/** Separates the names of parent decks and subdecks in the full names of Anki decks */
+const DECK_HIERARCHY_SEPARATOR = "::";
+/** Separates parent tags and child tags, e.g. `japanese::verbs` */
+const TAG_HIERARCHY_SEPARATOR = "::";
+/** Tags Anki adds while studying, which are removed with the learning progress */
+const SCHEDULING_TAGS: readonly string[] = ["leech", "marked"];
+/**
+ * Media references in fields and templates: `<img src="filename.ext">` with
+ * or without quotes, and `[sound:filename.ext]` (used for both audio and video
+ * in Anki). The pattern can be extended if additional formats are discovered.
+ */
+const MEDIA_REFERENCE_PATTERN = /<img[^>]+src=["']?([^"'>\s]+)["']?|\[sound:([^\]]+)\]/gi;
+
+/**
+ * What the rows of the tables that can be recovered from a damaged database
+ * are called in issues
+ */
+const DAMAGED_ROW_ITEMS: Record<RecoverableTable, string> = {
+  cards: "cards",
+  notes: "notes",
+  revlog: "reviews",
+};
+const DAMAGED_ROW_ITEM_TYPES = {
+  cards: "card",
+  notes: "note",
+  revlog: "review",
+} as const satisfies Record<RecoverableTable, string>;
+
+/**
+ * What the JSON columns of the collection contain and what happens if they
+ * cannot be parsed
+ */
+const INVALID_COLLECTION_COLUMNS: Record<
+  CollectionJsonColumn,
+  { contents: string; consequence: string; severity: "error" | "warning" }
+> = {
+  conf: {
+    consequence: "The default configuration is used.",
+    contents: "collection configuration",
+    severity: "warning",
+  },
+  dconf: {
+    consequence: "They are missing from the package.",
+    contents: "deck configurations",
+    severity: "error",
+  },
+  decks: {
+    consequence: "They are missing from the package, and so are their cards.",
+    contents: "decks",
+    severity: "error",
+  },
+  models: {
+    consequence: "They are missing from the package, and so are their notes.",
+    contents: "note types",
+    severity: "error",
+  },
+  tags: {
+    consequence: "The tags of the notes are kept.",
+    contents: "list of tags",
+    severity: "warning",
+  },
+};
+
+/**
+ * The kinds of Anki packages: a selection of decks (`apkg`) or a whole
+ * collection (`colpkg`).
+ *
+ * Importing a deck package adds its decks to the collection in Anki, while
+ * restoring a collection package replaces the whole profile. Collection
+ * packages therefore also carry the collection-wide state: all deck
+ * configurations, the configuration, the tag list, the deleted items and the
+ * complete review history.
+ */
+export type AnkiExportFormat = "apkg" | "colpkg";
+
+export interface AnkiPackageOptions extends Partial<ConversionOptions> {
+  /**
+   * Where the files of the package are kept while it is open. Defaults to a
+   * temporary directory with Node.js and to memory in other runtimes.
+   */
+  storage?: StorageBackend;
+}
+
+export interface AnkiExportReadOptions extends AnkiPackageOptions {
+  /**
+   * The kind of package, e.g. taken from the name of an uploaded file. Both
+   * kinds have the same contents, so it cannot be recognized and defaults to
+   * a deck package (`apkg`).
+   */
+  format?: AnkiExportFormat;
+}
+
+export interface AnkiCollectionReadOptions extends AnkiPackageOptions {
+  /**
+   * The media folder of the profile. Defaults to the folder next to the
+   * collection file, e.g. `collection.media` for `collection.anki2`.
+   */
+  mediaFolder?: string;
+}
+
+export interface AnkiExportWriteOptions {
+  /**
+   * The kind of package to write. Defaults to the kind given by the file
+   * extension, or to the kind of the package that was read for other
+   * extensions.
+   */
+  format?: AnkiExportFormat;
+  /**
+   * The export format to write. The latest format (v3) is smaller, but can
+   * only be read by Anki 2.1.50 and later and requires zstd support of
+   * Node.js. Defaults to the legacy format (v2).
+   */
+  version?: ExportVersion.Legacy_V2 | ExportVersion.Latest;
+  /**
+   * Whether to write the same bytes for the same contents, e.g. to keep
+   * packages in version control. The files in the archive get a fixed
+   * modification date, and the rows of the collection and the media files
+   * are sorted instead of being written in the order they were added.
+   * Defaults to false.
+   */
+  deterministic?: boolean;
+  /**
+   * Only exports a part of the package, like exporting a single deck in
+   * Anki. Collection packages are full backups, so only deck packages can be
+   * written of a part.
+   */
+  selection?: AnkiExportSelection;
+  /**
+   * Whether to export the learning progress, like the option of the Anki
+   * export dialog. Without it, the reviews are left out and all cards are
+   * new cards, e.g. to share a deck from your own collection. Defaults to
+   * true.
+   */
+  includeScheduling?: boolean;
+}
+
+export interface AnkiSrsConversionOptions extends AnkiPackageOptions {
+  /**
+   * Whether to convert the learning progress of the cards and the reviews.
+   * Without it, the reviews are left out and all cards are new cards.
+   * Defaults to true.
+   */
+  includeScheduling?: boolean;
+}
+
+/**
+ * The part of a package to export. Cards are exported if they match all
+ * given criteria, notes are exported with these cards. The decks, note types,
+ * reviews and media files the notes and cards need are exported with them.
+ */
+export interface AnkiExportSelection {
+  /** The IDs of the decks whose cards are exported */
+  deckIds?: number[];
+  /** Whether the cards of the subdecks of these decks are exported. Defaults to true. */
+  includeSubdecks?: boolean;
+  /**
+   * Only exports notes with any of these tags or their child tags, e.g.
+   * `japanese` includes `japanese::verbs`. Tags are compared ignoring case
+   * like in Anki.
+   */
+  tags?: string[];
+  /** Decides which notes are exported */
+  noteFilter?: (note: NotesTable) => boolean;
+  /** Decides which cards are exported */
+  cardFilter?: (card: CardsTable) => boolean;
+}
+
+/**
+ * What an export contains and what it leaves out.
+ */
+export interface AnkiExportSummary {
+  decks: number;
+  noteTypes: number;
+  notes: number;
+  cards: number;
+  reviews: number;
+  /** The names of the exported media files */
+  mediaFiles: string[];
+  /** The contents of the package that are not exported */
+  leftOut: {
+    notes: number;
+    cards: number;
+    /** The names of the media files the exported notes do not use */
+    mediaFiles: string[];
+  };
+  /** Media files the exported notes use, but the package does not contain */
+  missingMediaFiles: string[];
+}
+
+/**
+ * The contents of a package that are exported.
+ */
+interface AnkiExportContents {
+  contents: DatabaseDump;
+  /** The IDs and names of the media files */
+  mediaFiles: [mediaId: string, name: string][];
+}
+
+/**
+ * Where an Anki package is read from.
+ */
+type AnkiExportSource =
+  | { path: string; format: AnkiExportFormat }
+  | { data: Uint8Array; format: AnkiExportFormat | undefined };
+
+/**
+ * A media file that is still stored in the archive the package was read from.
+ */
+interface ArchivedMediaFile {
+  /** The archive the package was read from */
+  archive: ZipReader;
+  /** The entry in the ZIP archive */
+  entry: ZipEntry;
+  /** The size of the media file after decompression */
+  size: number;
+  /** Whether the entry is zstd compressed in addition to the ZIP compression */
+  zstdCompressed: boolean;
+}
+
+/**
+ * A media file in the media folder of the Anki profile the package was read from.
+ */
+interface MediaFolderFile {
+  /** The path of the media file */
+  path: string;
+  /** The size of the media file */
+  size: number;
+}
 
 export class AnkiPackage {
-  private tempDir: string;
+  private storage: Storage;
   private databaseContents: DatabaseDump | undefined;
   private mediaFiles: MediaFileMapping = {};
-
-  private constructor(tempDir: string) {
-    this.tempDir = tempDir;
+  /**
+   * Media files that are not copied to the storage, by media ID. They are
+   * read from the archive or the media folder on demand, so these must not be
+   * removed while the package is in use.
+   */
+  private externalMediaFiles = new Map<string, ArchivedMediaFile | MediaFolderFile>();
+  /** The archive the media files are read from, it is closed on cleanup */
+  private archive: ZipReader | undefined;
+  /** The kind of package that was read, new packages are deck packages */
+  private format: AnkiExportFormat = "apkg";
+
+  private constructor(storage: Storage) {
+    this.storage = storage;
   }
 
   private getCardDescription(card: CardsTable, note?: NotesTable, deck?: Deck): string {
@@ -428,12 +1066,14 @@ export class AnkiPackage {
   }
 
   public static async fromDefault(
-    options?: ConversionOptions,
+    options?: AnkiPackageOptions,
   ): Promise<ConversionResult<AnkiPackage>> {
-    const collector = new IssueCollector(options);
+    const collector = new IssueCollector({
+      errorHandling: options?.errorHandling ?? "best-effort",
+    });
 
     try {
-      const instance = new AnkiPackage(await makeTempDir());
+      const instance = new AnkiPackage(await createStorage(options?.storage));
       let db: AnkiDatabase | undefined;
 
       try {
@@ -447,7 +1087,7 @@ export class AnkiPackage {
           `Cannot start conversion because the default database could not be created. ${error instanceof Error ? error.message : String(error)}.`,
         );
 
-        const cleanupIssues = await removeDirectory(instance.tempDir);
+        const cleanupIssues = await removeStorage(instance.storage);
         collector.addIssues(cleanupIssues);
         return collector.createFailureResult<AnkiPackage>();
       } finally {
@@ -461,59 +1101,255 @@ export class AnkiPackage {
     }
   }
 
-  public static async fromAnkiExport(
+  public static fromAnkiExport(
     filepath: string,
-    options?: ConversionOptions,
+    options?: AnkiPackageOptions,
   ): Promise<ConversionResult<AnkiPackage>> {
-    const collector = new IssueCollector(options);
+    const collector = new IssueCollector({
+      errorHandling: options?.errorHandling ?? "best-effort",
+    });
 
+    const format = getFormatFromPath(filepath);
+    if (format === undefined) {
+      collector.addCritical(
+        `Invalid file extension. Expected one of: ${VALID_FILE_EXTENSIONS.join(", ")}.`,
+      );
+      return Promise.resolve(collector.createFailureResult<AnkiPackage>());
+    }
+
+    return AnkiPackage.readAnkiExport({ format, path: filepath }, options?.storage, collector);
+  }
+
+  /**
+   * Reads an Anki package from memory, e.g. the body of an upload request.
+   *
+   * Unlike `fromAnkiExport()`, there is no file extension to check. The
+   * contents are validated the same way, so invalid data results in the same
+   * issues as an invalid file.
+   *
+   * Media files are read from the data on demand and it is not copied, so it
+   * must not be changed until the package is cleaned up. Pass a copy if the
+   * buffer is reused.
+   * @param data - The contents of the `.apkg` or `.colpkg` file
+   * @param options - Conversion options and the kind of package, if known
+   * @returns The loaded package
+   */
+  public static async fromAnkiExportBuffer(
+    data: Uint8Array | ArrayBuffer | Blob,
+    options?: AnkiExportReadOptions,
+  ): Promise<ConversionResult<AnkiPackage>> {
+    const collector = new IssueCollector({
+      errorHandling: options?.errorHandling ?? "best-effort",
+    });
+
+    let buffer: Uint8Array;
     try {
-      const instance = new AnkiPackage(await makeTempDir());
-      let db: AnkiDatabase | undefined;
+      buffer =
+        data instanceof Blob
+          ? new Uint8Array(await data.arrayBuffer())
+          : data instanceof ArrayBuffer
+            ? new Uint8Array(data)
+            : data;
+    } catch (error) {
+      collector.addCritical(
+        `The Anki export data could not be read. ${error instanceof Error ? error.message : String(error)}.`,
+      );
+      return collector.createFailureResult<AnkiPackage>();
+    }
+
+    return AnkiPackage.readAnkiExport(
+      { data: buffer, format: options?.format },
+      options?.storage,
+      collector,
+    );
+  }
+
+  /**
+   * Reads an Anki package from a stream, e.g. a request body or a download.
+   *
+   * The stream is consumed completely before the package is opened, because
+   * the ZIP directory is stored at the end of the file.
+   * @param stream - A Node.js `Readable`, a web `ReadableStream` or any other async iterable of bytes
+   * @param options - Conversion options and the kind of package, if known
+   * @returns The loaded package
+   */
+  public static async fromAnkiExportStream(
+    stream: AsyncIterable<Uint8Array>,
+    options?: AnkiExportReadOptions,
+  ): Promise<ConversionResult<AnkiPackage>> {
+    const collector = new IssueCollector({
+      errorHandling: options?.errorHandling ?? "best-effort",
+    });
+
+    const chunks: Uint8Array[] = [];
+    try {
+      for await (const chunk of readChunks(stream)) {
+        chunks.push(chunk);
+      }
+    } catch (error) {
+      collector.addCritical(
+        `The Anki export could not be read from the stream. ${error instanceof Error ? error.message : String(error)}. Please try the upload or download again.`,
+      );
+      return collector.createFailureResult<AnkiPackage>();
+    }
+
+    return AnkiPackage.readAnkiExport(
+      { data: concatChunks(chunks), format: options?.format },
+      options?.storage,
+      collector,
+    );
+  }
+
+  /**
+   * Reads the collection of an Anki profile directly, e.g. for backups
+   * without exporting from Anki.
+   *
+   * The media mapping is built from the files in the media folder, which are
+   * read on demand, so the folder must not be changed while the package is in
+   * use. The package is a collection package (`colpkg`). Anki should be closed
+   * while the collection is read, changes it has not written to the
+   * collection file yet are missing otherwise.
+   * @param filepath - The path of the collection file, usually `collection.anki2`
+   * @param options - Conversion options and the media folder, if it is somewhere else
+   * @returns The loaded package
+   */
+  public static async fromAnkiCollection(
+    filepath: string,
+    options?: AnkiCollectionReadOptions,
+  ): Promise<ConversionResult<AnkiPackage>> {
+    const collector = new IssueCollector({
+      errorHandling: options?.errorHandling ?? "best-effort",
+    });
+
+    try {
+      const instance = new AnkiPackage(await createStorage(options?.storage));
+      instance.format = "colpkg";
 
       try {
-        if (!VALID_FILE_EXTENSIONS.some((ext) => filepath.endsWith(ext))) {
+        const dbFileName = getFileName(filepath);
+        if ((await getLocalFileSize(filepath)) === undefined) {
           collector.addCritical(
-            `Invalid file extension. Expected one of: ${VALID_FILE_EXTENSIONS.join(", ")}.`,
+            `The collection file '${filepath}' does not exist. Please check the path of the Anki profile.`,
+          );
+          const cleanupIssues = await removeStorage(instance.storage);
+          collector.addIssues(cleanupIssues);
+          return collector.createFailureResult<AnkiPackage>();
+        }
+
+        // Anki writes changes to the write-ahead log first and moves them to the collection file later
+        const walSize = await getLocalFileSize(`${filepath}-wal`);
+        if (walSize !== undefined && walSize > 0) {
+          collector.addWarning(
+            `The collection has changes in '${dbFileName}-wal' that are not written to ${dbFileName} yet. They are missing from the package. Please close Anki before reading its collection.`,
           );
+        }
+
+        const chunks: Uint8Array[] = [];
+        for await (const chunk of readLocalFile(filepath)) {
+          chunks.push(chunk);
+        }
+        const rawDump = await readCollectionDatabase(concatChunks(chunks), dbFileName, collector);
+        if (rawDump === undefined) {
+          const cleanupIssues = await removeStorage(instance.storage);
+          collector.addIssues(cleanupIssues);
           return collector.createFailureResult<AnkiPackage>();
         }
 
+        // Collections last opened by Anki 2.0 have not been upgraded yet
+        const isLegacyV1 =
+          rawDump.collection.ver === AnkiDatabase.LEGACY_SCHEMA_VERSION &&
+          (rawDump.collection.conf.schedVer ?? 1) === 1;
+        instance.databaseContents = filterValidDatabaseItems(
+          isLegacyV1 ? upgradeLegacyV1Collection(rawDump) : rawDump,
+          collector,
+        );
+
+        // The media folder has no mapping, every file gets the next media ID
+        const mediaFolder = options?.mediaFolder ?? getMediaFolderPath(filepath);
+        const mediaFolderFiles = await listLocalFiles(mediaFolder);
+        if (mediaFolderFiles === undefined) {
+          collector.addWarning(
+            `The media folder '${mediaFolder}' does not exist. The package contains no media files.`,
+            { itemType: "media", originalData: { mediaFolder } },
+          );
+        } else {
+          for (const [index, file] of mediaFolderFiles.entries()) {
+            instance.mediaFiles[index] = file.name;
+            instance.externalMediaFiles.set(index.toFixed(0), { path: file.path, size: file.size });
+          }
+        }
+
+        return collector.createResult(instance);
+      } catch (error) {
+        collector.addCritical(
+          `The Anki collection file could not be read. ${error instanceof Error ? error.message : String(error)}.`,
+        );
+
+        const cleanupIssues = await removeStorage(instance.storage);
+        collector.addIssues(cleanupIssues);
+        return collector.createFailureResult<AnkiPackage>();
+      }
+    } catch (error) {
+      collector.addCritical(
+        `Conversion could not be started due to an unexpected error. ${error instanceof Error ? error.message : String(error)}.`,
+      );
+      return collector.createFailureResult<AnkiPackage>();
+    }
+  }
+
+  /**
+   * Reads and validates an Anki package from a file or from memory.
+   * @param source - The file path or the package contents
+   * @param storageBackend - Where to keep the files of the package
+   * @param collector - Collects the issues found while reading
+   * @returns The loaded package
+   */
+  private static async readAnkiExport(
+    source: AnkiExportSource,
+    storageBackend: StorageBackend | undefined,
+    collector: IssueCollector,
+  ): Promise<ConversionResult<AnkiPackage>> {
+    try {
+      const instance = new AnkiPackage(await createStorage(storageBackend));
+      instance.format = source.format ?? "apkg";
+
+      // The source stays open if media files are read from the archive later on
+      let zipSource: ZipSource | undefined;
+      let keepSourceOpen = false;
+      try {
         // Check file properties before attempting to unzip
-        const fileStats = await stat(filepath);
-        if (fileStats.size === 0) {
+        zipSource = "path" in source ? await openLocalFile(source.path) : bufferSource(source.data);
+        if (zipSource.size === 0) {
           collector.addCritical(
             "The file is empty (0 bytes). This may indicate a failed download or file transfer. Please re-export your deck from Anki.",
           );
-          const cleanupIssues = await removeDirectory(instance.tempDir);
+          const cleanupIssues = await removeStorage(instance.storage);
           collector.addIssues(cleanupIssues);
           return collector.createFailureResult<AnkiPackage>();
         }
 
         // Read first 4 bytes to check for ZIP magic number
-        const fileHandle = await readFile(filepath);
+        const magicBytes = await zipSource.read(0, 4);
         const hasZipMagic =
-          fileHandle.length >= 4 &&
-          fileHandle[0] === 0x50 && // P
-          fileHandle[1] === 0x4b && // K
-          (fileHandle[2] === 0x03 || fileHandle[2] === 0x05) && // 0x03 for local file, 0x05 for empty archive
-          (fileHandle[3] === 0x04 || fileHandle[3] === 0x06); // 0x04 for local file, 0x06 for empty archive
-
-        // Unzip the Anki export file to the temp dir
-        // TODO: Use zip.js for cross platform compatibility
-        // https://github.com/gildas-lormeau/zip.js
-        let directory: CentralDirectory;
+          magicBytes.length >= 4 &&
+          magicBytes[0] === 0x50 && // P
+          magicBytes[1] === 0x4b && // K
+          (magicBytes[2] === 0x03 || magicBytes[2] === 0x05) && // 0x03 for local file, 0x05 for empty archive
+          (magicBytes[3] === 0x04 || magicBytes[3] === 0x06); // 0x04 for local file, 0x06 for empty archive
+
+        // Open the Anki export file, this only reads the list of files
+        let archive: ZipReader;
         try {
-          directory = await Open.file(filepath);
+          archive = await ZipReader.open(zipSource);
         } catch (error) {
-          if (error instanceof Error && error.message.includes("FILE_ENDED")) {
+          if (error instanceof ZipError && error.type !== "unsupported") {
             if (hasZipMagic) {
               collector.addCritical(
                 "The ZIP archive is truncated or corrupted. This typically happens when a download was interrupted. Please re-download or re-export your deck from Anki.",
               );
             } else {
               collector.addCritical(
-                "The file is not a valid ZIP archive. Anki packages (.apkg/.colpkg) must be ZIP files. Please ensure you're using a file exported from Anki.",
+                `The file is not a valid ZIP archive. Anki packages (${source.format === undefined ? ".apkg/.colpkg" : `.${source.format}`}) must be ZIP files. Please ensure you're using a file exported from Anki.`,
               );
             }
           } else {
@@ -521,52 +1357,59 @@ export class AnkiPackage {
               `Failed to open the ZIP archive: ${error instanceof Error ? error.message : String(error)}. Please ensure the file is a valid Anki export.`,
             );
           }
-          const cleanupIssues = await removeDirectory(instance.tempDir);
+          const cleanupIssues = await removeStorage(instance.storage);
           collector.addIssues(cleanupIssues);
           return collector.createFailureResult<AnkiPackage>();
         }
-        await directory.extract({ path: instance.tempDir });
 
-        // Define paths for required files
-        const metaFilePath = join(instance.tempDir, "meta");
-        const mediaFilePath = join(instance.tempDir, "media");
-        const dbFilePath = join(instance.tempDir, "collection.anki21");
+        // Only copy the package metadata and the collection to the storage. Media files
+        // make up most of large decks, they stay in the archive and are read on demand.
+        for (const name of ["meta", "media", ...Object.values(COLLECTION_FILE_NAMES)]) {
+          const entry = archive.getEntry(name);
+          if (entry) {
+            await instance.storage.writeFile(name, archive.stream(entry));
+          }
+        }
 
-        // Step 1: Check for meta file (required for all Anki exports)
-        const metaExists = await stat(metaFilePath)
-          .then(() => true)
-          .catch(() => false);
+        // Step 1: Check for meta file (missing in packages exported before Anki 2.1.50)
+        const metaExists = await instance.storage.exists("meta");
 
-        if (!metaExists) {
-          collector.addCritical(
-            "The Anki package is missing the 'meta' file which contains version information. This file is required for all Anki exports. Please re-export your deck from Anki.",
-          );
-          const cleanupIssues = await removeDirectory(instance.tempDir);
-          collector.addIssues(cleanupIssues);
-          return collector.createFailureResult<AnkiPackage>();
-        }
+        let exportVersion: ExportVersion;
+        if (metaExists) {
+          // Step 2: Read and validate version before checking other files
+          const metaFileContent = await instance.storage.readFile("meta");
+          const meta = parseMeta(metaFileContent);
 
-        // Step 2: Read and validate version before checking other files
-        const metaFileContent = await readFile(metaFilePath);
-        const meta = parseMeta(metaFileContent);
+          if (!SUPPORTED_EXPORT_VERSIONS.some((version) => version.valueOf() === meta.version)) {
+            collector.addCritical(
+              `Unsupported Anki export package version: ${meta.version.toFixed(0)}. Please export your deck again with a current version of Anki.`,
+            );
+            const cleanupIssues = await removeStorage(instance.storage);
+            collector.addIssues(cleanupIssues);
+            return collector.createFailureResult<AnkiPackage>();
+          }
 
-        if (meta.version !== EXPORT_VERSION.valueOf()) {
-          collector.addCritical(
-            `Unsupported Anki export package version: ${meta.version.toFixed(0)}. Make sure to check "Support older Anki versions" in the Anki export dialog.`,
-          );
-          const cleanupIssues = await removeDirectory(instance.tempDir);
-          collector.addIssues(cleanupIssues);
-          return collector.createFailureResult<AnkiPackage>();
+          exportVersion = meta.version as ExportVersion;
+        } else {
+          // Step 2: Without meta, the version is given by the collection file that is present
+          const detectedVersion = await detectLegacyExportVersion(instance.storage);
+          if (detectedVersion === undefined) {
+            collector.addCritical(
+              "The Anki package is missing the 'meta' file which contains version information. This file is required for all Anki exports. Please re-export your deck from Anki.",
+            );
+            const cleanupIssues = await removeStorage(instance.storage);
+            collector.addIssues(cleanupIssues);
+            return collector.createFailureResult<AnkiPackage>();
+          }
+          exportVersion = detectedVersion;
         }
 
+        const dbFileName = COLLECTION_FILE_NAMES[exportVersion];
+
         // Step 3: Check for remaining required files (version-specific)
         const [mediaExists, dbExists] = await Promise.all([
-          stat(mediaFilePath)
-            .then(() => true)
-            .catch(() => false),
-          stat(dbFilePath)
-            .then(() => true)
-            .catch(() => false),
+          instance.storage.exists("media"),
+          instance.storage.exists(dbFileName),
         ]);
 
         const missingFiles: string[] = [];
@@ -579,153 +1422,145 @@ export class AnkiPackage {
         }
 
         if (!dbExists) {
-          missingFiles.push("collection.anki21");
+          missingFiles.push(dbFileName);
           collector.addCritical(
-            "The Anki package is missing the 'collection.anki21' database file. This file contains all your cards and decks. Please re-export your deck from Anki.",
+            `The Anki package is missing the '${dbFileName}' database file. This file contains all your cards and decks. Please re-export your deck from Anki.`,
           );
         }
 
         if (missingFiles.length > 0) {
-          const cleanupIssues = await removeDirectory(instance.tempDir);
+          const cleanupIssues = await removeStorage(instance.storage);
           collector.addIssues(cleanupIssues);
           return collector.createFailureResult<AnkiPackage>();
         }
 
-        // Read and parse the media mapping file with validation
-        const mediaFileContent = await readFile(mediaFilePath);
-        const mediaFileString = mediaFileContent.toString().trim();
-
-        // Handle empty media file (valid case - no media)
-        if (mediaFileString === "") {
-          instance.mediaFiles = {};
-        } else {
-          // Parse JSON with error handling
-          let parsedMedia: unknown;
+        if (exportVersion === ExportVersion.Latest) {
+          // The latest format stores the media mapping as zstd compressed protobuf
+          let mediaEntries: MediaEntriesMessage;
           try {
-            parsedMedia = JSON.parse(mediaFileString);
+            mediaEntries = parseMediaEntries(
+              decompressZstd(await instance.storage.readFile("media")),
+            );
           } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             collector.addCritical(
-              `The media mapping file contains invalid JSON and cannot be parsed: ${errorMessage}. Please re-export your deck from Anki.`,
+              `The media mapping file could not be decoded: ${errorMessage}. Please re-export your deck from Anki.`,
             );
-            const cleanupIssues = await removeDirectory(instance.tempDir);
+            const cleanupIssues = await removeStorage(instance.storage);
             collector.addIssues(cleanupIssues);
             return collector.createFailureResult<AnkiPackage>();
           }
 
-          // Validate structure: must be a non-null object (not array)
-          if (
-            parsedMedia === null ||
-            typeof parsedMedia !== "object" ||
-            Array.isArray(parsedMedia)
-          ) {
-            const actualType = Array.isArray(parsedMedia)
-              ? "array"
-              : parsedMedia === null
-                ? "null"
-                : typeof parsedMedia;
-            collector.addCritical(
-              `The media mapping file has an invalid structure. Expected an object mapping media IDs to filenames, but found ${actualType}. Please re-export your deck from Anki.`,
-            );
-            const cleanupIssues = await removeDirectory(instance.tempDir);
-            collector.addIssues(cleanupIssues);
-            return collector.createFailureResult<AnkiPackage>();
+          instance.mediaFiles = Object.fromEntries(
+            mediaEntries.entries.map((entry, index) => [index, entry.name]),
+          );
+
+          // Media files are zstd compressed individually, the mapping has their real size
+          for (const [index, mediaEntry] of mediaEntries.entries.entries()) {
+            const entry = archive.getEntry(index.toFixed(0));
+            if (entry) {
+              instance.externalMediaFiles.set(index.toFixed(0), {
+                archive,
+                entry,
+                size: mediaEntry.size,
+                zstdCompressed: true,
+              });
+            }
           }
+        } else {
+          // Read and parse the media mapping file with validation
+          const mediaFileContent = await instance.storage.readFile("media");
+          const mediaFileString = new TextDecoder().decode(mediaFileContent).trim();
 
-          // Validate that all values are strings (filenames)
-          const mediaRecord = parsedMedia as Record<string, unknown>;
-          for (const [key, value] of Object.entries(mediaRecord)) {
-            if (typeof value !== "string") {
-              const actualType = value === null ? "null" : typeof value;
+          // Handle empty media file (valid case - no media)
+          if (mediaFileString === "") {
+            instance.mediaFiles = {};
+          } else {
+            // Parse JSON with error handling
+            let parsedMedia: unknown;
+            try {
+              parsedMedia = JSON.parse(mediaFileString);
+            } catch (error) {
+              const errorMessage = error instanceof Error ? error.message : String(error);
               collector.addCritical(
-                `The media mapping file contains an invalid entry: key '${key}' has a ${actualType} value instead of a filename string. Please re-export your deck from Anki.`,
+                `The media mapping file contains invalid JSON and cannot be parsed: ${errorMessage}. Please re-export your deck from Anki.`,
               );
-              const cleanupIssues = await removeDirectory(instance.tempDir);
+              const cleanupIssues = await removeStorage(instance.storage);
               collector.addIssues(cleanupIssues);
               return collector.createFailureResult<AnkiPackage>();
             }
-          }
 
-          instance.mediaFiles = parsedMedia as MediaFileMapping;
-        }
+            // Validate structure: must be a non-null object (not array)
+            if (
+              parsedMedia === null ||
+              typeof parsedMedia !== "object" ||
+              Array.isArray(parsedMedia)
+            ) {
+              const actualType = Array.isArray(parsedMedia)
+                ? "array"
+                : parsedMedia === null
+                  ? "null"
+                  : typeof parsedMedia;
+              collector.addCritical(
+                `The media mapping file has an invalid structure. Expected an object mapping media IDs to filenames, but found ${actualType}. Please re-export your deck from Anki.`,
+              );
+              const cleanupIssues = await removeStorage(instance.storage);
+              collector.addIssues(cleanupIssues);
+              return collector.createFailureResult<AnkiPackage>();
+            }
 
-        // Open the collection.anki21 file as the database
-        try {
-          db = await AnkiDatabase.fromBuffer(await readFile(dbFilePath));
-        } catch (error) {
-          if (error instanceof AnkiDatabaseError) {
-            let userMessage: string;
-            switch (error.type) {
-              case "empty": {
-                userMessage =
-                  "The collection.anki21 database file is empty (0 bytes). This may indicate an incomplete export or file corruption. Please re-export your deck from Anki.";
-                break;
-              }
-              case "truncated": {
-                userMessage =
-                  "The collection.anki21 database file is truncated and too small to be valid. This may indicate an interrupted download or corrupted export. Please re-export your deck from Anki.";
-                break;
-              }
-              case "invalid_header": {
-                userMessage =
-                  "The collection.anki21 file is not a valid SQLite database. The file may have been corrupted or replaced with non-database content. Please re-export your deck from Anki.";
-                break;
-              }
-              case "corrupted": {
-                userMessage = `The collection.anki21 database is corrupted and cannot be opened. ${error.message} Please try re-exporting your deck from Anki, or check if your Anki installation is working correctly.`;
-                break;
-              }
-              default: {
-                userMessage = `Database error: ${error.message}`;
+            // Validate that all values are strings (filenames)
+            const mediaRecord = parsedMedia as Record<string, unknown>;
+            for (const [key, value] of Object.entries(mediaRecord)) {
+              if (typeof value !== "string") {
+                const actualType = value === null ? "null" : typeof value;
+                collector.addCritical(
+                  `The media mapping file contains an invalid entry: key '${key}' has a ${actualType} value instead of a filename string. Please re-export your deck from Anki.`,
+                );
+                const cleanupIssues = await removeStorage(instance.storage);
+                collector.addIssues(cleanupIssues);
+                return collector.createFailureResult<AnkiPackage>();
               }
             }
-            collector.addCritical(userMessage);
-            const cleanupIssues = await removeDirectory(instance.tempDir);
-            collector.addIssues(cleanupIssues);
-            return collector.createFailureResult<AnkiPackage>();
+
+            instance.mediaFiles = parsedMedia as MediaFileMapping;
           }
-          throw error; // Re-throw non-AnkiDatabaseError errors
-        }
 
-        // Validate the database schema has all required tables
-        try {
-          db.validateSchema();
-        } catch (error) {
-          if (error instanceof AnkiDatabaseError) {
-            const missingTables = error.missingTables
-              ? error.missingTables.map((t) => `'${t}'`).join(", ")
-              : "unknown tables";
-            collector.addCritical(
-              `The collection.anki21 database is missing required tables: ${missingTables}. This may indicate a corrupted database or an incompatible Anki version. Please re-export your deck from Anki.`,
-            );
-            const cleanupIssues = await removeDirectory(instance.tempDir);
-            collector.addIssues(cleanupIssues);
-            return collector.createFailureResult<AnkiPackage>();
+          for (const mediaId of Object.keys(instance.mediaFiles)) {
+            const entry = archive.getEntry(mediaId);
+            if (entry) {
+              instance.externalMediaFiles.set(mediaId, {
+                archive,
+                entry,
+                size: entry.uncompressedSize,
+                zstdCompressed: false,
+              });
+            }
           }
-          throw error; // Re-throw non-AnkiDatabaseError errors
         }
 
-        // Read the contents of the database and validate
-        const rawDump = await db.toObject();
-        instance.databaseContents = filterValidDatabaseItems(rawDump, collector);
-
-        if (instance.databaseContents.collection.ver !== DB_VERSION) {
-          collector.addCritical(
-            `This Anki file uses database version ${instance.databaseContents.collection.ver.toFixed(0)}, which is not supported. Please export your deck from a compatible Anki version.`,
-          );
-          const cleanupIssues = await removeDirectory(instance.tempDir);
+        // Open the collection file as the database (zstd compressed in the latest format)
+        const dbFileContent = await instance.storage.readFile(dbFileName);
+        const rawDump = await readCollectionDatabase(
+          exportVersion === ExportVersion.Latest && isZstdCompressed(dbFileContent)
+            ? decompressZstd(dbFileContent)
+            : dbFileContent,
+          dbFileName,
+          collector,
+        );
+        if (rawDump === undefined) {
+          const cleanupIssues = await removeStorage(instance.storage);
           collector.addIssues(cleanupIssues);
           return collector.createFailureResult<AnkiPackage>();
         }
+        instance.databaseContents = filterValidDatabaseItems(
+          exportVersion === ExportVersion.Legacy_V1 ? upgradeLegacyV1Collection(rawDump) : rawDump,
+          collector,
+        );
 
         // Validate media file existence
         for (const [mediaId, filename] of Object.entries(instance.mediaFiles)) {
-          const mediaPath = join(instance.tempDir, mediaId);
-          const mediaFileExists = await stat(mediaPath)
-            .then(() => true)
-            .catch(() => false);
-
-          if (!mediaFileExists) {
+          if (!instance.externalMediaFiles.has(mediaId)) {
             collector.addWarning(
               `Media file '${filename}' (ID: ${mediaId}) is listed in the media mapping but not found in the package. References to this file may be broken.`,
               { itemType: "media", originalData: { filename, mediaId } },
@@ -733,6 +1568,10 @@ export class AnkiPackage {
           }
         }
 
+        if (instance.externalMediaFiles.size > 0) {
+          instance.archive = archive;
+          keepSourceOpen = true;
+        }
         return collector.createResult(instance);
       } catch (error) {
         // Handle any remaining errors (non-ZIP related errors like file reading issues)
@@ -740,11 +1579,13 @@ export class AnkiPackage {
           `The Anki export file could not be read. ${error instanceof Error ? error.message : String(error)}.`,
         );
 
-        const cleanupIssues = await removeDirectory(instance.tempDir);
+        const cleanupIssues = await removeStorage(instance.storage);
         collector.addIssues(cleanupIssues);
         return collector.createFailureResult<AnkiPackage>();
       } finally {
-        await db?.close();
+        if (!keepSourceOpen) {
+          await zipSource?.close?.();
+        }
       }
     } catch (error) {
       collector.addCritical(
@@ -756,9 +1597,11 @@ export class AnkiPackage {
 
   public static async fromSrsPackage(
     srsPackage: SrsPackage,
-    options?: ConversionOptions,
+    options?: AnkiSrsConversionOptions,
   ): Promise<ConversionResult<AnkiPackage>> {
-    const collector = new IssueCollector(options);
+    const collector = new IssueCollector({
+      errorHandling: options?.errorHandling ?? "best-effort",
+    });
 
     // Start with a new empty AnkiPackage
     const result = await AnkiPackage.fromDefault(options);
@@ -771,63 +1614,148 @@ export class AnkiPackage {
 
     const ankiPackage = result.data;
 
-    // Remove the default deck
-    ankiPackage.removeDeck(defaultDeck.id);
-
     // Compress the SRS package first to ensure it has no unused entities
     srsPackage.removeUnused();
 
-    // Convert decks
+    // Convert decks, the default deck is only kept for packages without decks like in fromDefault()
     const decks = srsPackage.getDecks();
+    if (decks.length > 0) {
+      ankiPackage.removeDeck(defaultDeck.id);
+    }
 
-    if (decks.length !== 1) {
-      const deckNames = decks.map((deck) => `'${deck.name}'`).join(", ");
-      collector.addCritical(
-        `The package must contain exactly one deck, but found ${decks.length.toFixed(0)} decks: ${deckNames}.`,
-        { itemType: "deck" },
+    // Convert deck presets, decks without a preset use the default deck configuration
+    const usedDeckConfigIDs = new Set<number>();
+    const deckConfigIDs = new Map<string, number>();
+    for (const preset of sortByAnkiId(srsPackage.getDeckPresets())) {
+      let deckConfigID = resolveAnkiId(
+        preset.applicationSpecificData,
+        extractTimestampFromUuid(preset.id),
       );
-      return collector.createFailureResult<AnkiPackage>();
+
+      // Keep incrementing until we find an unused ID
+      while (usedDeckConfigIDs.has(deckConfigID)) {
+        deckConfigID++;
+      }
+
+      // Presets converted from Anki keep all their options, the options of the universal format take precedence
+      const storedDeckConfig = parseAnkiData(
+        preset.applicationSpecificData?.["ankiDeckConfigData"],
+      );
+      const validation = validateDeckConfig(deckConfigID.toFixed(0), {
+        ...defaultDeckConfig,
+        ...storedDeckConfig,
+        ...withoutUndefined({ desiredRetention: preset.desiredRetention }),
+        id: deckConfigID,
+        lapse: {
+          ...defaultDeckConfig.lapse,
+          ...asObject(storedDeckConfig["lapse"]),
+          ...withoutUndefined({ delays: preset.relearningSteps }),
+        },
+        name: preset.name,
+        new: {
+          ...defaultDeckConfig.new,
+          ...asObject(storedDeckConfig["new"]),
+          ...withoutUndefined({ delays: preset.learningSteps, perDay: preset.newCardsPerDay }),
+        },
+        rev: {
+          ...defaultDeckConfig.rev,
+          ...asObject(storedDeckConfig["rev"]),
+          ...withoutUndefined({ maxIvl: preset.maximumInterval, perDay: preset.reviewsPerDay }),
+        },
+      });
+      if (!validation.valid) {
+        collector.addError(
+          `Cannot convert deck preset '${preset.name}': ${validation.error}. Its decks will use the default options.`,
+          { originalData: preset },
+        );
+        continue;
+      }
+      for (const warning of validation.warnings) {
+        collector.addWarning(warning, { originalData: preset });
+      }
+
+      usedDeckConfigIDs.add(deckConfigID);
+      deckConfigIDs.set(preset.id, deckConfigID);
+      ankiPackage.addDeckConfig(validation.value);
     }
 
-    const deckIDs = new Map<string, number>();
-    for (const deck of decks) {
-      let deckID = resolveAnkiId(deck.applicationSpecificData, extractTimestampFromUuid(deck.id));
+    const usedDeckIDs = new Set<number>();
+    const deckNames = new Set<string>();
+    const addAnkiDeck = (baseId: number, name: string, deck?: SrsDeck): number => {
+      let deckID = baseId;
 
       // Keep incrementing until we find an unused ID
-      while ([...deckIDs.values()].includes(deckID)) {
+      while (usedDeckIDs.has(deckID)) {
         deckID++;
       }
 
-      deckIDs.set(deck.id, deckID);
+      usedDeckIDs.add(deckID);
+      deckNames.add(name);
 
       const ankiDecks: Deck = {
         id: deckID,
         mod: 0,
-        name: deck.name,
+        name,
         usn: 0,
         lrnToday: [0, 0],
         revToday: [0, 0],
         newToday: [0, 0],
         timeToday: [0, 0],
-        collapsed: true,
-        browserCollapsed: true,
-        desc: deck.description ?? "",
+        ...getCollapsedDeckState(deck?.applicationSpecificData),
+        desc: deck?.description ?? "",
         dyn: DeckDynamicity.STATIC,
-        conf: 1, // This refers to deck configuration 1, which is the default in Anki
+        // Deck configuration 1 is the default in Anki
+        conf: deckConfigIDs.get(deck?.presetId ?? "") ?? 1,
         extendNew: 0,
         extendRev: 0,
-        reviewLimit: null,
-        newLimit: null,
+        reviewLimit: deck?.reviewsPerDay ?? null,
+        newLimit: deck?.newCardsPerDay ?? null,
         reviewLimitToday: null,
         newLimitToday: null,
       };
       ankiPackage.addDeck(ankiDecks);
+      return deckID;
+    };
+
+    // Anki stores the hierarchy in the deck names, e.g. `Japanese::N5::Verbs`
+    const deckIDs = new Map<string, number>();
+    const fullDeckNames = new Map<number, string>();
+    for (const deck of sortByAnkiId(decks)) {
+      const name = srsPackage
+        .getDeckPath(deck.id)
+        .map((pathDeck) => pathDeck.name)
+        .join(DECK_HIERARCHY_SEPARATOR);
+      const deckID = addAnkiDeck(
+        resolveAnkiId(deck.applicationSpecificData, extractTimestampFromUuid(deck.id)),
+        name,
+        deck,
+      );
+      deckIDs.set(deck.id, deckID);
+      fullDeckNames.set(deckID, name);
+    }
+
+    // Anki requires the parent decks of all subdecks, e.g. if names already contain the separator
+    for (const [deckID, name] of fullDeckNames) {
+      let { parentName } = splitDeckName(name);
+      while (parentName !== undefined && !deckNames.has(parentName)) {
+        addAnkiDeck(deckID, parentName);
+        ({ parentName } = splitDeckName(parentName));
+      }
+    }
+
+    // Note types remember the deck their first note is in, Anki uses it as the deck for new notes
+    const noteTypeDeckIDs = new Map<string, number>();
+    for (const note of srsPackage.getNotes()) {
+      const deckID = deckIDs.get(note.deckId);
+      if (deckID !== undefined && !noteTypeDeckIDs.has(note.noteTypeId)) {
+        noteTypeDeckIDs.set(note.noteTypeId, deckID);
+      }
     }
 
     // Convert note types
     const noteTypes = srsPackage.getNoteTypes();
     const noteTypeIDs = new Map<string, number>();
-    for (const noteType of noteTypes) {
+    for (const noteType of sortByAnkiId(noteTypes)) {
       let noteTypeId = resolveAnkiId(
         noteType.applicationSpecificData,
         extractTimestampFromUuid(noteType.id),
@@ -838,8 +1766,6 @@ export class AnkiPackage {
         noteTypeId++;
       }
 
-      noteTypeIDs.set(noteType.id, noteTypeId);
-
       // Detect if this is a cloze note type by checking template content
       // TODO: This is very Anki-style, we might want to find a cleaner way to
       // do this.
@@ -849,55 +1775,83 @@ export class AnkiPackage {
           template.answerTemplate.includes("{{cloze:"),
       );
 
-      const ankiNoteType: NoteType = {
-        id: noteTypeId,
-        name: noteType.name,
+      // Note types converted from Anki keep all their properties, e.g. the styling and the field options
+      const storedNoteType = parseAnkiData(noteType.applicationSpecificData?.["ankiNoteTypeData"], [
+        "flds[].id",
+        "tmpls[].id",
+      ]);
+      const storedFields: unknown[] = Array.isArray(storedNoteType["flds"])
+        ? storedNoteType["flds"]
+        : [];
+      const storedTemplates: unknown[] = Array.isArray(storedNoteType["tmpls"])
+        ? storedNoteType["tmpls"]
+        : [];
+
+      // The note types of the universal format become Anki stock note types, with fixed fields and templates
+      const stockNoteType = getAnkiStockNoteType(noteType.id);
+      const fields = stockNoteType
+        ? stockNoteType.flds.map((field) => ({
+            ...field,
+            ...asObject(storedFields[field.ord]),
+            ord: field.ord,
+          }))
+        : noteType.fields.map((field) => ({
+            ...defaultField,
+            id: BigInt(field.id),
+            ...asObject(storedFields[field.id]),
+            description: field.description ?? "",
+            name: field.name,
+            ord: field.id,
+          }));
+      const templates = stockNoteType
+        ? stockNoteType.tmpls.map((template) => ({
+            ...template,
+            ...asObject(storedTemplates[template.ord]),
+            ord: template.ord,
+          }))
+        : noteType.templates.map((template) => ({
+            ...defaultTemplate,
+            id: BigInt(template.id),
+            ...asObject(storedTemplates[template.id]),
+            afmt: template.answerTemplate, // TODO: Handle HTML/Markdown conversion if needed
+            name: template.name,
+            ord: template.id,
+            qfmt: template.questionTemplate, // TODO: Handle HTML/Markdown conversion if needed
+          }));
+
+      const validation = validateNoteType(noteTypeId.toFixed(0), {
+        ...defaultNoteType,
+        originalStockKind: OriginalStockKind.UNKNOWN,
         type: isClozeNoteType ? NoteTypeKind.CLOZE : NoteTypeKind.STANDARD,
-        mod: 0,
-        usn: 0,
-        sortf: 0, // Sort by the first field by default
-        did: deckIDs.values().next().value ?? null, // Use the first deck ID. null for type checker only
-        tmpls: noteType.templates.map((template) => ({
-          id: BigInt(template.id), // TODO: Not sure if this needs to be unique in Anki
-          name: template.name,
-          ord: template.id,
-          qfmt: template.questionTemplate, // TODO: Handle HTML/Markdown conversion if needed
-          afmt: template.answerTemplate, // TODO: Handle HTML/Markdown conversion if needed
-          bqfmt: "",
-          bafmt: "",
-          did: null,
-          bfont: "",
-          bsize: 0,
-        })),
-        flds: noteType.fields.map((field) => ({
-          id: BigInt(field.id), // TODO: Not sure if this needs to be unique in Anki
-          name: field.name,
-          ord: field.id,
-          sticky: false,
-          rtl: false,
-          font: "Arial",
-          size: 20,
-          description: field.description ?? "",
-          plainText: false,
-          collapsed: false,
-          excludeFromSearch: false,
-          tag: null,
-          preventDeletion: false,
-        })),
-        css: ".card {\n    font-family: arial;\n    font-size: 20px;\n    text-align: center;\n    color: black;\n    background-color: white;\n}\n",
-        latexPre:
-          "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
-        latexPost: "\\end{document}",
-        latexsvg: false,
-        req: [[0, "any", [0]]],
-        originalStockKind: 1,
-      };
-      ankiPackage.addNoteType(ankiNoteType);
+        ...stockNoteType,
+        ...storedNoteType,
+        // Stock note types keep the name they have in Anki
+        ...(stockNoteType ? {} : { name: noteType.name }),
+        did: noteTypeDeckIDs.get(noteType.id) ?? null,
+        flds: fields,
+        id: noteTypeId,
+        // Calculated like Anki does when saving, as the templates might have been changed
+        req: getTemplateRequirements(fields, templates),
+        tmpls: templates,
+      });
+      if (!validation.valid) {
+        collector.addError(
+          `Cannot convert note type '${noteType.name}': ${validation.error}. This note type will be skipped.`,
+          { itemType: "noteType", originalData: noteType },
+        );
+        continue;
+      }
+      for (const warning of validation.warnings) {
+        collector.addWarning(warning, { itemType: "noteType", originalData: noteType });
+      }
+
+      noteTypeIDs.set(noteType.id, noteTypeId);
+      ankiPackage.addNoteType(validation.value);
     }
 
     // Convert notes
     const noteIDs = new Map<string, number>();
-    for (const note of srsPackage.getNotes()) {
+    for (const note of sortByAnkiId(srsPackage.getNotes())) {
       let noteId = resolveAnkiId(note.applicationSpecificData, extractTimestampFromUuid(note.id));
 
       // Keep incrementing until we find an unused ID
@@ -917,16 +1871,20 @@ export class AnkiPackage {
         );
         continue;
       }
+      const fieldValues = note.fieldValues.map(([, value]) => value);
       const ankiNotes: NotesTable = {
         id: noteId,
-        guid: guid64(),
+        // Anki updates notes with the same GUID on import instead of adding duplicates
+        guid: note.applicationSpecificData?.["ankiGuid"] || guid64FromSeed(note.id),
         mid: noteTypeId,
         mod: 0,
         usn: 0,
         tags: "",
-        flds: joinAnkiFields(note.fieldValues.map(([, value]) => value)),
-        sfld: note.fieldValues[0]?.[1] ?? "", // Sort field defaults to the first field value
-        csum: 0, // TODO: Find out how Anki calculates this and do it that way as well. Not sure if needed or if Anki accepts notes without it.
+        flds: joinAnkiFields(fieldValues),
+        ...getSortFieldAndChecksum(
+          fieldValues,
+          ankiPackage.databaseContents?.collection.models[noteTypeId]?.sortf ?? 0,
+        ),
         flags: 0,
         data: note.applicationSpecificData?.["ankiData"] ?? "",
       };
@@ -938,7 +1896,7 @@ export class AnkiPackage {
 
     // Group cards by note to not generate duplicate cards
     // TODO: Clean this up
-    const cards = srsPackage.getCards();
+    const cards = sortByAnkiId(srsPackage.getCards());
     const cardsByNote = new Map<string, SrsCard[]>();
     for (const card of cards) {
       const noteCards = cardsByNote.get(card.noteId) ?? [];
@@ -946,7 +1904,21 @@ export class AnkiPackage {
       cardsByNote.set(card.noteId, noteCards);
     }
 
+    // Cards and reviews without preserved scheduling data get it from the review history
+    const reviewsByCard = new Map<string, SrsReview[]>();
+    const derivedReviewLogs = new Map<string, ReviewLogState>();
+    for (const review of srsPackage.getReviews()) {
+      const cardReviews = reviewsByCard.get(review.cardId) ?? [];
+      cardReviews.push(review);
+      reviewsByCard.set(review.cardId, cardReviews);
+    }
+    const collection = ankiPackage.databaseContents?.collection ?? ankiDefaultCollection;
+    let newPosition = 0;
+
     for (const [noteId, noteCards] of cardsByNote) {
+      // New cards of a note are shown together, in the order the notes were added
+      newPosition++;
+
       // Find the note for these cards
       const note = srsPackage.getNotes().find((n) => n.id === noteId);
       if (!note) {
@@ -973,7 +1945,7 @@ export class AnkiPackage {
         continue;
       }
 
-      // TODO: Should probably be ankiDeckId, see below
+      // The cards are placed in the deck of their note
       const deckId = deckIDs.get(note.deckId);
       if (!deckId) {
         for (const card of noteCards) {
@@ -988,13 +1960,6 @@ export class AnkiPackage {
         continue;
       }
 
-      // Find the corresponding Anki deck ID
-      const srsDeck = srsPackage.getDecks().find((d) => d.id === note.deckId);
-      // TODO: Check if this is needed and if so, if it needs to also be applied to the deck somewhere above
-      const ankiDeckId = srsDeck?.applicationSpecificData?.["originalAnkiId"]
-        ? Number(srsDeck.applicationSpecificData["originalAnkiId"])
-        : deckId; // fallback to timestamp-based ID
-
       // Find the note type for this note
       const noteType = srsPackage.getNoteTypes().find((nt) => nt.id === note.noteTypeId);
 
@@ -1049,21 +2014,23 @@ export class AnkiPackage {
 
         cardIDs.set(srsCard.id, cardId);
 
+        const deckConfig =
+          collection.dconf[collection.decks[deckId]?.conf ?? 1] ?? defaultDeckConfig;
+        const { cardState: derivedState, reviewLogs } = replayReviews(
+          reviewsByCard.get(srsCard.id) ?? [],
+          { collectionCreated: collection.crt, deckConfig, newPosition },
+        );
+        for (const [reviewId, reviewLog] of reviewLogs) {
+          derivedReviewLogs.set(reviewId, reviewLog);
+        }
         const ankiCard: CardsTable = {
           id: cardId,
           nid: ankiNoteId,
-          did: ankiDeckId,
+          did: deckId,
           ord, // Use the calculated ordinal
           mod: 0,
           usn: 0,
-          type: 0,
-          queue: 0,
-          due: 0,
-          ivl: 0,
-          factor: 0,
-          reps: 0,
-          lapses: 0,
-          left: 0,
+          ...restoreSchedulingState(srsCard.applicationSpecificData, derivedState, collection.crt),
           odue: 0,
           odid: 0,
           flags: 0,
@@ -1122,81 +2089,327 @@ export class AnkiPackage {
         review.timestamp, // Reviews use timestamp as fallback, not UUID extraction
       );
 
+      const derivedReviewLog = derivedReviewLogs.get(review.id) ?? {
+        factor: 0,
+        ivl: 0,
+        lastIvl: 0,
+        time: 0,
+        type: ReviewType.LEARNING,
+      };
       const ankiReviews: RevlogTable = {
         id: reviewId,
         cid: cardId,
         usn: 0,
         ease,
-        ivl: 0, // TODO: Find out how to fill this and "lastIvl", "factor" and "type"
-        lastIvl: 0,
-        factor: 0,
-        time: 0,
-        type: 0,
+        ...restoreReviewLog(review.applicationSpecificData, derivedReviewLog),
       };
       ankiPackage.addReview(ankiReviews);
     }
 
+    // Without the learning progress, the cards are new cards like the cards of shared decks
+    if (options?.includeScheduling === false && ankiPackage.databaseContents) {
+      ankiPackage.databaseContents = getContentsWithoutScheduling(ankiPackage.databaseContents);
+    }
+
     // Forward any issues from the initial result
     collector.addIssues(result.issues);
     return collector.createResult(ankiPackage);
   }
 
-  public async toAnkiExport(filepath: string): Promise<void> {
+  /**
+   * Writes the package to an `.apkg` or `.colpkg` file.
+   *
+   * Deck packages (`apkg`) only contain what belongs to the decks: the deck
+   * configurations they use, the tags of their notes and the reviews of
+   * their cards. Collection packages (`colpkg`) are full backups with all
+   * contents of the collection.
+   * @param filepath - Where to write the package
+   * @param options - The kind of package to write
+   */
+  public async toAnkiExport(filepath: string, options?: AnkiExportWriteOptions): Promise<void> {
+    if (!filepath || filepath.trim() === "") {
+      throw new Error("Export filepath cannot be empty");
+    }
+
+    const format = options?.format ?? getFormatFromPath(filepath) ?? this.format;
+    await writeLocalFile(
+      filepath,
+      this.writeAnkiExport(this.getExportContents(format, options), options),
+    );
+  }
+
+  /**
+   * Writes the package into memory, e.g. to send it in a response.
+   *
+   * Without a file name, the kind of package defaults to the kind of the
+   * package that was read.
+   * @param options - The kind of package to write
+   * @returns The contents of the `.apkg` or `.colpkg` file
+   */
+  public async toAnkiExportBuffer(options?: AnkiExportWriteOptions): Promise<Uint8Array> {
+    const contents = this.getExportContents(options?.format ?? this.format, options);
+    return await readAll(this.writeAnkiExport(contents, options));
+  }
+
+  /**
+   * Writes the package as a stream, e.g. into an HTTP response or an upload
+   * to object storage. The archive is written while the stream is read, so
+   * the package must not be changed or cleaned up before the stream ends.
+   *
+   * Without a file name, the kind of package defaults to the kind of the
+   * package that was read.
+   * @param options - The kind of package to write
+   * @returns A web ReadableStream of the `.apkg` or `.colpkg` file
+   */
+  public toAnkiExportStream(options?: AnkiExportWriteOptions): ReadableStream<Uint8Array> {
+    const contents = this.getExportContents(options?.format ?? this.format, options);
+    return toReadableStream(this.writeAnkiExport(contents, options));
+  }
+
+  /**
+   * Finds out what an export contains and what it leaves out, e.g. to show
+   * it before the package is exported.
+   * @param options - The kind of package and the part of the package to export
+   * @returns The summary of the export
+   * @throws {Error} if the database contents are not available
+   */
+  public getExportSummary(options?: AnkiExportWriteOptions): AnkiExportSummary {
+    const { contents, mediaFiles } = this.getExportContents(
+      options?.format ?? this.format,
+      options,
+    );
+    const allNotes = this.getNotes();
+    const exportedMediaFiles = new Set(mediaFiles.map(([, name]) => name));
+    const availableMediaFiles = new Set(Object.values(this.mediaFiles));
+
+    return {
+      cards: contents.cards.length,
+      decks: Object.keys(contents.collection.decks).length,
+      leftOut: {
+        cards: this.getCards().length - contents.cards.length,
+        mediaFiles: [...availableMediaFiles].filter((name) => !exportedMediaFiles.has(name)),
+        notes: allNotes.length - contents.notes.length,
+      },
+      mediaFiles: [...exportedMediaFiles],
+      missingMediaFiles: [...getUsedMediaFiles(contents, availableMediaFiles)].filter(
+        (name) => !availableMediaFiles.has(name),
+      ),
+      noteTypes: Object.keys(contents.collection.models).length,
+      notes: contents.notes.length,
+      reviews: contents.reviews.length,
+    };
+  }
+
+  /**
+   * Gets the contents of the collection and the media files that belong into
+   * a package. Packages of a part of the collection only contain the media
+   * files its notes and note types use.
+   * @param format - The kind of package
+   * @param options - The part of the package to export and whether to include the learning progress
+   * @returns The contents of the package
+   * @throws {Error} if the database contents are not available or a collection package is selected partly
+   */
+  private getExportContents(
+    format: AnkiExportFormat,
+    options?: AnkiExportWriteOptions,
+  ): AnkiExportContents {
     if (this.databaseContents === undefined) {
       throw new Error("Database contents not available");
     }
 
-    if (!filepath || filepath.trim() === "") {
-      throw new Error("Export filepath cannot be empty");
+    const withScheduling = (contents: DatabaseDump) =>
+      options?.includeScheduling === false ? getContentsWithoutScheduling(contents) : contents;
+    const mediaFiles = Object.entries(this.mediaFiles);
+    const selection = options?.selection;
+    if (selection === undefined) {
+      return {
+        contents: withScheduling(
+          format === "colpkg"
+            ? this.databaseContents
+            : getDeckPackageContents(this.databaseContents),
+        ),
+        mediaFiles,
+      };
     }
 
-    // Write the meta file
-    const meta = writeMeta({ version: EXPORT_VERSION.valueOf() });
-    await writeFile(join(this.tempDir, "meta"), meta);
+    if (format === "colpkg") {
+      throw new Error(
+        "Collection packages are full backups, export a deck package (apkg) to export a part of the collection.",
+      );
+    }
+    const contents = getDeckPackageContents(getSelectedContents(this.databaseContents, selection));
+    const usedMediaFiles = getUsedMediaFiles(
+      contents,
+      mediaFiles.map(([, name]) => name),
+    );
+    return {
+      contents: withScheduling(contents),
+      mediaFiles: mediaFiles.filter(([, name]) => usedMediaFiles.has(name)),
+    };
+  }
 
-    // Write the media file mapping
-    const media = JSON.stringify(this.mediaFiles, null, 2);
-    await writeFile(join(this.tempDir, "media"), media);
+  /**
+   * Writes the archive of a package.
+   * @param contents - The contents of the package
+   * @param options - The export format to write and whether it must be reproducible
+   * @yields The chunks of the archive
+   */
+  private async *writeAnkiExport(
+    { contents, mediaFiles }: AnkiExportContents,
+    options?: AnkiExportWriteOptions,
+  ): AsyncGenerator<Uint8Array> {
+    const deterministic = options?.deterministic ?? false;
+    if (deterministic) {
+      // Media files are numbered in the order they were added, their names do not depend on it
+      mediaFiles.sort(([, a], [, b]) => compareCodePoints(a, b));
+    }
 
-    // Write the database
-    const db = await AnkiDatabase.fromDump(this.databaseContents);
-    const dbBuffer = db.toBuffer();
-    await writeFile(join(this.tempDir, "collection.anki21"), dbBuffer);
+    const exportContents = deterministic ? getSortedContents(contents) : contents;
+    const entries =
+      (options?.version ?? DEFAULT_EXPORT_VERSION) === ExportVersion.Latest
+        ? await this.getLatestExportEntries(exportContents, mediaFiles)
+        : await this.getLegacyExportEntries(exportContents, mediaFiles);
+
+    yield* writeZip(
+      deterministic
+        ? entries.map((entry) => ({ ...entry, lastModified: DETERMINISTIC_EXPORT_DATE }))
+        : entries,
+    );
+  }
 
-    // Build list of files to include in zip
-    const filesToZip = [
+  /**
+   * Collects the files of a package in the legacy export format: the
+   * collection in schema v11 and the media mapping as JSON.
+   * @param contents - The contents of the collection
+   * @param mediaFiles - The IDs and names of the media files, in the order they are written
+   * @returns The files of the package
+   */
+  private async getLegacyExportEntries(
+    contents: DatabaseDump,
+    mediaFiles: [mediaId: string, name: string][],
+  ): Promise<ZipWriterEntry[]> {
+    const db = await AnkiDatabase.fromDump(contents);
+    const entries: ZipWriterEntry[] = [
       {
         compress: true,
-        path: join(this.tempDir, "collection.anki21"),
+        data: db.toBuffer(),
+        name: COLLECTION_FILE_NAMES[ExportVersion.Legacy_V2],
       },
       {
-        compress: false,
-        path: join(this.tempDir, "media"),
+        data: new TextEncoder().encode(
+          JSON.stringify(
+            Object.fromEntries(mediaFiles.map(([, name], index) => [index, name])),
+            null,
+            2,
+          ),
+        ),
+        name: "media",
       },
       {
-        compress: false,
-        path: join(this.tempDir, "meta"),
+        data: writeMeta({ version: ExportVersion.Legacy_V2.valueOf() }),
+        name: "meta",
       },
     ];
+    await db.close();
 
-    // Add all media files to the zip
-    for (const mediaId of Object.keys(this.mediaFiles)) {
-      filesToZip.push({
-        compress: false,
-        path: join(this.tempDir, mediaId),
+    // Add all media files named by their position, archived ones are copied from the original archive
+    for (const [index, [mediaId]] of mediaFiles.entries()) {
+      entries.push({
+        data: () => this.readMediaFile(mediaId),
+        name: index.toFixed(0),
       });
     }
 
-    await createSelectiveZip(filepath, filesToZip);
+    return entries;
+  }
+
+  /**
+   * Collects the files of a package in the latest export format: the
+   * collection in schema v18, the media mapping as protobuf and the media
+   * files, all compressed with zstd. Anki versions that cannot read the
+   * format import a legacy collection instead, which asks to update Anki.
+   * @param contents - The contents of the collection
+   * @param mediaFiles - The IDs and names of the media files, in the order they are written
+   * @returns The files of the package
+   */
+  private async getLatestExportEntries(
+    contents: DatabaseDump,
+    mediaFiles: [mediaId: string, name: string][],
+  ): Promise<ZipWriterEntry[]> {
+    const db = await AnkiDatabase.fromDump(contents, AnkiDatabase.LATEST_SCHEMA_VERSION);
+    const collection = compressZstd(db.toBuffer());
+    await db.close();
+    const legacyDb = await AnkiDatabase.fromDump(getUpdateRequiredContents());
+    const legacyCollection = legacyDb.toBuffer();
+    await legacyDb.close();
+
+    // The media mapping has the size and the hash of the files, so they are read before they are written
+    const mediaEntries: MediaEntryMessage[] = [];
+    for (const [mediaId, name] of mediaFiles) {
+      const data = await readAll(this.readMediaFile(mediaId));
+      mediaEntries.push({ name, sha1: sha1(data), size: data.length });
+    }
+
+    return [
+      { data: collection, name: COLLECTION_FILE_NAMES[ExportVersion.Latest] },
+      {
+        compress: true,
+        data: legacyCollection,
+        name: COLLECTION_FILE_NAMES[ExportVersion.Legacy_V1],
+      },
+      {
+        data: compressZstd(writeMediaEntries({ entries: mediaEntries })),
+        name: "media",
+      },
+      {
+        data: writeMeta({ version: ExportVersion.Latest.valueOf() }),
+        name: "meta",
+      },
+      // Media files are named by their position in the media mapping
+      ...mediaFiles.map(([mediaId], index) => ({
+        data: () => compressZstdStream(this.readMediaFile(mediaId)),
+        name: index.toFixed(0),
+      })),
+    ];
   }
 
   public async cleanup(): Promise<ConversionIssue[]> {
-    return await removeDirectory(this.tempDir);
+    this.externalMediaFiles.clear();
+    await this.archive?.close();
+    this.archive = undefined;
+    return await removeStorage(this.storage);
+  }
+
+  /**
+   * Reads a media file from the archive, the media folder or the storage.
+   * @param mediaId - The ID of the media file
+   * @returns The chunks of the media file
+   */
+  private readMediaFile(mediaId: string): AsyncIterable<Uint8Array> {
+    const external = this.externalMediaFiles.get(mediaId);
+    if (!external) {
+      return this.storage.readStream(mediaId);
+    }
+    if ("path" in external) {
+      return readLocalFile(external.path);
+    }
+
+    const stream = external.archive.stream(external.entry);
+    return external.zstdCompressed ? decompressZstdStream(stream) : stream;
+  }
+
+  /**
+   * The kind of package that was read. Packages that were not read from a
+   * file are deck packages.
+   * @returns The kind of package
+   */
+  public getFormat(): AnkiExportFormat {
+    return this.format;
   }
 
   toString(): string {
     let res = "AnkiPackage\n";
-    res += `Temp directory: ${this.tempDir}\n`;
+    res += `Temp directory: ${this.storage.location}\n`;
     res += `Media file mapping: ${JSON.stringify(this.mediaFiles, null, 2)}\n`;
     res += `Database contents: ${serializeWithBigInts(this.databaseContents, 2)}\n`;
     return res;
@@ -1209,11 +2422,52 @@ export class AnkiPackage {
     this.databaseContents.collection.decks[deck.id] = deck;
   }
 
+  public addDeckConfig(deckConfig: DeckConfig): void {
+    if (!this.databaseContents) {
+      throw new Error("Database contents not available");
+    }
+    this.databaseContents.collection.dconf[deckConfig.id] = deckConfig;
+  }
+
+  /**
+   * Adds a note. Its sort field and checksum are calculated from its fields
+   * and the sort field of its note type, so the note type should be added
+   * first.
+   * @param note - The note to add
+   */
   public addNote(note: NotesTable): void {
     if (!this.databaseContents) {
       throw new Error("Database contents not available");
     }
-    this.databaseContents.notes.push(note);
+    const sortFieldIndex = this.databaseContents.collection.models[note.mid]?.sortf ?? 0;
+    this.databaseContents.notes.push({
+      ...note,
+      ...getSortFieldAndChecksum(splitAnkiFields(note.flds), sortFieldIndex),
+    });
+  }
+
+  /**
+   * Recalculates the sort field and the checksum of all notes, e.g. after
+   * notes were added or changed with other tools or the sort field of a note
+   * type was changed.
+   * @returns The number of notes that were changed
+   */
+  public updateNoteChecksums(): number {
+    if (!this.databaseContents) {
+      throw new Error("Database contents not available");
+    }
+
+    let changedNotes = 0;
+    for (const note of this.databaseContents.notes) {
+      const sortFieldIndex = this.databaseContents.collection.models[note.mid]?.sortf ?? 0;
+      const { csum, sfld } = getSortFieldAndChecksum(splitAnkiFields(note.flds), sortFieldIndex);
+      if (note.csum !== csum || note.sfld !== sfld) {
+        note.csum = csum;
+        note.sfld = sfld;
+        changedNotes++;
+      }
+    }
+    return changedNotes;
   }
 
   public addCard(card: CardsTable): void {
@@ -1244,6 +2498,13 @@ export class AnkiPackage {
     return Object.values(this.databaseContents.collection.decks);
   }
 
+  public getDeckConfigs(): DeckConfig[] {
+    if (!this.databaseContents) {
+      throw new Error("Database contents not available");
+    }
+    return Object.values(this.databaseContents.collection.dconf);
+  }
+
   public getNotes(): NotesTable[] {
     if (!this.databaseContents) {
       throw new Error("Database contents not available");
@@ -1317,11 +2578,17 @@ export class AnkiPackage {
       throw new Error(`Media file '${filename}' not found in package`);
     }
 
-    const filePath = join(this.tempDir, mediaId);
+    const external = this.externalMediaFiles.get(mediaId);
+    if (external) {
+      return external.size;
+    }
 
     try {
-      const stats = await stat(filePath);
-      return stats.size;
+      const size = await this.storage.getSize(mediaId);
+      if (size === undefined) {
+        throw new Error(`The file is missing in ${this.storage.location}`);
+      }
+      return size;
     } catch (error) {
       throw new Error(
         `Failed to get size for media file '${filename}': ${error instanceof Error ? error.message : String(error)}`,
@@ -1332,10 +2599,11 @@ export class AnkiPackage {
   /**
    * Retrieves a media file as a ReadableStream for efficient streaming.
    * @param filename - The name of the media file to retrieve
-   * @returns A ReadableStream for the media file
+   * @returns A web ReadableStream for the media file, earlier versions returned a Node.js
+   * `Readable`, use `Readable.fromWeb()` of `node:stream` where one is still needed
    * @throws {Error} if the file is not found in the package
    */
-  public getMediaFile(filename: string): Readable {
+  public getMediaFile(filename: string): ReadableStream<Uint8Array> {
     // Find the media file ID from the filename
     const mediaId = Object.entries(this.mediaFiles).find(([, name]) => name === filename)?.[0];
 
@@ -1343,20 +2611,20 @@ export class AnkiPackage {
       throw new Error(`Media file '${filename}' not found in package`);
     }
 
-    const filePath = join(this.tempDir, mediaId);
-
-    // Always return a readable stream for consistency
-    return createReadStream(filePath);
+    return toReadableStream(this.readMediaFile(mediaId));
   }
 
   /**
    * Adds a media file to the package.
    * @param filename - The name for the media file (e.g., "image.jpg")
-   * @param source - The source of the media file (file path, Buffer, or Readable stream)
+   * @param source - The source of the media file (file path, bytes, Blob, or stream)
    * @throws {Error} if the filename already exists in the package
    * @throws {Error} if the source file cannot be read or processed
    */
-  public async addMediaFile(filename: string, source: string | Buffer | Readable): Promise<void> {
+  public async addMediaFile(
+    filename: string,
+    source: string | Uint8Array | Blob | AsyncIterable<Uint8Array> | ReadableStream<Uint8Array>,
+  ): Promise<void> {
     // Check if filename already exists
     const existingFile = Object.values(this.mediaFiles).find((name) => name === filename);
     if (existingFile !== undefined) {
@@ -1368,19 +2636,19 @@ export class AnkiPackage {
     const nextId = existingIds.length > 0 ? Math.max(...existingIds) + 1 : 0;
     const mediaId = nextId.toFixed(0);
 
-    const targetPath = join(this.tempDir, mediaId);
-
     try {
       if (typeof source === "string") {
-        // Source is a file path - copy it
-        await copyFile(source, targetPath);
-      } else if (Buffer.isBuffer(source)) {
-        // Source is a Buffer - write it
-        await writeFile(targetPath, source);
+        // Source is a file path (Node.js only) - copy it
+        await this.storage.writeFile(mediaId, readLocalFile(source));
+      } else if (source instanceof Uint8Array) {
+        // Source is a Buffer or Uint8Array - write it
+        await this.storage.writeFile(mediaId, source);
+      } else if (source instanceof Blob) {
+        // Source is a Blob or File, e.g. from a file input
+        await this.storage.writeFile(mediaId, readChunks(source.stream()));
       } else {
-        // Source is a Readable stream - pipe it
-        const writeStream = createWriteStream(targetPath);
-        await pipeline(source, writeStream);
+        // Source is a stream - copy it
+        await this.storage.writeFile(mediaId, readChunks(source));
       }
 
       // Update media mapping
@@ -1407,11 +2675,12 @@ export class AnkiPackage {
     }
 
     const [mediaId] = mediaEntry;
-    const filePath = join(this.tempDir, mediaId);
 
     try {
-      // Remove the physical file from disk
-      await rm(filePath);
+      // Remove the file from the storage, archived files and files of the media folder are only forgotten
+      if (!this.externalMediaFiles.delete(mediaId)) {
+        await this.storage.removeFile(mediaId);
+      }
 
       // Remove from media mapping by creating new object without the key
       const numericId = Number.parseInt(mediaId, 10);
@@ -1442,30 +2711,12 @@ export class AnkiPackage {
       throw new Error("Database contents not available");
     }
 
-    // Regex pattern for detecting media references in Anki notes
-    // This pattern can be easily modified if we discover additional formats
-    // Matches:
-    // - <img src="filename.ext"> and variants (with/without quotes)
-    // - [sound:filename.ext] (used for both audio and video in Anki)
-    const mediaReferencePattern = /<img[^>]+src=["']?([^"'>\s]+)["']?|\[sound:([^\]]+)\]/gi;
-
     // Collect all referenced filenames from all notes
-    const referencedFiles = new Set<string>();
-    const notes = this.getNotes();
-
-    for (const note of notes) {
-      const fields = splitAnkiFields(note.flds);
-      for (const field of fields) {
-        // Use matchAll() to avoid lastIndex issues with global regex
-        for (const match of field.matchAll(mediaReferencePattern)) {
-          // match[1] contains img src, match[2] contains sound filename
-          const filename = match[1] ?? match[2];
-          if (filename) {
-            referencedFiles.add(filename);
-          }
-        }
-      }
-    }
+    const referencedFiles = new Set(
+      this.getNotes().flatMap((note) =>
+        splitAnkiFields(note.flds).flatMap((field) => getMediaReferences(field)),
+      ),
+    );
 
     // Find unreferenced files
     const allMediaFiles = Object.values(this.mediaFiles);
@@ -1497,25 +2748,97 @@ export class AnkiPackage {
 
     const srsPackage = new SrsPackage();
 
-    // Step 1: Convert and add decks
+    // Step 1: Convert and add decks, parents first as they are part of the names of their subdecks
     const ankiToSrsDeckMap = new Map<number, string>();
+    const srsDeckIdsByName = new Map<string, string>();
+    const addParentDecks = (deckName: string): string | undefined => {
+      const { parentName } = splitDeckName(deckName);
+      if (parentName === undefined) {
+        return undefined;
+      }
+
+      const existingParentId = srsDeckIdsByName.get(parentName);
+      if (existingParentId !== undefined) {
+        return existingParentId;
+      }
+
+      // Anki creates parent decks with their subdecks, so they are only missing in damaged collections
+      collector.addWarning(
+        `The parent deck '${parentName}' of the deck '${deckName}' does not exist. It is added to keep the deck hierarchy.`,
+        { itemType: "deck" },
+      );
+      const grandparentId = addParentDecks(parentName);
+      const parentDeck = createDeck({
+        name: splitDeckName(parentName).name,
+        ...(grandparentId === undefined ? {} : { parentId: grandparentId }),
+      });
+      srsPackage.addDeck(parentDeck);
+      srsDeckIdsByName.set(parentName, parentDeck.id);
+      return parentDeck.id;
+    };
+
+    const ankiDecks = Object.entries(this.databaseContents.collection.decks).sort(
+      ([, a], [, b]) =>
+        a.name.split(DECK_HIERARCHY_SEPARATOR).length -
+        b.name.split(DECK_HIERARCHY_SEPARATOR).length,
+    );
+    // Deck presets are shared by the decks that use them
+    const ankiToSrsPresetMap = new Map<number, string>();
+    for (const [deckConfigId, deckConfig] of Object.entries(
+      this.databaseContents.collection.dconf,
+    )) {
+      const preset = createDeckPreset({
+        applicationSpecificData: {
+          ankiDeckConfigData: JSON.stringify(omitFields(deckConfig, "id", "name")),
+          originalAnkiId: deckConfigId,
+        },
+        desiredRetention: deckConfig.desiredRetention,
+        learningSteps: [...deckConfig.new.delays],
+        maximumInterval: deckConfig.rev.maxIvl,
+        name: deckConfig.name,
+        newCardsPerDay: deckConfig.new.perDay,
+        relearningSteps: [...deckConfig.lapse.delays],
+        reviewsPerDay: deckConfig.rev.perDay,
+      });
+      srsPackage.addDeckPreset(preset);
+      ankiToSrsPresetMap.set(Number(deckConfigId), preset.id);
+    }
 
-    for (const [deckId, ankiDeck] of Object.entries(this.databaseContents.collection.decks)) {
+    for (const [deckId, ankiDeck] of ankiDecks) {
+      const parentId = addParentDecks(ankiDeck.name);
       const deckData: Parameters<typeof createDeck>[0] = {
         applicationSpecificData: {
           ankiDeckData: JSON.stringify(ankiDeck),
           originalAnkiId: deckId,
         },
-        name: ankiDeck.name,
+        name: splitDeckName(ankiDeck.name).name,
       };
 
+      if (parentId !== undefined) {
+        deckData.parentId = parentId;
+      }
+
       if (ankiDeck.desc) {
         deckData.description = ankiDeck.desc;
       }
 
+      // Filtered decks have no preset
+      const presetId =
+        ankiDeck.dyn === DeckDynamicity.STATIC ? ankiToSrsPresetMap.get(ankiDeck.conf) : undefined;
+      if (presetId !== undefined) {
+        deckData.presetId = presetId;
+      }
+      if (ankiDeck.newLimit !== null) {
+        deckData.newCardsPerDay = ankiDeck.newLimit;
+      }
+      if (ankiDeck.reviewLimit !== null) {
+        deckData.reviewsPerDay = ankiDeck.reviewLimit;
+      }
+
       const srsDeck = createDeck(deckData);
       srsPackage.addDeck(srsDeck);
       ankiToSrsDeckMap.set(Number(deckId), srsDeck.id);
+      srsDeckIdsByName.set(ankiDeck.name, srsDeck.id);
     }
 
     // Step 2: Convert and add note types
@@ -1524,31 +2847,49 @@ export class AnkiPackage {
     for (const [noteTypeId, ankiNoteType] of Object.entries(
       this.databaseContents.collection.models,
     )) {
-      const srsNoteType = createNoteType({
-        applicationSpecificData: {
-          originalAnkiId: noteTypeId,
-        },
-        fields: ankiNoteType.flds.map((field, index) => {
-          const srsField: { id: number; name: string; description?: string } = {
-            id: index,
-            name: field.name,
-          };
-          if (field.description) {
-            srsField.description = field.description;
-          }
-          return srsField;
-        }),
-        name: ankiNoteType.name,
-        templates: ankiNoteType.tmpls.map((template, index) => ({
-          answerTemplate: template.afmt,
-          applicationSpecificData: {
-            ankiTemplateData: serializeWithBigInts(template),
-          },
-          id: index,
-          name: template.name,
-          questionTemplate: template.qfmt,
-        })),
-      });
+      const applicationSpecificData = {
+        ankiNoteTypeData: serializeWithBigInts(omitFields(ankiNoteType, "id", "did")),
+        originalAnkiId: noteTypeId,
+      };
+
+      // Anki stock note types become the note types of the universal format, the first one of each kind
+      const stockNoteType = getSrsStockNoteType(ankiNoteType);
+      const srsNoteType =
+        stockNoteType && !srsPackage.getNoteTypes().some(({ id }) => id === stockNoteType.id)
+          ? createNoteType({
+              ...stockNoteType,
+              applicationSpecificData,
+              fields: stockNoteType.fields.map((field) => ({ ...field })),
+              templates: stockNoteType.templates.map((template, index) => ({
+                ...template,
+                applicationSpecificData: {
+                  ankiTemplateData: serializeWithBigInts(ankiNoteType.tmpls[index]),
+                },
+              })),
+            })
+          : createNoteType({
+              applicationSpecificData,
+              fields: ankiNoteType.flds.map((field, index) => {
+                const srsField: { id: number; name: string; description?: string } = {
+                  id: index,
+                  name: field.name,
+                };
+                if (field.description) {
+                  srsField.description = field.description;
+                }
+                return srsField;
+              }),
+              name: ankiNoteType.name,
+              templates: ankiNoteType.tmpls.map((template, index) => ({
+                answerTemplate: template.afmt,
+                applicationSpecificData: {
+                  ankiTemplateData: serializeWithBigInts(template),
+                },
+                id: index,
+                name: template.name,
+                questionTemplate: template.qfmt,
+              })),
+            });
       srsPackage.addNoteType(srsNoteType);
       ankiToSrsNoteTypeMap.set(noteTypeId, srsNoteType.id);
     }
@@ -1648,9 +2989,7 @@ export class AnkiPackage {
           applicationSpecificData: {
             // TODO: Check which of these fields actually need to be stored. Maybe extract a type.
             ankiData: ankiCard.data,
-            ankiDue: ankiCard.due.toFixed(0),
-            ankiQueue: ankiCard.queue.toString(),
-            ankiType: ankiCard.type.toString(),
+            ...getSchedulingData(ankiCard, this.databaseContents.collection.crt),
             originalAnkiId: ankiCard.id?.toFixed() ?? "",
           },
           noteId: srsNoteId,
@@ -1743,6 +3082,7 @@ export class AnkiPackage {
           timestamp: ankiReview.id, // Anki review ID is the timestamp
           score: srsScore,
           applicationSpecificData: {
+            ...getReviewLogData(ankiReview),
             originalAnkiId: ankiReview.id.toFixed(0),
           },
         });
@@ -1790,18 +3130,349 @@ function writeMeta(message: MetaMessage): Uint8Array {
   return Meta.encode(message).finish();
 }
 
-async function makeTempDir(): Promise<string> {
-  // Use the node.js fs module to create a temporary directory
-  // TODO: Use platform specific temp directory (Browser, Tauri, etc.)
+/**
+ * Gets the contents of the legacy collection in packages of the latest
+ * export format, like Anki writes it. Its only note asks to update Anki.
+ * @returns The contents of the legacy collection
+ */
+function getUpdateRequiredContents(): DatabaseDump {
+  const text =
+    "Please update to the latest Anki version, then import the .colpkg/.apkg file again.";
+  const note: NotesTable = {
+    csum: fieldChecksum(text),
+    data: "",
+    flags: 0,
+    flds: joinAnkiFields([text, ""]),
+    guid: guid64FromSeed(text),
+    id: 1,
+    mid: basicModel.id,
+    mod: 0,
+    sfld: text,
+    tags: "",
+    usn: -1,
+  };
+  const card: CardsTable = {
+    data: "",
+    did: defaultDeck.id,
+    due: 1,
+    factor: 0,
+    flags: 0,
+    id: 1,
+    ivl: 0,
+    lapses: 0,
+    left: 0,
+    mod: 0,
+    nid: note.id,
+    odid: 0,
+    odue: 0,
+    ord: 0,
+    queue: QueueType.NEW,
+    reps: 0,
+    type: CardType.NEW,
+    usn: -1,
+  };
+
+  return {
+    cards: [card],
+    collection: { ...ankiDefaultCollection, models: { [basicModel.id]: basicModel } },
+    deletedItems: [],
+    notes: [note],
+    reviews: [],
+  };
+}
+
+/**
+ * Opens a collection database and reads its contents. Rows that cannot be
+ * read from damaged tables are reported as errors, databases that cannot be
+ * read at all as critical issues.
+ * @param data - The SQLite database
+ * @param dbFileName - The name of the database file, used in issues
+ * @param collector - Collects the issues found while reading
+ * @returns The contents of the database, or undefined if it cannot be read
+ */
+async function readCollectionDatabase(
+  data: Uint8Array,
+  dbFileName: string,
+  collector: IssueCollector,
+): Promise<DatabaseDump | undefined> {
+  let db: AnkiDatabase;
+  try {
+    db = await AnkiDatabase.fromBuffer(data);
+  } catch (error) {
+    if (error instanceof AnkiDatabaseError) {
+      let userMessage: string;
+      switch (error.type) {
+        case "empty": {
+          userMessage = `The ${dbFileName} database file is empty (0 bytes). This may indicate an incomplete export or file corruption. Please re-export your deck from Anki.`;
+          break;
+        }
+        case "truncated": {
+          userMessage = `The ${dbFileName} database file is truncated and too small to be valid. This may indicate an interrupted download or corrupted export. Please re-export your deck from Anki.`;
+          break;
+        }
+        case "invalid_header": {
+          userMessage = `The ${dbFileName} file is not a valid SQLite database. The file may have been corrupted or replaced with non-database content. Please re-export your deck from Anki.`;
+          break;
+        }
+        case "corrupted": {
+          userMessage = `The ${dbFileName} database is corrupted and cannot be opened. ${error.message} Please try re-exporting your deck from Anki, or check if your Anki installation is working correctly.`;
+          break;
+        }
+        default: {
+          userMessage = `Database error: ${error.message}`;
+        }
+      }
+      collector.addCritical(userMessage);
+      return undefined;
+    }
+    throw error; // Re-throw non-AnkiDatabaseError errors
+  }
+
+  try {
+    // Validate the database schema has all required tables
+    try {
+      db.validateSchema();
+    } catch (error) {
+      if (error instanceof AnkiDatabaseError) {
+        const missingTables = error.missingTables
+          ? error.missingTables.map((t) => `'${t}'`).join(", ")
+          : "unknown tables";
+        collector.addCritical(
+          `The ${dbFileName} database is missing required tables: ${missingTables}. This may indicate a corrupted database or an incompatible Anki version. Please re-export your deck from Anki.`,
+        );
+        return undefined;
+      }
+      throw error; // Re-throw non-AnkiDatabaseError errors
+    }
+
+    // The collection layout depends on the schema version, so check it before reading
+    const schemaVersion = await db.getSchemaVersion();
+    if (!AnkiDatabase.isSupportedSchemaVersion(schemaVersion)) {
+      collector.addCritical(
+        `This Anki file uses database version ${schemaVersion.toFixed(0)}, which is not supported. Please export your deck from a compatible Anki version.`,
+      );
+      return undefined;
+    }
+
+    // Read the contents of the database, skipping damaged rows
+    const { damagedRanges, dump, invalidColumns } = await db.toRecoveredObject();
+    for (const { column, reason } of invalidColumns) {
+      const { consequence, contents, severity } = INVALID_COLLECTION_COLUMNS[column];
+      const message = `The ${contents} of the ${dbFileName} database could not be read because ${reason}. ${consequence}`;
+      if (severity === "error") {
+        collector.addError(message, { originalData: { column, reason } });
+      } else {
+        collector.addWarning(message, { originalData: { column, reason } });
+      }
+    }
+    for (const range of damagedRanges) {
+      collector.addError(describeDamagedRowRange(range, dbFileName), {
+        itemType: DAMAGED_ROW_ITEM_TYPES[range.table],
+        originalData: range,
+      });
+    }
+    return dump;
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Describes rows that could not be read from a damaged database.
+ * @param range - The damaged rows
+ * @param dbFileName - The name of the database file
+ * @returns The message for the issue
+ */
+function describeDamagedRowRange(range: DamagedRowRange, dbFileName: string): string {
+  const items = DAMAGED_ROW_ITEMS[range.table];
+  const { after, before } = range;
+
+  let position: string;
+  if (after === undefined) {
+    position =
+      before === undefined ? `All ${items}` : `The ${items} before ID ${before.toFixed(0)}`;
+  } else {
+    position =
+      before === undefined
+        ? `The ${items} after ID ${after.toFixed(0)}`
+        : `The ${items} between IDs ${after.toFixed(0)} and ${before.toFixed(0)}`;
+  }
+
+  return `${position} could not be read because the ${dbFileName} database is damaged. They are missing from the package.`;
+}
+
+/**
+ * Gets the kind of package from the extension of a file.
+ * @param filepath - The path of the package file
+ * @returns The kind of package, or undefined for other extensions
+ */
+function getFormatFromPath(filepath: string): AnkiExportFormat | undefined {
+  const extension = VALID_FILE_EXTENSIONS.find((ext) => filepath.endsWith(ext));
+  return extension === undefined ? undefined : extension === ".apkg" ? "apkg" : "colpkg";
+}
+
+/**
+ * Parses Anki data kept in the application specific data of the universal
+ * format. Invalid data is ignored like missing data.
+ * @param json - The serialized data
+ * @param bigintFieldPaths - Paths of the values that are parsed as BigInt or kept as null, see `parseWithBigInts()`
+ * @returns The parsed properties, empty for missing or invalid data
+ */
+function parseAnkiData(
+  json: string | undefined,
+  bigintFieldPaths: string[] = [],
+): Record<string, unknown> {
+  if (json === undefined) {
+    return {};
+  }
+
+  try {
+    return asObject(parseWithBigInts(json, bigintFieldPaths, { allowNull: true }));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Narrows parsed data to objects whose properties can be spread.
+ * @param value - The parsed value
+ * @returns The value if it is an object, otherwise an empty object
+ */
+function asObject(value: unknown): Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Removes the properties without a value, so they do not replace other values
+ * when the object is spread.
+ * @param values - The properties
+ * @returns The properties that have a value
+ */
+function withoutUndefined<T extends Record<string, unknown>>(values: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined),
+  ) as Partial<T>;
+}
+
+/**
+ * Gets the collapsed state of a deck from the Anki deck data it was converted from.
+ * @param applicationSpecificData - The application specific data of the SRS deck
+ * @returns Whether the deck is collapsed in the deck list and the browser, collapsed by default
+ */
+function getCollapsedDeckState(
+  applicationSpecificData: Record<string, string> | undefined,
+): Pick<Deck, "browserCollapsed" | "collapsed"> {
+  const state = { browserCollapsed: true, collapsed: true };
+  const ankiDeckData = applicationSpecificData?.["ankiDeckData"];
+  if (ankiDeckData === undefined) {
+    return state;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(ankiDeckData);
+    if (typeof parsed === "object" && parsed !== null) {
+      const { browserCollapsed, collapsed } = parsed as Partial<Record<string, unknown>>;
+      if (typeof browserCollapsed === "boolean") {
+        state.browserCollapsed = browserCollapsed;
+      }
+      if (typeof collapsed === "boolean") {
+        state.collapsed = collapsed;
+      }
+    }
+  } catch {
+    // Invalid deck data is ignored like missing deck data
+  }
+  return state;
+}
+
+/**
+ * Calculates the sort field and the checksum of a note like Anki does. Both
+ * are stripped of HTML, the sort field is taken from the sort field of the
+ * note type, and the checksum Anki uses to find duplicates from the first
+ * field. Anki strips the first field twice for the checksum, so text with
+ * encoded entities like `&amp;lt;` is decoded twice as well.
+ * @param fields - The field values of the note
+ * @param sortFieldIndex - The index of the sort field of the note type
+ * @returns The `sfld` and `csum` columns of the note
+ */
+function getSortFieldAndChecksum(
+  fields: string[],
+  sortFieldIndex: number,
+): Pick<NotesTable, "csum" | "sfld"> {
+  return {
+    csum: fieldChecksum(
+      stripHtmlPreservingMediaFilenames(stripHtmlPreservingMediaFilenames(fields[0] ?? "")),
+    ),
+    sfld: stripHtmlPreservingMediaFilenames(fields[sortFieldIndex] ?? fields[0] ?? ""),
+  };
+}
+
+/**
+ * Splits the full name of an Anki deck, e.g. `Japanese::N5::Verbs`.
+ * @param fullName - The full name of the deck
+ * @returns The full name of the parent deck, undefined for top-level decks, and the name of the deck itself
+ */
+function splitDeckName(fullName: string): { parentName: string | undefined; name: string } {
+  const separatorIndex = fullName.lastIndexOf(DECK_HIERARCHY_SEPARATOR);
+  return separatorIndex === -1
+    ? { name: fullName, parentName: undefined }
+    : {
+        name: fullName.slice(separatorIndex + DECK_HIERARCHY_SEPARATOR.length),
+        parentName: fullName.slice(0, separatorIndex),
+      };
+}
+
+/**
+ * Gets the name of a file from its path.
+ * @param filepath - The path of the file
+ * @returns The last part of the path
+ */
+function getFileName(filepath: string): string {
+  return filepath.split(/[/\\]/).at(-1) ?? filepath;
+}
+
+/**
+ * Gets the media folder of a collection, which Anki keeps next to the
+ * collection file with the `.media` extension.
+ * @param filepath - The path of the collection file
+ * @returns The path of the media folder
+ */
+function getMediaFolderPath(filepath: string): string {
+  const fileName = getFileName(filepath);
+  const extensionIndex = fileName.lastIndexOf(".");
+  const baseName = extensionIndex > 0 ? fileName.slice(0, extensionIndex) : fileName;
+  return `${filepath.slice(0, filepath.length - fileName.length)}${baseName}.media`;
+}
+
+/**
+ * Detects the version of a package without `meta` file from its collection file.
+ *
+ * Packages exported before Anki 2.1.50 have no `meta` file. They contain
+ * `collection.anki21` if they were exported for the v2 scheduler and
+ * `collection.anki2` otherwise.
+ * @param storage - Storage the package files were copied to
+ * @returns The detected version, or undefined if no legacy collection file exists
+ */
+async function detectLegacyExportVersion(storage: Storage): Promise<ExportVersion | undefined> {
+  for (const version of [ExportVersion.Legacy_V2, ExportVersion.Legacy_V1]) {
+    if (await storage.exists(COLLECTION_FILE_NAMES[version])) {
+      return version;
+    }
+  }
+  return undefined;
+}
 
-  return await mkdtemp(join(tmpdir(), "srsconverter-"));
+async function createStorage(backend: StorageBackend | undefined): Promise<Storage> {
+  return await (backend ?? getDefaultStorageBackend()).createStorage();
 }
 
-async function removeDirectory(dirPath: string): Promise<ConversionIssue[]> {
+async function removeStorage(storage: Storage): Promise<ConversionIssue[]> {
   const issues: ConversionIssue[] = [];
 
   try {
-    await rm(dirPath, { recursive: true });
+    await storage.destroy();
   } catch (error) {
     issues.push({
       context: {
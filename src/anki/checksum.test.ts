@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+
+import { fieldChecksum, stripHtmlPreservingMediaFilenames } from "./checksum";
+
+describe("stripHtmlPreservingMediaFilenames", () => {
+  it("should remove HTML tags and comments", () => {
+    expect(stripHtmlPreservingMediaFilenames("<div><b>Bold</b><!-- <i>hidden</i> --></div>")).toBe(
+      "Bold",
+    );
+  });
+
+  it("should keep the file names of media", () => {
+    expect(
+      stripHtmlPreservingMediaFilenames(
+        `<img class="x" src="image.png"><audio src='sound.mp3'></audio><img src=plain.jpg>`,
+      ),
+    ).toBe(" image.png  sound.mp3  plain.jpg ");
+  });
+
+  it("should decode HTML entities", () => {
+    expect(stripHtmlPreservingMediaFilenames("a&nbsp;&lt;b&gt; &amp; &#65;&#x42; &unknown;")).toBe(
+      "a <b> & AB &unknown;",
+    );
+  });
+
+  it("should decode all named HTML entities", () => {
+    expect(stripHtmlPreservingMediaFilenames("caf&eacute; &Eacute;t&eacute; &frac12; &euro;")).toBe(
+      "café Été ½ €",
+    );
+  });
+
+  it("should keep entities that are not named like properties of objects", () => {
+    expect(stripHtmlPreservingMediaFilenames("&constructor; &toString;")).toBe(
+      "&constructor; &toString;",
+    );
+  });
+});
+
+describe("fieldChecksum", () => {
+  it("should use the first 8 hex digits of the SHA-1 hash", () => {
+    expect(fieldChecksum("")).toBe(0xda_39_a3_ee);
+    expect(fieldChecksum("abc")).toBe(0xa9_99_3e_36);
+    expect(fieldChecksum("Käse 日本")).toBe(468_316_779);
+  });
+
+  it("should hash texts longer than one block", () => {
+    // SHA-1 of one million "a" characters is 34aa973c...
+    expect(fieldChecksum("a".repeat(1_000_000))).toBe(0x34_aa_97_3c);
+  });
+});
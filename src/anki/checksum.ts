@@ -0,0 +1,145 @@
+import { HTML_ENTITIES } from "./html-entities";
+
+/**
+ * Media tags with the attribute that references the media file, e.g.
+ * `<img src="image.png">`
+ */
+const HTML_MEDIA_TAG_PATTERN =
+  /<\b(?:img|audio|video|object)\b(?:[^>"']|"[^"]*"|'[^']*')*?\b(?:src|data)\b=(?:"([^"]+)"|'([^']+)'|([^ ">]+))[^>]*>/gis;
+const HTML_COMMENT_PATTERN = /<!--.*?-->/gs;
+const HTML_TAG_PATTERN = /<.*?>/gs;
+const HTML_ENTITY_PATTERN = /&(?:#(\d+)|#x([\da-f]+)|([a-z\d]+));/gi;
+const NO_BREAK_SPACE = 0xa0;
+
+/**
+ * Gets the code point of a named character reference.
+ * @param name - The name of the entity, without `&` and `;`
+ * @returns The code point, undefined for unknown names
+ */
+function getNamedEntity(name: string): number | undefined {
+  return Object.hasOwn(HTML_ENTITIES, name) ? HTML_ENTITIES[name] : undefined;
+}
+
+/**
+ * Strips the HTML of a field like Anki does for the sort field and the
+ * checksum of notes. The file names of media are kept, so notes with
+ * different images are not duplicates.
+ * @param html - The field content
+ * @returns The text of the field
+ * @see https://github.com/ankitects/anki/blob/main/rslib/src/text.rs
+ */
+export function stripHtmlPreservingMediaFilenames(html: string): string {
+  return html
+    .replaceAll(
+      HTML_MEDIA_TAG_PATTERN,
+      (_match, doubleQuoted?: string, singleQuoted?: string, unquoted?: string) =>
+        ` ${doubleQuoted ?? singleQuoted ?? unquoted ?? ""} `,
+    )
+    .replaceAll(HTML_COMMENT_PATTERN, "")
+    .replaceAll(HTML_TAG_PATTERN, "")
+    .replaceAll(HTML_ENTITY_PATTERN, (entity, decimal?: string, hex?: string, name?: string) => {
+      const codePoint =
+        decimal === undefined
+          ? hex === undefined
+            ? getNamedEntity(name ?? "")
+            : Number.parseInt(hex, 16)
+          : Number(decimal);
+      if (codePoint === undefined || codePoint > 0x10_ff_ff) {
+        return entity;
+      }
+      // Anki replaces no-break spaces with regular spaces
+      return codePoint === NO_BREAK_SPACE ? " " : String.fromCodePoint(codePoint);
+    });
+}
+
+/**
+ * Calculates the checksum Anki uses to find duplicate notes: the first
+ * 8 hex digits of the SHA-1 hash of the text, as an integer.
+ * @param text - The stripped text of the first field
+ * @returns The checksum
+ */
+export function fieldChecksum(text: string): number {
+  return new DataView(sha1(new TextEncoder().encode(text)).buffer).getUint32(0, false);
+}
+
+/**
+ * Calculates the SHA-1 hash of data. The Web Crypto API only provides an
+ * asynchronous digest, so checksums could not be calculated when notes are
+ * added.
+ * @param data - The data to hash
+ * @returns The 20 byte hash
+ */
+export function sha1(data: Uint8Array): Uint8Array {
+  // Padding: a 1 bit, zeros and the length in bits, to a multiple of 64 bytes
+  const paddedLength = Math.ceil((data.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(data.length / 0x20_00_00_00), false);
+  // Only the lower 32 bits are written
+  view.setUint32(paddedLength - 4, data.length * 8, false);
+
+  const hash = new Uint32Array([
+    0x67_45_23_01, 0xef_cd_ab_89, 0x98_ba_dc_fe, 0x10_32_54_76, 0xc3_d2_e1_f0,
+  ]);
+  const words = new Uint32Array(80);
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      words[i] = view.getUint32(offset + i * 4, false);
+    }
+    for (let i = 16; i < 80; i++) {
+      const word =
+        (words[i - 3] ?? 0) ^ (words[i - 8] ?? 0) ^ (words[i - 14] ?? 0) ^ (words[i - 16] ?? 0);
+      words[i] = (word << 1) | (word >>> 31);
+    }
+
+    let [a = 0, b = 0, c = 0, d = 0, e = 0] = hash;
+    for (let i = 0; i < 80; i++) {
+      let f: number;
+      let k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a_82_79_99;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6e_d9_eb_a1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f_1b_bc_dc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca_62_c1_d6;
+      }
+      const temp = add32((a << 5) | (a >>> 27), f, e, k, words[i] ?? 0);
+      e = d;
+      d = c;
+      c = (b << 30) | (b >>> 2);
+      b = a;
+      a = temp;
+    }
+
+    hash[0] = (hash[0] ?? 0) + a;
+    hash[1] = (hash[1] ?? 0) + b;
+    hash[2] = (hash[2] ?? 0) + c;
+    hash[3] = (hash[3] ?? 0) + d;
+    hash[4] = (hash[4] ?? 0) + e;
+  }
+
+  const digest = new Uint8Array(20);
+  const digestView = new DataView(digest.buffer);
+  for (const [index, value] of hash.entries()) {
+    digestView.setUint32(index * 4, value, false);
+  }
+  return digest;
+}
+
+/**
+ * Adds 32-bit integers, signed results of bitwise operators included, with
+ * the overflow of unsigned 32-bit integers.
+ * @param values - The values to add
+ * @returns The sum as an unsigned 32-bit integer
+ */
+function add32(...values: number[]): number {
+  return values.reduce((sum, value) => (sum + value + 0x1_00_00_00_00) % 0x1_00_00_00_00, 0);
+}
@@ -1,4 +1,4 @@
-import type { ColTable, Config, Deck, DeckConfig, NoteType } from "./types";
+import type { ColTable, Config, Deck, DeckConfig, Field, NoteType } from "./types";
 
 export const ankiDbSchema = `
 CREATE TABLE cards (
@@ -90,6 +90,177 @@ PRAGMA page_size = 512;
 
 VACUUM;`;
 
+/**
+ * Schema v18 as created by Anki 25.02.7, used for the "latest" export format.
+ *
+ * Anki declares the name columns with its own `unicase` collation, which
+ * sql.js does not know. They are created with `NOCASE` and declared with
+ * `unicase` again when the database is written, unless names with non-ASCII
+ * letters would be sorted differently by both collations.
+ */
+export const ankiDbSchemaV18 = `
+CREATE TABLE col (
+  id integer PRIMARY KEY,
+  crt integer NOT NULL,
+  mod integer NOT NULL,
+  scm integer NOT NULL,
+  ver integer NOT NULL,
+  dty integer NOT NULL,
+  usn integer NOT NULL,
+  ls integer NOT NULL,
+  conf text NOT NULL,
+  models text NOT NULL,
+  decks text NOT NULL,
+  dconf text NOT NULL,
+  tags text NOT NULL
+);
+
+CREATE TABLE notes (
+  id integer PRIMARY KEY,
+  guid text NOT NULL,
+  mid integer NOT NULL,
+  mod integer NOT NULL,
+  usn integer NOT NULL,
+  tags text NOT NULL,
+  flds text NOT NULL,
+  -- The use of type integer for sfld is deliberate, because it means that integer values in this
+  -- field will sort numerically.
+  sfld integer NOT NULL,
+  csum integer NOT NULL,
+  flags integer NOT NULL,
+  data text NOT NULL
+);
+
+CREATE TABLE cards (
+  id integer PRIMARY KEY,
+  nid integer NOT NULL,
+  did integer NOT NULL,
+  ord integer NOT NULL,
+  mod integer NOT NULL,
+  usn integer NOT NULL,
+  type integer NOT NULL,
+  queue integer NOT NULL,
+  due integer NOT NULL,
+  ivl integer NOT NULL,
+  factor integer NOT NULL,
+  reps integer NOT NULL,
+  lapses integer NOT NULL,
+  left integer NOT NULL,
+  odue integer NOT NULL,
+  odid integer NOT NULL,
+  flags integer NOT NULL,
+  data text NOT NULL
+);
+
+CREATE TABLE revlog (
+  id integer PRIMARY KEY,
+  cid integer NOT NULL,
+  usn integer NOT NULL,
+  ease integer NOT NULL,
+  ivl integer NOT NULL,
+  lastIvl integer NOT NULL,
+  factor integer NOT NULL,
+  time integer NOT NULL,
+  type integer NOT NULL
+);
+
+CREATE INDEX ix_notes_usn ON notes (usn);
+
+CREATE INDEX ix_cards_usn ON cards (usn);
+
+CREATE INDEX ix_revlog_usn ON revlog (usn);
+
+CREATE INDEX ix_cards_nid ON cards (nid);
+
+CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+
+CREATE INDEX ix_revlog_cid ON revlog (cid);
+
+CREATE INDEX ix_notes_csum ON notes (csum);
+
+CREATE TABLE deck_config (
+  id integer PRIMARY KEY NOT NULL,
+  name text NOT NULL COLLATE NOCASE,
+  mtime_secs integer NOT NULL,
+  usn integer NOT NULL,
+  config blob NOT NULL
+);
+
+CREATE TABLE config (
+  KEY text NOT NULL PRIMARY KEY,
+  usn integer NOT NULL,
+  mtime_secs integer NOT NULL,
+  val blob NOT NULL
+) without rowid;
+
+CREATE TABLE fields (
+  ntid integer NOT NULL,
+  ord integer NOT NULL,
+  name text NOT NULL COLLATE NOCASE,
+  config blob NOT NULL,
+  PRIMARY KEY (ntid, ord)
+) without rowid;
+
+CREATE UNIQUE INDEX idx_fields_name_ntid ON fields (name, ntid);
+
+CREATE TABLE templates (
+  ntid integer NOT NULL,
+  ord integer NOT NULL,
+  name text NOT NULL COLLATE NOCASE,
+  mtime_secs integer NOT NULL,
+  usn integer NOT NULL,
+  config blob NOT NULL,
+  PRIMARY KEY (ntid, ord)
+) without rowid;
+
+CREATE UNIQUE INDEX idx_templates_name_ntid ON templates (name, ntid);
+
+CREATE INDEX idx_templates_usn ON templates (usn);
+
+CREATE TABLE notetypes (
+  id integer NOT NULL PRIMARY KEY,
+  name text NOT NULL COLLATE NOCASE,
+  mtime_secs integer NOT NULL,
+  usn integer NOT NULL,
+  config blob NOT NULL
+);
+
+CREATE UNIQUE INDEX idx_notetypes_name ON notetypes (name);
+
+CREATE INDEX idx_notetypes_usn ON notetypes (usn);
+
+CREATE TABLE decks (
+  id integer PRIMARY KEY NOT NULL,
+  name text NOT NULL COLLATE NOCASE,
+  mtime_secs integer NOT NULL,
+  usn integer NOT NULL,
+  common blob NOT NULL,
+  kind blob NOT NULL
+);
+
+CREATE UNIQUE INDEX idx_decks_name ON decks (name);
+
+CREATE INDEX idx_notes_mid ON notes (mid);
+
+CREATE INDEX idx_cards_odid ON cards (odid)
+WHERE odid != 0;
+
+CREATE TABLE tags (
+  tag text NOT NULL PRIMARY KEY COLLATE NOCASE,
+  usn integer NOT NULL,
+  collapsed boolean NOT NULL,
+  config blob NULL
+) without rowid;
+
+CREATE TABLE graves (
+  oid integer NOT NULL,
+  type integer NOT NULL,
+  usn integer NOT NULL,
+  PRIMARY KEY (oid, type)
+) WITHOUT ROWID;
+
+CREATE INDEX idx_graves_pending ON graves (usn);`;
+
 /**
  * Exported with Anki 25.02.7
  */
@@ -193,6 +364,62 @@ export const defaultDeckConfig: DeckConfig = {
   weightSearch: "",
 };
 
+/**
+ * Values Anki 25.02.7 uses for a newly added note type.
+ *
+ * Used to fill in properties that are missing in note types written by older
+ * Anki versions.
+ */
+export const defaultNoteType: Omit<NoteType, "id" | "name" | "flds" | "tmpls"> = {
+  css: ".card {\n    font-family: arial;\n    font-size: 20px;\n    text-align: center;\n    color: black;\n    background-color: white;\n}\n",
+  did: null,
+  latexPost: "\\end{document}",
+  latexPre:
+    "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+  latexsvg: false,
+  mod: 0,
+  originalStockKind: null,
+  req: [],
+  sortf: 0,
+  type: 0,
+  usn: 0,
+};
+
+/**
+ * Values Anki 25.02.7 uses for a newly added field.
+ *
+ * Used to fill in properties that are missing in fields written by older Anki
+ * versions.
+ */
+export const defaultField: Omit<Field, "name" | "ord"> = {
+  collapsed: false,
+  description: "",
+  excludeFromSearch: false,
+  font: "Arial",
+  id: null,
+  plainText: false,
+  preventDeletion: false,
+  rtl: false,
+  size: 20,
+  sticky: false,
+  tag: null,
+};
+
+/**
+ * Values Anki 25.02.7 uses for a newly added card template.
+ *
+ * Used to fill in properties that are missing in templates written by older
+ * Anki versions.
+ */
+export const defaultTemplate: Omit<NoteType["tmpls"][number], "name" | "ord" | "qfmt" | "afmt"> = {
+  bafmt: "",
+  bfont: "",
+  bqfmt: "",
+  bsize: 0,
+  did: null,
+  id: null,
+};
+
 /**
  * Exported with Anki 25.02.7
  */
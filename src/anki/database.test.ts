@@ -1,9 +1,15 @@
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
 
+import InitSqlJs from "sql.js";
+import { Open } from "unzipper";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 
-import { AnkiDatabase } from "./database";
+import { createAnkiDatabaseWithData, createDamagedAnkiDatabase } from "./anki-package.fixtures";
+import { basicModel, defaultConfig, defaultDeck, defaultDeckConfig } from "./constants";
+import { AnkiDatabase, AnkiDatabaseError } from "./database";
+import { DeckDynamicity } from "./types";
+import { decompressZstd } from "./zstd";
 
 describe("anki db test", () => {
   let db: AnkiDatabase;
@@ -390,3 +396,227 @@ describe("anki db test", () => {
     await newDb.close();
   });
 });
+
+describe("anki db schema 18", () => {
+  let db: AnkiDatabase;
+
+  beforeEach(async () => {
+    const directory = await Open.file("./tests/fixtures/anki/empty-latest.apkg");
+    const collectionFile = directory.files.find((file) => file.path === "collection.anki21b");
+    if (!collectionFile) {
+      throw new Error("Fixture does not contain collection.anki21b");
+    }
+    db = await AnkiDatabase.fromBuffer(decompressZstd(await collectionFile.buffer()));
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it("should detect the schema version", async () => {
+    expect(await db.getSchemaVersion()).toBe(18);
+    expect(AnkiDatabase.isSupportedSchemaVersion(18)).toBe(true);
+    expect(AnkiDatabase.isSupportedSchemaVersion(14)).toBe(false);
+  });
+
+  it("should read the collection into the schema 11 layout", async () => {
+    const collection = await db.getCollection();
+
+    expect(collection.ver).toBe(11);
+    expect(collection.conf).toEqual({ ...defaultConfig, curModel: 1_751_388_960_062 });
+    expect(collection.decks).toEqual({ "1": defaultDeck });
+    expect(collection.dconf).toEqual({ "1": defaultDeckConfig });
+    expect(collection.tags).toEqual({});
+  });
+
+  it("should combine note types with their fields and templates", async () => {
+    await db.executeQueries(
+      "INSERT INTO notetypes VALUES (1751388960062, 'Basic', 1751388960, 0, x'')",
+    );
+
+    const { models } = await db.getCollection();
+    const noteType = models["1751388960062"];
+
+    expect(noteType?.name).toBe("Basic");
+    expect(noteType?.originalStockKind).toBeNull();
+    expect(noteType?.flds.map((field) => field.name)).toEqual(["Front", "Back"]);
+    expect(noteType?.flds[0]).toMatchObject({ font: "Arial", size: 20, tag: null });
+    expect(typeof noteType?.flds[0]?.id).toBe("bigint");
+    expect(noteType?.tmpls.map((template) => template.name)).toEqual(["Card 1"]);
+    expect(noteType?.tmpls[0]?.qfmt).toBe("{{Front}}");
+  });
+
+  it("should require the normalized tables", async () => {
+    await db.executeQueries("DROP TABLE tags");
+
+    expect(() => {
+      db.validateSchema();
+    }).toThrow(AnkiDatabaseError);
+    expect(() => {
+      db.validateSchema();
+    }).toThrow(/'tags'/);
+  });
+
+  it("should write collections with the latest schema", async () => {
+    const dump = await db.toObject();
+    const filteredDeck = {
+      ...defaultDeck,
+      delays: null,
+      dyn: DeckDynamicity.DYNAMIC,
+      id: 2,
+      name: "Filtered",
+      previewAgainSecs: 60,
+      previewDelay: 0,
+      previewGoodSecs: 0,
+      previewHardSecs: 600,
+      resched: true,
+      separate: true,
+      terms: [["deck:Default is:due", 100, 0]],
+    };
+    dump.collection.decks["2"] = filteredDeck;
+    dump.collection.models[String(basicModel.id)] = basicModel;
+
+    const written = await AnkiDatabase.fromDump(dump, 18);
+    try {
+      const reread = await AnkiDatabase.fromBuffer(written.toBuffer());
+      try {
+        expect(await reread.getSchemaVersion()).toBe(18);
+        reread.validateSchema();
+
+        const collection = await reread.getCollection();
+        expect(collection.conf).toEqual(dump.collection.conf);
+        expect(collection.dconf).toEqual(dump.collection.dconf);
+        expect(collection.decks["1"]).toEqual(defaultDeck);
+        expect(collection.decks["2"]).toMatchObject({
+          dyn: DeckDynamicity.DYNAMIC,
+          name: "Filtered",
+          previewHardSecs: 600,
+          resched: true,
+          terms: [["deck:Default is:due", 100, 0]],
+        });
+        expect(collection.models[String(basicModel.id)]).toEqual(basicModel);
+      } finally {
+        await reread.close();
+      }
+    } finally {
+      await written.close();
+    }
+  });
+
+  it("should declare the unicase collation of Anki in the latest schema", async () => {
+    const dump = await db.toObject();
+    dump.collection.decks["2"] = { ...defaultDeck, id: 2, name: "日本語" };
+
+    const written = await AnkiDatabase.fromDump(dump, 18);
+    try {
+      const SQL = await InitSqlJs();
+      const reopened = new SQL.Database(written.toBuffer());
+      try {
+        const [result] = reopened.exec(
+          "SELECT count(*) FROM sqlite_master WHERE sql LIKE '%COLLATE unicase%'",
+        );
+        expect(result?.values[0]?.[0]).toBeGreaterThan(0);
+      } finally {
+        reopened.close();
+      }
+    } finally {
+      await written.close();
+    }
+  });
+
+  it("should keep the NOCASE collation if names differ from unicase in their order", async () => {
+    const dump = await db.toObject();
+    dump.collection.decks["2"] = { ...defaultDeck, id: 2, name: "Übung" };
+    dump.collection.decks["3"] = { ...defaultDeck, id: 3, name: "äpfel" };
+
+    const written = await AnkiDatabase.fromDump(dump, 18);
+    try {
+      const SQL = await InitSqlJs();
+      const reopened = new SQL.Database(written.toBuffer());
+      try {
+        const [collations] = reopened.exec(
+          "SELECT count(*) FROM sqlite_master WHERE sql LIKE '%COLLATE unicase%'",
+        );
+        expect(collations?.values[0]?.[0]).toBe(0);
+        const [integrity] = reopened.exec("PRAGMA integrity_check");
+        expect(integrity?.values).toEqual([["ok"]]);
+      } finally {
+        reopened.close();
+      }
+    } finally {
+      await written.close();
+    }
+  });
+
+  it("should only write the legacy and the latest schema", async () => {
+    const dump = await db.toObject();
+
+    await expect(AnkiDatabase.fromDump(dump, 14)).rejects.toThrow(
+      "Collections with schema version 14 cannot be written.",
+    );
+  });
+});
+
+describe("anki db recovery", () => {
+  it("should read all rows of an intact database", async () => {
+    const db = await AnkiDatabase.fromDefault();
+    try {
+      const { damagedRanges, dump, invalidColumns } = await db.toRecoveredObject();
+
+      expect(damagedRanges).toEqual([]);
+      expect(invalidColumns).toEqual([]);
+      expect(dump).toEqual(await db.toObject());
+    } finally {
+      await db.close();
+    }
+  });
+
+  it("should skip the rows of damaged pages", async () => {
+    const { buffer, noteIds } = await createDamagedAnkiDatabase();
+    const db = await AnkiDatabase.fromBuffer(buffer);
+    try {
+      db.validateSchema();
+      await expect(db.toObject()).rejects.toThrow(/malformed/);
+
+      const { damagedRanges, dump } = await db.toRecoveredObject();
+
+      expect(damagedRanges).toHaveLength(1);
+      const [range] = damagedRanges;
+      expect(range?.table).toBe("notes");
+      if (range?.after === undefined || range.before === undefined) {
+        throw new Error("Expected rows before and after the damaged page");
+      }
+      // Only the notes of the damaged page are lost
+      expect(dump.notes.map((note) => note.id)).toEqual(
+        noteIds.filter((id) => id <= (range.after ?? 0) || id >= (range.before ?? 0)),
+      );
+      expect(dump.notes.length).toBeGreaterThan(noteIds.length - 10);
+      expect(dump.notes[0]).toMatchObject({ flds: expect.stringContaining("Front 0") as string });
+      expect(dump.cards).toHaveLength(noteIds.length);
+      expect(dump.collection.ver).toBe(11);
+    } finally {
+      await db.close();
+    }
+  });
+
+  it("should replace collection columns that are not valid JSON", async () => {
+    const db = await AnkiDatabase.fromBuffer(
+      await createAnkiDatabaseWithData({ conf: "[1, 2]", models: "{" }),
+    );
+    try {
+      await expect(db.getCollection()).rejects.toThrow(AnkiDatabaseError);
+
+      const { dump, invalidColumns } = await db.toRecoveredObject();
+
+      expect(invalidColumns).toEqual([
+        { column: "conf", reason: "it is not a JSON object" },
+        { column: "models", reason: expect.stringMatching(/^it is not valid JSON/) as string },
+      ]);
+      expect(dump.collection.conf).toEqual(defaultConfig);
+      expect(dump.collection.models).toEqual({});
+      expect(Object.keys(dump.collection.decks)).toEqual(["1"]);
+    } finally {
+      await db.close();
+    }
+  });
+});
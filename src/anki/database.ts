@@ -1,11 +1,26 @@
 import { CompiledQuery, Kysely } from "kysely";
 import { SqlJsDialect } from "kysely-wasm";
-import type { Database } from "sql.js";
+import type { Database, SqlJsStatic, Statement } from "sql.js";
 import InitSqlJs from "sql.js";
 
 import type { ConversionIssue } from "@/error-handling";
 
-import { ankiDbSchema, ankiDefaultCollectionInsert } from "./constants";
+import {
+  ankiDbSchema,
+  ankiDbSchemaV18,
+  ankiDefaultCollectionInsert,
+  defaultConfig,
+} from "./constants";
+import {
+  toConfig,
+  toConfigRows,
+  toDeck,
+  toDeckConfig,
+  toDeckConfigRow,
+  toDeckRow,
+  toNoteType,
+  toNoteTypeRows,
+} from "./schema-v18";
 import type {
   CardsTable,
   ColTable,
@@ -19,6 +34,7 @@ import type {
   NoteTypes,
   RevlogTable,
 } from "./types";
+import type { DBTablesV18, FieldsTable, TemplatesTable } from "./types-v18";
 import { parseWithBigInts, serializeWithBigInts } from "./util";
 
 /**
@@ -46,6 +62,52 @@ export class AnkiDatabaseError extends Error {
   }
 }
 
+/**
+ * Tables whose rows can be recovered from a damaged database
+ */
+export type RecoverableTable = "cards" | "notes" | "revlog";
+
+/**
+ * Rows of a table that could not be read from a damaged database
+ */
+export interface DamagedRowRange {
+  table: RecoverableTable;
+  /** The last row ID read before the damaged rows, undefined if they start at the beginning */
+  after: number | undefined;
+  /** The first row ID read after the damaged rows, undefined if they reach the end */
+  before: number | undefined;
+}
+
+/**
+ * Columns of the `col` table that contain JSON in schema v11
+ */
+export type CollectionJsonColumn = "conf" | "decks" | "dconf" | "models" | "tags";
+
+/**
+ * A JSON column of the collection that could not be parsed
+ */
+export interface InvalidCollectionColumn {
+  column: CollectionJsonColumn;
+  /** Why the column could not be used */
+  reason: string;
+}
+
+/**
+ * The contents of a database that may be damaged
+ */
+export interface RecoveredDatabaseDump {
+  dump: DatabaseDump;
+  /** The rows that could not be read and are missing from the dump */
+  damagedRanges: DamagedRowRange[];
+  /** The JSON columns of the collection that could not be parsed, their defaults are used */
+  invalidColumns: InvalidCollectionColumn[];
+}
+
+/**
+ * Result of looking for the first readable row at or after a row ID
+ */
+type RowProbe = { readable: true; rowId: number | undefined } | { readable: false };
+
 export class AnkiDatabase {
   private db: Kysely<DBTables>;
   private sqlJsInstance: Database | undefined;
@@ -86,6 +148,35 @@ export class AnkiDatabase {
    */
   static readonly REQUIRED_TABLES = ["col", "notes", "cards", "revlog", "graves"] as const;
 
+  /**
+   * Tables that replace the JSON columns of `col` in normalized schemas
+   */
+  static readonly REQUIRED_NORMALIZED_TABLES = [
+    "config",
+    "decks",
+    "deck_config",
+    "notetypes",
+    "fields",
+    "templates",
+    "tags",
+  ] as const;
+
+  /**
+   * Schema version that stores the collection JSON in the `col` table
+   */
+  static readonly LEGACY_SCHEMA_VERSION = 11;
+
+  /**
+   * First schema version that stores decks, note types and configuration in
+   * separate tables instead of the `col` table
+   */
+  static readonly NORMALIZED_SCHEMA_VERSION = 15;
+
+  /**
+   * Latest schema version written by Anki
+   */
+  static readonly LATEST_SCHEMA_VERSION = 18;
+
   /**
    * Creates an AnkiDatabase from a buffer containing SQLite data.
    * @param buffer - The SQLite database file contents
@@ -119,7 +210,7 @@ export class AnkiDatabase {
     let sqlJsInstance: Database;
     try {
       const SQL = await InitSqlJs();
-      sqlJsInstance = new SQL.Database(buffer);
+      sqlJsInstance = AnkiDatabase.replaceUnicaseCollation(SQL, new SQL.Database(buffer));
     } catch (error) {
       // sql.js throws various errors for corrupted databases
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -139,6 +230,41 @@ export class AnkiDatabase {
     return new AnkiDatabase(db, sqlJsInstance);
   }
 
+  /**
+   * Anki declares the name columns of the normalized tables with its own
+   * `unicase` collation, which is unknown to sql.js and makes queries on these
+   * tables fail. It is replaced with the built-in `NOCASE` collation, which
+   * only differs for non-ASCII characters.
+   * @param SQL - The initialized sql.js module
+   * @param sqlJsInstance - The opened database
+   * @returns The database with the collation replaced, or the given database if it does not use it
+   */
+  private static replaceUnicaseCollation(SQL: SqlJsStatic, sqlJsInstance: Database): Database {
+    try {
+      const result = sqlJsInstance.exec(
+        "SELECT count(*) FROM sqlite_master WHERE sql LIKE '%COLLATE unicase%'",
+      );
+      if (result[0]?.values[0]?.[0] === 0) {
+        return sqlJsInstance;
+      }
+
+      sqlJsInstance.exec(`
+        PRAGMA writable_schema = ON;
+        UPDATE sqlite_master SET sql = replace(sql, 'COLLATE unicase', 'COLLATE NOCASE')
+          WHERE sql LIKE '%COLLATE unicase%';
+        PRAGMA writable_schema = OFF;
+      `);
+    } catch {
+      // Unreadable databases are reported by validateSchema()
+      return sqlJsInstance;
+    }
+
+    // The changed schema is only picked up when the database is opened again
+    const data = sqlJsInstance.export();
+    sqlJsInstance.close();
+    return new SQL.Database(data);
+  }
+
   /**
    * Validates that the database has all required Anki tables.
    * @throws {AnkiDatabaseError} if any required tables are missing or database is corrupted
@@ -173,21 +299,92 @@ export class AnkiDatabase {
       }
     }
 
-    const missingTables = AnkiDatabase.REQUIRED_TABLES.filter(
+    const missingTables: string[] = AnkiDatabase.REQUIRED_TABLES.filter(
       (table) => !existingTables.has(table),
     );
 
+    // Normalized schemas need the tables that replace the JSON columns of `col`
+    if (missingTables.length === 0) {
+      let versionResult: ReturnType<Database["exec"]>;
+      try {
+        versionResult = this.sqlJsInstance.exec("SELECT ver FROM col LIMIT 1");
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new AnkiDatabaseError(
+          "corrupted",
+          `The collection table is corrupted and cannot be read: ${errorMessage}`,
+        );
+      }
+      const schemaVersion = versionResult[0]?.values[0]?.[0];
+      if (
+        typeof schemaVersion === "number" &&
+        schemaVersion >= AnkiDatabase.NORMALIZED_SCHEMA_VERSION
+      ) {
+        missingTables.push(
+          ...AnkiDatabase.REQUIRED_NORMALIZED_TABLES.filter((table) => !existingTables.has(table)),
+        );
+      }
+    }
+
     if (missingTables.length > 0) {
       const missingList = missingTables.map((t) => `'${t}'`).join(", ");
       throw new AnkiDatabaseError(
         "missing_tables",
         `The database is missing required tables: ${missingList}. This may indicate a corrupted or incompatible database.`,
-        [...missingTables],
+        missingTables,
       );
     }
   }
 
-  static async fromDump(dump: DatabaseDump): Promise<AnkiDatabase> {
+  /**
+   * Reads the schema version (`col.ver`) without parsing the rest of the collection.
+   *
+   * The layout of the collection depends on this version, so it has to be
+   * checked before the collection contents are read.
+   * @returns The schema version of the collection
+   * @throws {AnkiDatabaseError} if the `col` table has no row
+   */
+  async getSchemaVersion(): Promise<number> {
+    const row = await this.db.selectFrom("col").select("ver").executeTakeFirst();
+    if (!row) {
+      throw new AnkiDatabaseError("corrupted", "The collection table does not contain any row.");
+    }
+    return row.ver;
+  }
+
+  /**
+   * Checks whether the collection contents of a schema version can be read.
+   * @param schemaVersion - The schema version (`col.ver`)
+   * @returns True for the legacy schema and all normalized schemas up to the latest
+   */
+  static isSupportedSchemaVersion(schemaVersion: number): boolean {
+    return (
+      schemaVersion === AnkiDatabase.LEGACY_SCHEMA_VERSION ||
+      (schemaVersion >= AnkiDatabase.NORMALIZED_SCHEMA_VERSION &&
+        schemaVersion <= AnkiDatabase.LATEST_SCHEMA_VERSION)
+    );
+  }
+
+  /**
+   * Creates a database with the contents of a dump.
+   * @param dump - The contents in the schema v11 layout
+   * @param schemaVersion - The schema to write, the legacy schema (11) or the latest schema (18)
+   * @returns A new AnkiDatabase instance
+   * @throws {Error} if the schema version cannot be written
+   */
+  static async fromDump(
+    dump: DatabaseDump,
+    schemaVersion = AnkiDatabase.LEGACY_SCHEMA_VERSION,
+  ): Promise<AnkiDatabase> {
+    if (
+      schemaVersion !== AnkiDatabase.LEGACY_SCHEMA_VERSION &&
+      schemaVersion !== AnkiDatabase.LATEST_SCHEMA_VERSION
+    ) {
+      throw new Error(
+        `Collections with schema version ${schemaVersion.toFixed(0)} cannot be written.`,
+      );
+    }
+
     const SQL = await InitSqlJs();
     const sqlJsInstance = new SQL.Database();
 
@@ -202,19 +399,23 @@ export class AnkiDatabase {
     const newDb = new AnkiDatabase(db, sqlJsInstance);
     // We ignore the issues returned by executeQueries here,
     // as we are setting up the schema which is always expected to succeed.
-    await newDb.executeQueries(ankiDbSchema);
-
-    await newDb.db
-      .insertInto("col")
-      .values({
-        ...dump.collection,
-        conf: JSON.stringify(dump.collection.conf),
-        decks: JSON.stringify(dump.collection.decks),
-        dconf: JSON.stringify(dump.collection.dconf),
-        models: serializeWithBigInts(dump.collection.models),
-        tags: JSON.stringify(dump.collection.tags),
-      })
-      .execute();
+    if (schemaVersion === AnkiDatabase.LATEST_SCHEMA_VERSION) {
+      await newDb.executeQueries(ankiDbSchemaV18);
+      await newDb.insertNormalizedCollection(dump.collection);
+    } else {
+      await newDb.executeQueries(ankiDbSchema);
+      await newDb.db
+        .insertInto("col")
+        .values({
+          ...dump.collection,
+          conf: JSON.stringify(dump.collection.conf),
+          decks: JSON.stringify(dump.collection.decks),
+          dconf: JSON.stringify(dump.collection.dconf),
+          models: serializeWithBigInts(dump.collection.models),
+          tags: JSON.stringify(dump.collection.tags),
+        })
+        .execute();
+    }
     for (const card of dump.cards) {
       await newDb.db.insertInto("cards").values(card).execute();
     }
@@ -227,9 +428,89 @@ export class AnkiDatabase {
     for (const grave of dump.deletedItems) {
       await newDb.db.insertInto("graves").values(grave).execute();
     }
+
+    if (schemaVersion === AnkiDatabase.LATEST_SCHEMA_VERSION) {
+      newDb.restoreUnicaseCollation();
+    }
     return newDb;
   }
 
+  /**
+   * Writes the collection to the tables of schema v18. The JSON columns of
+   * `col` stay empty.
+   * @param collection - The collection in the schema v11 layout
+   */
+  private async insertNormalizedCollection(collection: ColTable): Promise<void> {
+    // Kysely needs a type with an index signature, which the interface lacks
+    const db = this.db.withTables<Pick<DBTablesV18, keyof DBTablesV18>>();
+
+    await this.db
+      .insertInto("col")
+      .values({
+        ...collection,
+        conf: "",
+        dconf: "",
+        decks: "",
+        models: "",
+        tags: "",
+        ver: AnkiDatabase.LATEST_SCHEMA_VERSION,
+      })
+      .execute();
+    for (const row of toConfigRows(collection.conf)) {
+      await db.insertInto("config").values(row).execute();
+    }
+    for (const deck of Object.values(collection.decks)) {
+      await db.insertInto("decks").values(toDeckRow(deck)).execute();
+    }
+    for (const deckConfig of Object.values(collection.dconf)) {
+      await db.insertInto("deck_config").values(toDeckConfigRow(deckConfig)).execute();
+    }
+    for (const noteType of Object.values(collection.models)) {
+      const rows = toNoteTypeRows(noteType);
+      await db.insertInto("notetypes").values(rows.noteType).execute();
+      for (const field of rows.fields) {
+        await db.insertInto("fields").values(field).execute();
+      }
+      for (const template of rows.templates) {
+        await db.insertInto("templates").values(template).execute();
+      }
+    }
+    for (const [tag, usn] of Object.entries(collection.tags)) {
+      await db.insertInto("tags").values({ collapsed: 0, config: null, tag, usn }).execute();
+    }
+  }
+
+  /**
+   * Declares the name columns of the normalized tables with the `unicase`
+   * collation of Anki again, see `replaceUnicaseCollation()`. The open
+   * database keeps using `NOCASE`, but these tables cannot be queried anymore
+   * once `toBuffer()` opened it again.
+   *
+   * The indexes on these columns stay sorted by `NOCASE`, and sql.js cannot
+   * register `unicase` to rebuild them. Both collations only sort names
+   * differently if they contain non-ASCII letters with upper and lower case,
+   * so `NOCASE` is kept for these databases. Otherwise Anki would find the
+   * indexes out of order and reject the collection as corrupted.
+   */
+  private restoreUnicaseCollation(): void {
+    const sqlJsInstance = this.getSqlJsInstance();
+    const names = sqlJsInstance.exec(`
+      SELECT name FROM deck_config UNION ALL SELECT name FROM fields
+      UNION ALL SELECT name FROM templates UNION ALL SELECT name FROM notetypes
+      UNION ALL SELECT name FROM decks UNION ALL SELECT tag FROM tags
+    `);
+    if (names[0]?.values.some(([name]) => typeof name === "string" && hasNonAsciiCase(name))) {
+      return;
+    }
+
+    sqlJsInstance.exec(`
+      PRAGMA writable_schema = ON;
+      UPDATE sqlite_master SET sql = replace(sql, 'COLLATE NOCASE', 'COLLATE unicase')
+        WHERE sql LIKE '%COLLATE NOCASE%';
+      PRAGMA writable_schema = OFF;
+    `);
+  }
+
   toBuffer(): Uint8Array {
     if (!this.sqlJsInstance) {
       throw new Error("Database instance not available");
@@ -252,6 +533,182 @@ export class AnkiDatabase {
     return dump;
   }
 
+  /**
+   * Converts the database to a DatabaseDump object like `toObject()`, but keeps
+   * the rows of the notes, cards and revlog tables that can still be read if
+   * parts of them are damaged.
+   *
+   * SQLite stores the rows of a table sorted by row ID in pages. Reading stops
+   * at a damaged page, so the rows before it are kept and reading continues
+   * with the first row after it. The collection itself is required and is
+   * not recovered, neither are the deleted items, which newer schemas store
+   * without row IDs.
+   * @returns The readable contents and the row ranges that were lost
+   * @throws {Error} if the collection cannot be read
+   */
+  async toRecoveredObject(): Promise<RecoveredDatabaseDump> {
+    const { collection, invalidColumns } = await this.readCollection();
+    const deletedItems = await this.getGraves();
+    const damagedRanges: DamagedRowRange[] = [];
+    const readTable = <T>(table: RecoverableTable): T[] => {
+      const { rows, damaged } = this.readRecoverableRows(table);
+      damagedRanges.push(...damaged);
+      return rows as T[];
+    };
+
+    return {
+      damagedRanges,
+      invalidColumns,
+      dump: {
+        cards: readTable<CardsTable>("cards"),
+        collection,
+        deletedItems,
+        notes: readTable<NotesTable>("notes"),
+        reviews: readTable<RevlogTable>("revlog"),
+      },
+    };
+  }
+
+  /**
+   * Reads the rows of a table in row ID order and skips the damaged ranges.
+   * @param table - The table to read
+   * @returns The rows that could be read and the ranges that could not
+   */
+  private readRecoverableRows(table: RecoverableTable): {
+    rows: Record<string, unknown>[];
+    damaged: DamagedRowRange[];
+  } {
+    const rows: Record<string, unknown>[] = [];
+    const damaged: DamagedRowRange[] = [];
+
+    let start: number | undefined = Number.MIN_SAFE_INTEGER;
+    while (start !== undefined) {
+      const { complete, lastRowId } = this.readRowsFrom(table, start, rows);
+      if (complete) {
+        break;
+      }
+
+      // The row after the last one read is damaged, even if its ID can be looked up
+      const next = this.findReadableRowId(table, (lastRowId ?? start) + 1);
+      const previous = damaged.at(-1);
+      if (lastRowId === undefined && previous) {
+        // No row could be read since the previous damaged range
+        previous.before = next;
+      } else {
+        damaged.push({ after: lastRowId, before: next, table });
+      }
+      start = next;
+    }
+
+    return { damaged, rows };
+  }
+
+  /**
+   * Reads rows until the end of the table or the first damaged page.
+   * @param table - The table to read
+   * @param start - The first row ID to read
+   * @param rows - Receives the rows that were read
+   * @returns Whether the table was read to the end, and the ID of the last row read
+   */
+  private readRowsFrom(
+    table: RecoverableTable,
+    start: number,
+    rows: Record<string, unknown>[],
+  ): { complete: boolean; lastRowId: number | undefined } {
+    const sqlJsInstance = this.getSqlJsInstance();
+    let lastRowId: number | undefined;
+
+    let statement: Statement | undefined;
+    try {
+      // The row ID is selected first, `rowid` is the `id` column in most tables
+      statement = sqlJsInstance.prepare(
+        `SELECT rowid, * FROM ${table} WHERE rowid >= ? ORDER BY rowid`,
+        [start],
+      );
+      const columns = statement.getColumnNames().slice(1);
+      while (statement.step()) {
+        const [rowId, ...values] = statement.get();
+        rows.push(Object.fromEntries(columns.map((column, index) => [column, values[index]])));
+        lastRowId = Number(rowId);
+      }
+      return { complete: true, lastRowId };
+    } catch {
+      return { complete: false, lastRowId };
+    } finally {
+      statement?.free();
+    }
+  }
+
+  /**
+   * Finds the first row that can be read after damaged rows.
+   *
+   * Looking up a row ID inside a damaged page fails, while row IDs after it
+   * can be found again. The search doubles the distance until a lookup
+   * succeeds, and then narrows down the first row ID that can be looked up.
+   * @param table - The table to search
+   * @param start - A row ID inside the damaged rows
+   * @returns The ID of the first readable row, or undefined if no row after `start` can be read
+   */
+  private findReadableRowId(table: RecoverableTable, start: number): number | undefined {
+    let unreadable = start;
+    let step = 1;
+    let probe = this.probeRowId(table, start);
+
+    // Find a row ID that can be looked up
+    let readable = start;
+    while (!probe.readable) {
+      if (unreadable >= Number.MAX_SAFE_INTEGER) {
+        return undefined;
+      }
+      readable = Math.min(start + step, Number.MAX_SAFE_INTEGER);
+      probe = this.probeRowId(table, readable);
+      if (!probe.readable) {
+        unreadable = readable;
+      }
+      step *= 2;
+    }
+
+    // Narrow down the first row ID after the damaged rows
+    while (readable - unreadable > 1) {
+      const middle = unreadable + Math.floor((readable - unreadable) / 2);
+      const middleProbe = this.probeRowId(table, middle);
+      if (middleProbe.readable) {
+        readable = middle;
+        probe = middleProbe;
+      } else {
+        unreadable = middle;
+      }
+    }
+
+    return probe.rowId;
+  }
+
+  /**
+   * Looks up the first row at or after a row ID.
+   * @param table - The table to search
+   * @param rowId - The row ID to start at
+   * @returns The ID of the row found, or whether the lookup failed
+   */
+  private probeRowId(table: RecoverableTable, rowId: number): RowProbe {
+    try {
+      const result = this.getSqlJsInstance().exec(
+        `SELECT rowid FROM ${table} WHERE rowid >= ? ORDER BY rowid LIMIT 1`,
+        [rowId],
+      );
+      const foundRowId = result[0]?.values[0]?.[0];
+      return { readable: true, rowId: foundRowId === undefined ? undefined : Number(foundRowId) };
+    } catch {
+      return { readable: false };
+    }
+  }
+
+  private getSqlJsInstance(): Database {
+    if (!this.sqlJsInstance) {
+      throw new Error("Database instance not available");
+    }
+    return this.sqlJsInstance;
+  }
+
   async executeQueries(sql: string | string[]): Promise<ConversionIssue[]> {
     const issues: ConversionIssue[] = [];
     const prepareStatements = (stmt: string) =>
@@ -286,21 +743,123 @@ export class AnkiDatabase {
     this.sqlJsInstance = undefined;
   }
 
+  /**
+   * Reads the collection, in the schema v11 layout for all schemas.
+   * @returns The collection
+   * @throws {AnkiDatabaseError} if a JSON column of the collection cannot be parsed
+   */
   async getCollection(): Promise<ColTable> {
+    const { collection, invalidColumns } = await this.readCollection();
+    const [invalidColumn] = invalidColumns;
+    if (invalidColumn) {
+      throw new AnkiDatabaseError(
+        "corrupted",
+        `The '${invalidColumn.column}' column of the collection is invalid: ${invalidColumn.reason}.`,
+      );
+    }
+    return collection;
+  }
+
+  /**
+   * Reads the collection like `getCollection()`, but replaces JSON columns
+   * that cannot be parsed with their defaults instead of failing.
+   * @returns The collection and the columns that were replaced
+   */
+  private async readCollection(): Promise<{
+    collection: ColTable;
+    invalidColumns: InvalidCollectionColumn[];
+  }> {
     const collectionRaw = await this.db.selectFrom("col").selectAll().executeTakeFirstOrThrow();
 
-    // Parse the JSON fields in the database.
-    // TODO: Handle the case where the fields do not comply with the expected types.
+    if (collectionRaw.ver >= AnkiDatabase.NORMALIZED_SCHEMA_VERSION) {
+      return { collection: await this.getNormalizedCollection(collectionRaw), invalidColumns: [] };
+    }
+
+    const invalidColumns: InvalidCollectionColumn[] = [];
+    const parseColumn = (column: CollectionJsonColumn, parse = JSON.parse): object => {
+      try {
+        const value: unknown = parse(collectionRaw[column]);
+        if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+          return value;
+        }
+        invalidColumns.push({ column, reason: "it is not a JSON object" });
+      } catch (error) {
+        invalidColumns.push({
+          column,
+          reason: `it is not valid JSON (${error instanceof Error ? error.message : String(error)})`,
+        });
+      }
+      return column === "conf" ? structuredClone(defaultConfig) : {};
+    };
+
+    // Only the JSON syntax is checked here, packages validate and repair the
+    // contents with the validators in validation.ts.
     const collection: ColTable = {
       ...collectionRaw,
-      conf: JSON.parse(collectionRaw.conf) as Config,
-      decks: JSON.parse(collectionRaw.decks) as Decks,
-      dconf: JSON.parse(collectionRaw.dconf) as DeckConfigs,
-      models: parseWithBigInts(collectionRaw.models, ["tmpls[].id", "flds[].id"]) as NoteTypes,
-      tags: JSON.parse(collectionRaw.tags) as Record<string, never>,
+      conf: parseColumn("conf") as Config,
+      decks: parseColumn("decks") as Decks,
+      dconf: parseColumn("dconf") as DeckConfigs,
+      // Older Anki versions did not assign IDs to fields and templates
+      models: parseColumn("models", (json) =>
+        parseWithBigInts(json, ["*.tmpls[].id", "*.flds[].id"], { allowNull: true }),
+      ) as NoteTypes,
+      tags: parseColumn("tags") as Record<string, number>,
     };
 
-    return collection;
+    return { collection, invalidColumns };
+  }
+
+  /**
+   * Reads the collection of a normalized schema (v15 and later) from the
+   * separate tables and converts it to the schema v11 layout.
+   * @param collectionRaw - The row of the `col` table, with empty JSON columns
+   * @returns The collection in the schema v11 layout
+   */
+  private async getNormalizedCollection(collectionRaw: DBTables["col"]): Promise<ColTable> {
+    // Kysely needs a type with an index signature, which the interface lacks
+    const db = this.db.withTables<Pick<DBTablesV18, keyof DBTablesV18>>();
+
+    const configRows = await db.selectFrom("config").selectAll().execute();
+    const deckRows = await db.selectFrom("decks").selectAll().execute();
+    const deckConfigRows = await db.selectFrom("deck_config").selectAll().execute();
+    const noteTypeRows = await db.selectFrom("notetypes").selectAll().execute();
+    const fieldRows = await db.selectFrom("fields").selectAll().execute();
+    const templateRows = await db.selectFrom("templates").selectAll().execute();
+    const tagRows = await db.selectFrom("tags").select(["tag", "usn"]).execute();
+
+    const fieldsByNoteType = new Map<number, FieldsTable[]>();
+    for (const field of fieldRows) {
+      fieldsByNoteType.set(field.ntid, [...(fieldsByNoteType.get(field.ntid) ?? []), field]);
+    }
+    const templatesByNoteType = new Map<number, TemplatesTable[]>();
+    for (const template of templateRows) {
+      templatesByNoteType.set(template.ntid, [
+        ...(templatesByNoteType.get(template.ntid) ?? []),
+        template,
+      ]);
+    }
+
+    return {
+      ...collectionRaw,
+      conf: toConfig(configRows),
+      dconf: Object.fromEntries(
+        deckConfigRows.map((row) => [row.id.toString(), toDeckConfig(row)]),
+      ),
+      decks: Object.fromEntries(deckRows.map((row) => [row.id.toString(), toDeck(row)])),
+      models: Object.fromEntries(
+        noteTypeRows.map((row) => [
+          row.id.toString(),
+          toNoteType(
+            row,
+            fieldsByNoteType.get(row.id) ?? [],
+            templatesByNoteType.get(row.id) ?? [],
+          ),
+        ]),
+      ),
+      tags: Object.fromEntries(tagRows.map((row) => [row.tag, row.usn])),
+      // The contents now follow the schema v11 layout
+      ver: AnkiDatabase.LEGACY_SCHEMA_VERSION,
+    };
   }
 
   getCards(): Promise<CardsTable[]> {
@@ -342,3 +901,17 @@ export class AnkiDatabase {
     return this.db.insertInto("revlog").values(revlog).returningAll().executeTakeFirstOrThrow();
   }
 }
+
+/**
+ * Checks whether a name contains non-ASCII letters with upper and lower case,
+ * which `NOCASE` compares case-sensitively and `unicase` does not.
+ * @param name - The name to check
+ * @returns True if `NOCASE` and `unicase` may sort the name differently
+ */
+function hasNonAsciiCase(name: string): boolean {
+  return [...name].some(
+    (char) =>
+      (char.codePointAt(0) ?? 0) > 0x7f &&
+      (char.toLowerCase() !== char || char.toUpperCase() !== char),
+  );
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { guid64, guid64FromSeed } from "./guid";
+import { generateUuid } from "./util";
+
+describe("guid64", () => {
+  it("should generate string with valid base91 characters", () => {
+    const validChars = /^[a-zA-Z0-9!#$%&()*+,\-./:;<=>?@[\\\]^_`{|}~]+$/;
+    const result = guid64();
+    expect(result).toMatch(validChars);
+  });
+
+  it("should always generate strings of max. 10 characters", () => {
+    const results = new Set<number>();
+    for (let i = 0; i < 1000; i++) {
+      const result = guid64();
+      results.add(result.length);
+      expect(result.length).toBeLessThanOrEqual(10);
+    }
+  });
+
+  it("should generate different values on each call", () => {
+    const results = new Set<string>();
+    for (let i = 0; i < 1000; i++) {
+      results.add(guid64());
+    }
+    // Should generate unique values
+    expect(results.size).toBe(1000);
+  });
+
+  it("should use crypto.getRandomValues", () => {
+    const mockGetRandomValues = vi.spyOn(crypto, "getRandomValues");
+    guid64();
+    expect(mockGetRandomValues).toHaveBeenCalledWith(expect.any(Uint8Array));
+    expect(mockGetRandomValues).toHaveBeenCalledTimes(1);
+    mockGetRandomValues.mockRestore();
+  });
+
+  it("should handle maximum uint64 value", () => {
+    const mockGetRandomValues = vi.spyOn(crypto, "getRandomValues");
+    mockGetRandomValues.mockImplementation(<T extends ArrayBufferView | null>(array: T): T => {
+      if (array instanceof Uint8Array) {
+        array.set(new Uint8Array(8).fill(255)); // All bits set to 1
+      }
+      return array;
+    });
+    const result = guid64();
+    expect(result).toBe("Rj&Z5m[>Zp");
+    mockGetRandomValues.mockRestore();
+  });
+
+  it("should encode known values correctly", () => {
+    const mockGetRandomValues = vi.spyOn(crypto, "getRandomValues");
+
+    const testCases: [Uint8Array, string, string][] = [
+      [new Uint8Array([0, 0, 0, 0, 0, 0, 0, 0]), "a", "zero"],
+      [new Uint8Array([0, 0, 0, 0, 0, 0, 0, 1]), "b", "one"],
+      [new Uint8Array([0, 0, 0, 0, 0, 0, 0, 2]), "c", "two"],
+      [new Uint8Array([0, 0, 0, 0, 0, 0, 0, 90]), "~", "last"],
+      [new Uint8Array([0, 0, 0, 0, 0, 0, 0, 91]), "ba", "first overflow"],
+      [new Uint8Array([255, 255, 255, 255, 255, 255, 255, 255]), "Rj&Z5m[>Zp", "max uint64"],
+    ];
+
+    for (const [input, expected, description] of testCases) {
+      mockGetRandomValues.mockImplementation(<T extends ArrayBufferView | null>(array: T): T => {
+        if (array instanceof Uint8Array) {
+          array.set(input);
+        }
+        return array;
+      });
+      const result = guid64();
+      expect(result, `Failed for case: ${description}`).toBe(expected);
+    }
+
+    mockGetRandomValues.mockRestore();
+  });
+});
+
+describe("guid64FromSeed", () => {
+  it("should generate the same value for the same seed", () => {
+    const uuid = generateUuid();
+
+    expect(guid64FromSeed(uuid)).toBe(guid64FromSeed(uuid));
+  });
+
+  it("should generate different values for different seeds", () => {
+    const results = new Set<string>();
+    for (let i = 0; i < 1000; i++) {
+      results.add(guid64FromSeed(generateUuid()));
+    }
+    expect(results.size).toBe(1000);
+  });
+
+  it("should encode the FNV-1a hash of the seed", () => {
+    // FNV-1a of the empty string is the offset basis 0xcbf29ce484222325
+    expect(guid64FromSeed("")).toBe("IFlLqVCGG>");
+    expect(guid64FromSeed("a")).toBe("DWWLZr=MF}");
+  });
+});
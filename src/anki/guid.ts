@@ -0,0 +1,64 @@
+/**
+ * Parameters of the 64-bit FNV-1a hash
+ */
+const FNV_OFFSET_BASIS = 0xcb_f2_9c_e4_84_22_23_25n;
+const FNV_PRIME = 0x1_00_00_00_01_b3n;
+
+/**
+ * Converts a number to a base91 string representation.
+ * @param num - The number to convert
+ * @returns The encoded string
+ */
+function base91(num: bigint): string {
+  const encodingTable =
+    "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!#$%&()*+,-./:;<=>?@[]^_`{|}~";
+
+  if (num === 0n) {
+    // Return first char for 0
+    return encodingTable.charAt(0);
+  }
+
+  let currentNum = num;
+  let buf = "";
+
+  while (currentNum) {
+    const mod = currentNum % BigInt(encodingTable.length);
+    currentNum /= BigInt(encodingTable.length);
+    const char = encodingTable.charAt(Number(mod));
+    buf = char + buf;
+  }
+
+  return buf;
+}
+
+/**
+ * Generates a base91-encoded 64-bit random number
+ * @returns A base91 encoded string representing a random 64-bit number
+ */
+export function guid64(): string {
+  return base91(getRandomInt());
+}
+
+/**
+ * Generates a base91-encoded 64-bit number that is always the same for the
+ * same seed, e.g. to keep the GUIDs of notes when they are exported again.
+ * @param seed - The string to derive the GUID from, e.g. the UUID of an SRS note
+ * @returns A base91 encoded string representing the 64-bit FNV-1a hash of the seed
+ */
+export function guid64FromSeed(seed: string): string {
+  let hash = FNV_OFFSET_BASIS;
+  for (const byte of new TextEncoder().encode(seed)) {
+    hash = BigInt.asUintN(64, (hash ^ BigInt(byte)) * FNV_PRIME);
+  }
+  return base91(hash);
+}
+
+/**
+ * Gets a random 64-bit integer (0 to 2^64 - 1)
+ * @returns A random 64-bit integer
+ */
+function getRandomInt() {
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  const bytesAsBigInt = new DataView(bytes.buffer).getBigUint64(0, false);
+  return bytesAsBigInt;
+}
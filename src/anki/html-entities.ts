@@ -0,0 +1,261 @@
+/**
+ * The named character references of HTML 4 and `&apos;`, which Anki decodes
+ * when it strips the HTML of fields. Names are case sensitive, e.g. `&Eacute;`
+ * and `&eacute;` are different characters.
+ * @see https://www.w3.org/TR/html4/sgml/entities.html
+ */
+export const HTML_ENTITIES: Readonly<Record<string, number>> = {
+  Aacute: 0xc1,
+  aacute: 0xe1,
+  Acirc: 0xc2,
+  acirc: 0xe2,
+  acute: 0xb4,
+  AElig: 0xc6,
+  aelig: 0xe6,
+  Agrave: 0xc0,
+  agrave: 0xe0,
+  alefsym: 0x21_35,
+  Alpha: 0x3_91,
+  alpha: 0x3_b1,
+  amp: 0x26,
+  and: 0x22_27,
+  ang: 0x22_20,
+  apos: 0x27,
+  Aring: 0xc5,
+  aring: 0xe5,
+  asymp: 0x22_48,
+  Atilde: 0xc3,
+  atilde: 0xe3,
+  Auml: 0xc4,
+  auml: 0xe4,
+  bdquo: 0x20_1e,
+  Beta: 0x3_92,
+  beta: 0x3_b2,
+  brvbar: 0xa6,
+  bull: 0x20_22,
+  cap: 0x22_29,
+  Ccedil: 0xc7,
+  ccedil: 0xe7,
+  cedil: 0xb8,
+  cent: 0xa2,
+  Chi: 0x3_a7,
+  chi: 0x3_c7,
+  circ: 0x2_c6,
+  clubs: 0x26_63,
+  cong: 0x22_45,
+  copy: 0xa9,
+  crarr: 0x21_b5,
+  cup: 0x22_2a,
+  curren: 0xa4,
+  Dagger: 0x20_21,
+  dagger: 0x20_20,
+  dArr: 0x21_d3,
+  darr: 0x21_93,
+  deg: 0xb0,
+  Delta: 0x3_94,
+  delta: 0x3_b4,
+  diams: 0x26_66,
+  divide: 0xf7,
+  Eacute: 0xc9,
+  eacute: 0xe9,
+  Ecirc: 0xca,
+  ecirc: 0xea,
+  Egrave: 0xc8,
+  egrave: 0xe8,
+  empty: 0x22_05,
+  emsp: 0x20_03,
+  ensp: 0x20_02,
+  Epsilon: 0x3_95,
+  epsilon: 0x3_b5,
+  equiv: 0x22_61,
+  Eta: 0x3_97,
+  eta: 0x3_b7,
+  ETH: 0xd0,
+  eth: 0xf0,
+  Euml: 0xcb,
+  euml: 0xeb,
+  euro: 0x20_ac,
+  exist: 0x22_03,
+  fnof: 0x1_92,
+  forall: 0x22_00,
+  frac12: 0xbd,
+  frac14: 0xbc,
+  frac34: 0xbe,
+  frasl: 0x20_44,
+  Gamma: 0x3_93,
+  gamma: 0x3_b3,
+  ge: 0x22_65,
+  gt: 0x3e,
+  hArr: 0x21_d4,
+  harr: 0x21_94,
+  hearts: 0x26_65,
+  hellip: 0x20_26,
+  Iacute: 0xcd,
+  iacute: 0xed,
+  Icirc: 0xce,
+  icirc: 0xee,
+  iexcl: 0xa1,
+  Igrave: 0xcc,
+  igrave: 0xec,
+  image: 0x21_11,
+  infin: 0x22_1e,
+  int: 0x22_2b,
+  Iota: 0x3_99,
+  iota: 0x3_b9,
+  iquest: 0xbf,
+  isin: 0x22_08,
+  Iuml: 0xcf,
+  iuml: 0xef,
+  Kappa: 0x3_9a,
+  kappa: 0x3_ba,
+  Lambda: 0x3_9b,
+  lambda: 0x3_bb,
+  lang: 0x23_29,
+  laquo: 0xab,
+  lArr: 0x21_d0,
+  larr: 0x21_90,
+  lceil: 0x23_08,
+  ldquo: 0x20_1c,
+  le: 0x22_64,
+  lfloor: 0x23_0a,
+  lowast: 0x22_17,
+  loz: 0x25_ca,
+  lrm: 0x20_0e,
+  lsaquo: 0x20_39,
+  lsquo: 0x20_18,
+  lt: 0x3c,
+  macr: 0xaf,
+  mdash: 0x20_14,
+  micro: 0xb5,
+  middot: 0xb7,
+  minus: 0x22_12,
+  Mu: 0x3_9c,
+  mu: 0x3_bc,
+  nabla: 0x22_07,
+  nbsp: 0xa0,
+  ndash: 0x20_13,
+  ne: 0x22_60,
+  ni: 0x22_0b,
+  not: 0xac,
+  notin: 0x22_09,
+  nsub: 0x22_84,
+  Ntilde: 0xd1,
+  ntilde: 0xf1,
+  Nu: 0x3_9d,
+  nu: 0x3_bd,
+  Oacute: 0xd3,
+  oacute: 0xf3,
+  Ocirc: 0xd4,
+  ocirc: 0xf4,
+  OElig: 0x1_52,
+  oelig: 0x1_53,
+  Ograve: 0xd2,
+  ograve: 0xf2,
+  oline: 0x20_3e,
+  Omega: 0x3_a9,
+  omega: 0x3_c9,
+  Omicron: 0x3_9f,
+  omicron: 0x3_bf,
+  oplus: 0x22_95,
+  or: 0x22_28,
+  ordf: 0xaa,
+  ordm: 0xba,
+  Oslash: 0xd8,
+  oslash: 0xf8,
+  Otilde: 0xd5,
+  otilde: 0xf5,
+  otimes: 0x22_97,
+  Ouml: 0xd6,
+  ouml: 0xf6,
+  para: 0xb6,
+  part: 0x22_02,
+  permil: 0x20_30,
+  perp: 0x22_a5,
+  Phi: 0x3_a6,
+  phi: 0x3_c6,
+  Pi: 0x3_a0,
+  pi: 0x3_c0,
+  piv: 0x3_d6,
+  plusmn: 0xb1,
+  pound: 0xa3,
+  Prime: 0x20_33,
+  prime: 0x20_32,
+  prod: 0x22_0f,
+  prop: 0x22_1d,
+  Psi: 0x3_a8,
+  psi: 0x3_c8,
+  quot: 0x22,
+  radic: 0x22_1a,
+  rang: 0x23_2a,
+  raquo: 0xbb,
+  rArr: 0x21_d2,
+  rarr: 0x21_92,
+  rceil: 0x23_09,
+  rdquo: 0x20_1d,
+  real: 0x21_1c,
+  reg: 0xae,
+  rfloor: 0x23_0b,
+  Rho: 0x3_a1,
+  rho: 0x3_c1,
+  rlm: 0x20_0f,
+  rsaquo: 0x20_3a,
+  rsquo: 0x20_19,
+  sbquo: 0x20_1a,
+  Scaron: 0x1_60,
+  scaron: 0x1_61,
+  sdot: 0x22_c5,
+  sect: 0xa7,
+  shy: 0xad,
+  Sigma: 0x3_a3,
+  sigma: 0x3_c3,
+  sigmaf: 0x3_c2,
+  sim: 0x22_3c,
+  spades: 0x26_60,
+  sub: 0x22_82,
+  sube: 0x22_86,
+  sum: 0x22_11,
+  sup: 0x22_83,
+  sup1: 0xb9,
+  sup2: 0xb2,
+  sup3: 0xb3,
+  supe: 0x22_87,
+  szlig: 0xdf,
+  Tau: 0x3_a4,
+  tau: 0x3_c4,
+  there4: 0x22_34,
+  Theta: 0x3_98,
+  theta: 0x3_b8,
+  thetasym: 0x3_d1,
+  thinsp: 0x20_09,
+  THORN: 0xde,
+  thorn: 0xfe,
+  tilde: 0x2_dc,
+  times: 0xd7,
+  trade: 0x21_22,
+  Uacute: 0xda,
+  uacute: 0xfa,
+  uArr: 0x21_d1,
+  uarr: 0x21_91,
+  Ucirc: 0xdb,
+  ucirc: 0xfb,
+  Ugrave: 0xd9,
+  ugrave: 0xf9,
+  uml: 0xa8,
+  upsih: 0x3_d2,
+  Upsilon: 0x3_a5,
+  upsilon: 0x3_c5,
+  Uuml: 0xdc,
+  uuml: 0xfc,
+  weierp: 0x21_18,
+  Xi: 0x3_9e,
+  xi: 0x3_be,
+  Yacute: 0xdd,
+  yacute: 0xfd,
+  yen: 0xa5,
+  Yuml: 0x1_78,
+  yuml: 0xff,
+  Zeta: 0x3_96,
+  zeta: 0x3_b6,
+  zwj: 0x20_0d,
+  zwnj: 0x20_0c,
+};
@@ -0,0 +1,54 @@
+import protobuf from "protobufjs";
+
+/**
+ * The media mapping of the latest (v3) export format.
+ *
+ * Legacy packages map the names of the media files in the archive to their
+ * file names with a JSON object. The latest format replaces it with a list of
+ * protobuf messages, the position of an entry in the list is the name of the
+ * media file in the archive.
+ * @see https://github.com/ankitects/anki/blob/main/proto/anki/import_export.proto
+ */
+
+export interface MediaEntryMessage {
+  name: string;
+  size: number;
+  sha1: Uint8Array;
+}
+
+export interface MediaEntriesMessage {
+  entries: MediaEntryMessage[];
+}
+
+const root = new protobuf.Root();
+
+const MediaEntry = new protobuf.Type("MediaEntry")
+  .add(new protobuf.Field("name", 1, "string"))
+  .add(new protobuf.Field("size", 2, "uint32"))
+  .add(new protobuf.Field("sha1", 3, "bytes"));
+
+const MediaEntries = new protobuf.Type("MediaEntries").add(
+  new protobuf.Field("entries", 1, "MediaEntry", "repeated"),
+);
+
+root.add(MediaEntry);
+root.add(MediaEntries);
+
+/**
+ * Parses the media mapping of the latest export format.
+ * @param buffer - The decompressed contents of the `media` file
+ * @returns The decoded media entries
+ */
+export function parseMediaEntries(buffer: Uint8Array): MediaEntriesMessage {
+  const decoded = MediaEntries.decode(buffer);
+  return MediaEntries.toObject(decoded, { arrays: true, defaults: true }) as MediaEntriesMessage;
+}
+
+/**
+ * Writes the media mapping of the latest export format.
+ * @param message - The media entries, in the order of the media files in the archive
+ * @returns The contents of the `media` file before compression
+ */
+export function writeMediaEntries(message: MediaEntriesMessage): Uint8Array {
+  return MediaEntries.encode(message).finish();
+}
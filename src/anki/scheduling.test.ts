@@ -0,0 +1,271 @@
+import { describe, expect, it } from "vitest";
+
+import { SrsReviewScore, createReview } from "@/srs-package";
+
+import { defaultDeckConfig } from "./constants";
+import type { CardSchedulingState, ReviewLogState } from "./scheduling";
+import {
+  getReviewLogData,
+  getSchedulingData,
+  replayReviews,
+  restoreReviewLog,
+  restoreSchedulingState,
+} from "./scheduling";
+import { CardType, QueueType, ReviewType } from "./types";
+
+const collectionCreated = 1_700_000_000;
+const day = 86_400;
+
+// Reviews of one card, the first one is on the day the collection was created
+function createReviews(scores: SrsReviewScore[], secondsBetween = day) {
+  return scores.map((score, index) =>
+    createReview({
+      cardId: "card",
+      score,
+      timestamp: (collectionCreated + index * secondsBetween) * 1000,
+    }),
+  );
+}
+
+function replay(scores: SrsReviewScore[], secondsBetween = day) {
+  const reviews = createReviews(scores, secondsBetween);
+  const { cardState, reviewLogs } = replayReviews(reviews, {
+    collectionCreated,
+    deckConfig: defaultDeckConfig,
+    newPosition: 7,
+  });
+  return { cardState, reviewLogs: reviews.map((review) => reviewLogs.get(review.id)) };
+}
+
+function derive(scores: SrsReviewScore[], secondsBetween = day) {
+  return replay(scores, secondsBetween).cardState;
+}
+
+const reviewCard: CardSchedulingState = {
+  due: 120,
+  factor: 2350,
+  ivl: 30,
+  lapses: 1,
+  left: 0,
+  queue: QueueType.REVIEW,
+  reps: 12,
+  type: CardType.REVIEW,
+};
+
+describe("Scheduling", () => {
+  describe("replayReviews()", () => {
+    it("should keep cards without reviews new", () => {
+      expect(derive([])).toEqual({
+        due: 7,
+        factor: 0,
+        ivl: 0,
+        lapses: 0,
+        left: 0,
+        queue: QueueType.NEW,
+        reps: 0,
+        type: CardType.NEW,
+      });
+    });
+
+    it("should keep cards in learning until all learning steps are passed", () => {
+      expect(derive([SrsReviewScore.Normal], 60)).toEqual({
+        due: collectionCreated + 10 * 60,
+        factor: 2500,
+        ivl: 0,
+        lapses: 0,
+        left: 1001,
+        queue: QueueType.LEARN,
+        reps: 1,
+        type: CardType.LEARN,
+      });
+    });
+
+    it("should graduate cards to review cards", () => {
+      expect(derive([SrsReviewScore.Normal, SrsReviewScore.Normal], 600)).toMatchObject({
+        due: 1,
+        ivl: 1,
+        queue: QueueType.REVIEW,
+        type: CardType.REVIEW,
+      });
+      expect(derive([SrsReviewScore.Easy])).toMatchObject({ due: 4, ivl: 4, reps: 1 });
+    });
+
+    it("should grow intervals with the ease of review cards", () => {
+      const state = derive([
+        SrsReviewScore.Easy,
+        SrsReviewScore.Normal,
+        SrsReviewScore.Hard,
+        SrsReviewScore.Easy,
+      ]);
+
+      // 4 days, 4 * 2.5 = 10 days, 10 * 1.2 = 12 days, 12 * 2.35 * 1.3 = 37 days
+      expect(state).toMatchObject({ due: 3 + 37, factor: 2500, ivl: 37, reps: 4 });
+    });
+
+    it("should relearn forgotten review cards", () => {
+      const state = derive([SrsReviewScore.Easy, SrsReviewScore.Normal, SrsReviewScore.Again]);
+
+      expect(state).toEqual({
+        due: collectionCreated + 2 * day + 10 * 60,
+        factor: 2300,
+        ivl: 1,
+        lapses: 1,
+        left: 1001,
+        queue: QueueType.LEARN,
+        reps: 3,
+        type: CardType.RELEARN,
+      });
+      expect(
+        derive([
+          SrsReviewScore.Easy,
+          SrsReviewScore.Normal,
+          SrsReviewScore.Again,
+          SrsReviewScore.Normal,
+        ]),
+      ).toMatchObject({ due: 3 + 1, ivl: 1, queue: QueueType.REVIEW, type: CardType.REVIEW });
+    });
+
+    it("should apply the reviews in chronological order", () => {
+      const [first, second] = createReviews([SrsReviewScore.Normal, SrsReviewScore.Again], 600);
+      const reviews = [second, first].filter((review) => review !== undefined);
+
+      const { cardState } = replayReviews(reviews, {
+        collectionCreated,
+        deckConfig: defaultDeckConfig,
+        newPosition: 1,
+      });
+
+      expect(cardState).toMatchObject({ left: 2002, queue: QueueType.LEARN, type: CardType.LEARN });
+    });
+
+    it("should derive the review log entries", () => {
+      const { reviewLogs } = replay(
+        [SrsReviewScore.Normal, SrsReviewScore.Normal, SrsReviewScore.Normal, SrsReviewScore.Again],
+        600,
+      );
+
+      expect(reviewLogs).toEqual([
+        { factor: 2500, ivl: -600, lastIvl: 0, time: 0, type: ReviewType.LEARNING },
+        { factor: 2500, ivl: 1, lastIvl: -600, time: 0, type: ReviewType.LEARNING },
+        { factor: 2500, ivl: 3, lastIvl: 1, time: 0, type: ReviewType.REVIEW },
+        { factor: 2300, ivl: -600, lastIvl: 3, time: 0, type: ReviewType.REVIEW },
+      ]);
+    });
+  });
+
+  describe("getSchedulingData() and restoreSchedulingState()", () => {
+    it("should restore the state of cards", () => {
+      const data = getSchedulingData(reviewCard, collectionCreated);
+
+      expect(data).toEqual({
+        ankiCollectionCreated: "1700000000",
+        ankiDue: "120",
+        ankiFactor: "2350",
+        ankiIvl: "30",
+        ankiLapses: "1",
+        ankiLeft: "0",
+        ankiQueue: "2",
+        ankiReps: "12",
+        ankiType: "2",
+      });
+      expect(restoreSchedulingState(data, derive([]), collectionCreated)).toEqual(reviewCard);
+    });
+
+    it("should move due dates to the creation of the other collection", () => {
+      const data = getSchedulingData(reviewCard, collectionCreated);
+
+      const state = restoreSchedulingState(data, derive([]), collectionCreated - 100 * day);
+
+      expect(state.due).toBe(220);
+    });
+
+    it("should not move due dates of learning cards", () => {
+      const learningCard = { ...reviewCard, due: collectionCreated, queue: QueueType.LEARN };
+      const data = getSchedulingData(learningCard, collectionCreated);
+
+      expect(data).not.toHaveProperty("ankiCollectionCreated");
+      expect(restoreSchedulingState(data, derive([]), 0)).toEqual(learningCard);
+    });
+
+    it("should use the derived state for missing or invalid values", () => {
+      const derivedState = derive([SrsReviewScore.Easy]);
+
+      const state = restoreSchedulingState(
+        { ankiDue: "12", ankiQueue: "9", ankiReps: "many", ankiType: "2" },
+        derivedState,
+        collectionCreated,
+      );
+
+      expect(state).toEqual({ ...derivedState, due: 12, type: CardType.REVIEW });
+    });
+
+    it("should use the derived state if the values of new or learning cards are incomplete", () => {
+      const derivedState = derive([SrsReviewScore.Normal]);
+
+      const state = restoreSchedulingState(
+        { ankiDue: "12", ankiQueue: "0", ankiType: "0" },
+        derivedState,
+        collectionCreated,
+      );
+
+      expect(state).toEqual(derivedState);
+    });
+
+    it("should restore review cards of packages that only kept due, queue and type", () => {
+      const derivedState = derive([]);
+
+      const state = restoreSchedulingState(
+        { ankiDue: "30", ankiQueue: "2", ankiType: "2" },
+        derivedState,
+        collectionCreated,
+      );
+
+      expect(state).toEqual({
+        ...derivedState,
+        due: 30,
+        factor: defaultDeckConfig.new.initialFactor,
+        ivl: 1,
+        queue: QueueType.REVIEW,
+        type: CardType.REVIEW,
+      });
+    });
+  });
+
+  describe("getReviewLogData() and restoreReviewLog()", () => {
+    const reviewLog: ReviewLogState = {
+      factor: 2650,
+      ivl: 45,
+      lastIvl: 20,
+      time: 8500,
+      type: ReviewType.FILTERED,
+    };
+    const derivedLog: ReviewLogState = {
+      factor: 2500,
+      ivl: 1,
+      lastIvl: 0,
+      time: 0,
+      type: ReviewType.LEARNING,
+    };
+
+    it("should restore review log entries", () => {
+      const data = getReviewLogData(reviewLog);
+
+      expect(data).toEqual({
+        ankiFactor: "2650",
+        ankiIvl: "45",
+        ankiLastIvl: "20",
+        ankiTime: "8500",
+        ankiType: "3",
+      });
+      expect(restoreReviewLog(data, derivedLog)).toEqual(reviewLog);
+    });
+
+    it("should use the derived entry for missing or invalid values", () => {
+      expect(restoreReviewLog({ ankiIvl: "-600", ankiType: "12" }, derivedLog)).toEqual({
+        ...derivedLog,
+        ivl: -600,
+      });
+      expect(restoreReviewLog(undefined, derivedLog)).toEqual(derivedLog);
+    });
+  });
+});
@@ -0,0 +1,352 @@
+import type { SrsReview } from "@/srs-package";
+import { SrsReviewScore } from "@/srs-package";
+
+import { defaultDeckConfig } from "./constants";
+import type { CardsTable, DeckConfig, RevlogTable } from "./types";
+import { CardType, QueueType, ReviewType } from "./types";
+
+/**
+ * Scheduling state of Anki cards and reviews.
+ *
+ * Cards and reviews converted from Anki keep the columns the universal format
+ * has no place for in their application specific data, so they can be
+ * restored when they are converted back. For other cards, they are derived by
+ * replaying the review history with the SM-2 algorithm of the Anki v2
+ * scheduler, without the fuzz Anki adds to intervals.
+ */
+
+/**
+ * The columns of the `cards` table that describe where a card is in the
+ * learning process
+ */
+export type CardSchedulingState = Pick<
+  CardsTable,
+  "due" | "factor" | "ivl" | "lapses" | "left" | "queue" | "reps" | "type"
+>;
+
+/**
+ * The columns of the `revlog` table that are not part of the universal format
+ */
+export type ReviewLogState = Pick<RevlogTable, "factor" | "ivl" | "lastIvl" | "time" | "type">;
+
+/**
+ * The keys of the application specific data the scheduling state is kept in.
+ * `ankiDue`, `ankiQueue` and `ankiType` are also set by older versions.
+ */
+const SCHEDULING_DATA_KEYS = {
+  due: "ankiDue",
+  factor: "ankiFactor",
+  ivl: "ankiIvl",
+  lapses: "ankiLapses",
+  left: "ankiLeft",
+  queue: "ankiQueue",
+  reps: "ankiReps",
+  type: "ankiType",
+} as const satisfies Record<keyof CardSchedulingState, string>;
+
+/**
+ * The keys of the application specific data of reviews the review log entries
+ * are kept in
+ */
+const REVIEW_LOG_DATA_KEYS = {
+  factor: "ankiFactor",
+  ivl: "ankiIvl",
+  lastIvl: "ankiLastIvl",
+  time: "ankiTime",
+  type: "ankiType",
+} as const satisfies Record<keyof ReviewLogState, string>;
+
+/**
+ * How reviews are logged in each phase of the learning process
+ */
+const REVIEW_TYPES_BY_CARD_TYPE: Record<CardType, ReviewType> = {
+  [CardType.NEW]: ReviewType.LEARNING,
+  [CardType.LEARN]: ReviewType.LEARNING,
+  [CardType.REVIEW]: ReviewType.REVIEW,
+  [CardType.RELEARN]: ReviewType.RELEARNING,
+};
+
+/**
+ * When the collection the card was converted from was created, as the due
+ * dates of review cards are counted in days from then
+ */
+const COLLECTION_CREATED_KEY = "ankiCollectionCreated";
+
+const SECONDS_PER_DAY = 86_400;
+const MINIMUM_FACTOR = 1300;
+const INITIAL_FACTOR = defaultDeckConfig.new.initialFactor;
+
+/**
+ * Gets the application specific data to keep the scheduling state of a card.
+ * @param card - The Anki card
+ * @param collectionCreated - When the collection of the card was created (unixtime in seconds)
+ * @returns The application specific data
+ */
+export function getSchedulingData(
+  card: CardSchedulingState,
+  collectionCreated: number,
+): Record<string, string> {
+  const data: Record<string, string> = {};
+  for (const [property, key] of Object.entries(SCHEDULING_DATA_KEYS)) {
+    data[key] = card[property as keyof CardSchedulingState].toFixed(0);
+  }
+  if (isDueInDays(card)) {
+    data[COLLECTION_CREATED_KEY] = collectionCreated.toFixed(0);
+  }
+  return data;
+}
+
+/**
+ * Restores the scheduling state kept in the application specific data of a
+ * card. The state is only restored if all values are present and valid,
+ * otherwise the derived state is used.
+ *
+ * Older versions only kept `ankiDue`, `ankiQueue` and `ankiType`. Review and
+ * relearning cards keep these as well, the other values are taken from the
+ * derived state, with the initial ease factor and an interval of at least one
+ * day if the card was not reviewed in the universal format.
+ * @param applicationSpecificData - The application specific data of the SRS card
+ * @param derivedState - The state derived from the review history of the card
+ * @param collectionCreated - When the collection the card is added to was created (unixtime in seconds)
+ * @returns The scheduling state of the card
+ */
+export function restoreSchedulingState(
+  applicationSpecificData: Record<string, string> | undefined,
+  derivedState: CardSchedulingState,
+  collectionCreated: number,
+): CardSchedulingState {
+  const storedState: Partial<Record<keyof CardSchedulingState, number>> = {};
+  for (const [property, key] of Object.entries(SCHEDULING_DATA_KEYS)) {
+    const value = parseInteger(applicationSpecificData?.[key]);
+    if (value !== undefined) {
+      storedState[property as keyof CardSchedulingState] = value;
+    }
+  }
+  const { factor, ivl, queue, type } = storedState;
+  const validQueue = queue !== undefined && queue in QueueType ? (queue as QueueType) : undefined;
+  const validType = type !== undefined && type in CardType ? (type as CardType) : undefined;
+
+  let restoredState: CardSchedulingState;
+  if (validType === CardType.REVIEW || validType === CardType.RELEARN) {
+    restoredState = {
+      ...derivedState,
+      ...storedState,
+      factor: factor ?? (derivedState.factor > 0 ? derivedState.factor : INITIAL_FACTOR),
+      ivl: ivl ?? Math.max(derivedState.ivl, 1),
+      queue: validQueue ?? derivedState.queue,
+      type: validType,
+    };
+  } else if (
+    validQueue !== undefined &&
+    validType !== undefined &&
+    Object.keys(storedState).length === Object.keys(SCHEDULING_DATA_KEYS).length
+  ) {
+    restoredState = { ...derivedState, ...storedState, queue: validQueue, type: validType };
+  } else {
+    return derivedState;
+  }
+
+  // Due dates in days have to be moved if the collections were created on different days
+  const originalCollectionCreated = parseInteger(applicationSpecificData?.[COLLECTION_CREATED_KEY]);
+  if (originalCollectionCreated !== undefined && isDueInDays(restoredState)) {
+    restoredState.due += Math.round(
+      (originalCollectionCreated - collectionCreated) / SECONDS_PER_DAY,
+    );
+  }
+  return restoredState;
+}
+
+/**
+ * Gets the application specific data to keep the review log entry of a review.
+ * @param review - The Anki review
+ * @returns The application specific data
+ */
+export function getReviewLogData(review: ReviewLogState): Record<string, string> {
+  const data: Record<string, string> = {};
+  for (const [property, key] of Object.entries(REVIEW_LOG_DATA_KEYS)) {
+    data[key] = review[property as keyof ReviewLogState].toFixed(0);
+  }
+  return data;
+}
+
+/**
+ * Restores the review log entry kept in the application specific data of a
+ * review. Values that are missing or invalid are taken from the derived entry.
+ * @param applicationSpecificData - The application specific data of the SRS review
+ * @param derivedLog - The entry derived from the review history of the card
+ * @returns The review log entry
+ */
+export function restoreReviewLog(
+  applicationSpecificData: Record<string, string> | undefined,
+  derivedLog: ReviewLogState,
+): ReviewLogState {
+  const log: Record<keyof ReviewLogState, number> = { ...derivedLog };
+  for (const [property, key] of Object.entries(REVIEW_LOG_DATA_KEYS)) {
+    const value = parseInteger(applicationSpecificData?.[key]);
+    if (value !== undefined) {
+      log[property as keyof ReviewLogState] = value;
+    }
+  }
+  return { ...log, type: log.type in ReviewType ? (log.type as ReviewType) : derivedLog.type };
+}
+
+/**
+ * Gets the scheduling state of a card that was not studied yet.
+ * @param position - The position of the card in the queue of new cards
+ * @returns The scheduling state of the new card
+ */
+export function getNewCardState(position: number): CardSchedulingState {
+  return {
+    due: position,
+    factor: 0,
+    ivl: 0,
+    lapses: 0,
+    left: 0,
+    queue: QueueType.NEW,
+    reps: 0,
+    type: CardType.NEW,
+  };
+}
+
+/**
+ * Replays the review history of a card to derive its scheduling state and
+ * the review log entries Anki would have written.
+ * @param reviews - The reviews of the card, in any order
+ * @param options - The deck configuration of the card, when the collection was created (unixtime in seconds) and the position of new cards
+ * @returns The scheduling state after the last review, and the review log entries by review ID
+ */
+export function replayReviews(
+  reviews: readonly SrsReview[],
+  options: { collectionCreated: number; deckConfig: DeckConfig; newPosition: number },
+): { cardState: CardSchedulingState; reviewLogs: Map<string, ReviewLogState> } {
+  const { collectionCreated, deckConfig, newPosition } = options;
+  const state = getNewCardState(newPosition);
+  const reviewLogs = new Map<string, ReviewLogState>();
+  let step = 0;
+  let lastIvl = 0;
+
+  const sortedReviews = [...reviews].sort((a, b) => a.timestamp - b.timestamp);
+  for (const review of sortedReviews) {
+    const reviewed = Math.floor(review.timestamp / 1000);
+    const reviewDay = Math.floor((reviewed - collectionCreated) / SECONDS_PER_DAY);
+    const reviewType = REVIEW_TYPES_BY_CARD_TYPE[state.type];
+    state.reps++;
+
+    if (state.type === CardType.REVIEW) {
+      if (review.score === SrsReviewScore.Again) {
+        state.lapses++;
+        state.factor = Math.max(MINIMUM_FACTOR, state.factor - 200);
+        state.ivl = Math.max(
+          deckConfig.lapse.minInt,
+          Math.round(state.ivl * deckConfig.lapse.mult),
+          1,
+        );
+        state.type = CardType.RELEARN;
+        step = 0;
+      } else {
+        state.ivl = Math.min(
+          getNextInterval(state, review.score, deckConfig),
+          deckConfig.rev.maxIvl,
+        );
+        if (review.score === SrsReviewScore.Hard) {
+          state.factor = Math.max(MINIMUM_FACTOR, state.factor - 150);
+        } else if (review.score === SrsReviewScore.Easy) {
+          state.factor += 150;
+        }
+      }
+    } else {
+      if (state.type === CardType.NEW) {
+        state.type = CardType.LEARN;
+        state.factor = deckConfig.new.initialFactor;
+      }
+
+      if (review.score === SrsReviewScore.Again) {
+        step = 0;
+      } else if (review.score === SrsReviewScore.Normal) {
+        step++;
+      } else if (review.score === SrsReviewScore.Easy) {
+        // Easy graduates learning cards immediately
+        step = Number.POSITIVE_INFINITY;
+        if (state.type === CardType.LEARN) {
+          state.ivl = deckConfig.new.ints[1];
+        }
+      }
+
+      const steps = state.type === CardType.LEARN ? deckConfig.new.delays : deckConfig.lapse.delays;
+      if (step >= steps.length) {
+        if (state.type === CardType.LEARN && review.score !== SrsReviewScore.Easy) {
+          state.ivl = deckConfig.new.ints[0];
+        }
+        state.type = CardType.REVIEW;
+      }
+    }
+
+    // Cards still in (re)learning wait for the delay of their current step
+    const steps = state.type === CardType.LEARN ? deckConfig.new.delays : deckConfig.lapse.delays;
+    const delay = steps[step];
+    if (state.type !== CardType.REVIEW && delay !== undefined) {
+      const remainingSteps = steps.length - step;
+      state.queue = QueueType.LEARN;
+      state.due = reviewed + Math.round(delay * 60);
+      // The steps left today in the thousands and the steps left until graduation
+      state.left = remainingSteps * 1000 + remainingSteps;
+    } else {
+      state.type = CardType.REVIEW;
+      state.queue = QueueType.REVIEW;
+      state.due = reviewDay + state.ivl;
+      state.left = 0;
+    }
+
+    // Learning steps are logged as negative intervals in seconds, the duration of reviews is unknown
+    const ivl = state.queue === QueueType.LEARN ? reviewed - state.due : state.ivl;
+    reviewLogs.set(review.id, { factor: state.factor, ivl, lastIvl, time: 0, type: reviewType });
+    lastIvl = ivl;
+  }
+
+  return { cardState: state, reviewLogs };
+}
+
+/**
+ * Calculates the interval of a review card that was remembered.
+ * @param state - The scheduling state before the review
+ * @param score - How well the card was remembered
+ * @param deckConfig - The deck configuration of the card
+ * @returns The next interval in days, at least one day longer than the current interval
+ */
+function getNextInterval(
+  state: CardSchedulingState,
+  score: SrsReviewScore,
+  deckConfig: DeckConfig,
+): number {
+  const { ease4, hardFactor, ivlFct } = deckConfig.rev;
+  const ease = state.factor / 1000;
+  const multiplier =
+    score === SrsReviewScore.Hard
+      ? hardFactor
+      : score === SrsReviewScore.Easy
+        ? ease * ease4
+        : ease;
+  return Math.max(state.ivl + 1, Math.round(state.ivl * multiplier * ivlFct));
+}
+
+/**
+ * Checks if the due date of a card is counted in days from the creation of
+ * the collection, instead of being a position or a timestamp.
+ * @param card - The scheduling state of the card
+ * @returns Whether the card is due on a day
+ */
+function isDueInDays(card: CardSchedulingState): boolean {
+  return (
+    card.queue === QueueType.REVIEW ||
+    card.queue === QueueType.DAYLEARN ||
+    (card.queue < 0 && card.type === CardType.REVIEW)
+  );
+}
+
+function parseInteger(value: string | undefined): number | undefined {
+  if (value === undefined || !/^-?\d+$/.test(value)) {
+    return undefined;
+  }
+  const number = Number(value);
+  return Number.isSafeInteger(number) ? number : undefined;
+}
@@ -0,0 +1,1067 @@
+/**
+ * Converts the normalized tables of schema v15-v18 into the JSON objects of
+ * schema v11, in the same way Anki does when downgrading a collection, and
+ * the JSON objects back into the tables of schema v18 like Anki does when
+ * upgrading it.
+ * @see https://github.com/ankitects/anki/blob/main/proto/anki/decks.proto
+ * @see https://github.com/ankitects/anki/blob/main/proto/anki/notetypes.proto
+ * @see https://github.com/ankitects/anki/blob/main/proto/anki/deck_config.proto
+ */
+
+import protobuf from "protobufjs";
+
+import type { Config, Deck, DeckConfig, Field, NoteType } from "./types";
+import { DeckDynamicity } from "./types";
+import type {
+  ConfigTable,
+  DeckConfigTable,
+  DecksTable,
+  FieldsTable,
+  NoteTypesTable,
+  TemplatesTable,
+} from "./types-v18";
+
+/** Separator of the deck hierarchy levels in the `decks` table. */
+const DECK_NAME_SEPARATOR = "\u001F";
+
+/**
+ * The properties of filtered decks in schema v11, which `Deck` does not
+ * represent.
+ */
+interface FilteredDeckProperties {
+  resched: boolean;
+  terms: [search: string, limit: number, order: number][];
+  /** Unused, but required by old Anki versions */
+  separate: boolean;
+  delays: number[] | null;
+  previewDelay: number;
+  previewAgainSecs: number;
+  previewHardSecs: number;
+  previewGoodSecs: number;
+}
+
+// #region Protobuf messages
+
+interface DeckCommonMessage {
+  studyCollapsed: boolean;
+  browserCollapsed: boolean;
+  lastDayStudied: number;
+  newStudied: number;
+  reviewStudied: number;
+  learningStudied: number;
+  millisecondsStudied: number;
+  other: Uint8Array;
+}
+
+interface DayLimitMessage {
+  limit: number;
+  today: number;
+}
+
+interface DeckNormalMessage {
+  configId: string;
+  extendNew: number;
+  extendReview: number;
+  description: string;
+  reviewLimit?: number;
+  newLimit?: number;
+  reviewLimitToday?: DayLimitMessage;
+  newLimitToday?: DayLimitMessage;
+}
+
+interface FilteredSearchTermMessage {
+  search: string;
+  limit: number;
+  order: number;
+}
+
+interface DeckFilteredMessage {
+  reschedule: boolean;
+  searchTerms: FilteredSearchTermMessage[];
+  delays: number[];
+  previewDelay: number;
+  previewAgainSecs: number;
+  previewHardSecs: number;
+  previewGoodSecs: number;
+}
+
+interface DeckKindMessage {
+  normal?: DeckNormalMessage;
+  filtered?: DeckFilteredMessage;
+}
+
+interface DeckConfigMessage {
+  learnSteps: number[];
+  relearnSteps: number[];
+  fsrsParams4: number[];
+  newPerDay: number;
+  reviewsPerDay: number;
+  initialEase: number;
+  easyMultiplier: number;
+  hardMultiplier: number;
+  lapseMultiplier: number;
+  intervalMultiplier: number;
+  maximumReviewInterval: number;
+  minimumLapseInterval: number;
+  graduatingIntervalGood: number;
+  graduatingIntervalEasy: number;
+  newCardInsertOrder: number;
+  leechAction: number;
+  leechThreshold: number;
+  disableAutoplay: boolean;
+  capAnswerTimeToSecs: number;
+  showTimer: boolean;
+  skipQuestionWhenReplayingAnswer: boolean;
+  buryNew: boolean;
+  buryReviews: boolean;
+  buryInterdayLearning: boolean;
+  newMix: number;
+  interdayLearningMix: number;
+  newCardSortOrder: number;
+  reviewOrder: number;
+  newCardGatherPriority: number;
+  newPerDayMinimum: number;
+  desiredRetention: number;
+  stopTimerOnAnswer: boolean;
+  historicalRetention: number;
+  secondsToShowQuestion: number;
+  secondsToShowAnswer: number;
+  answerAction: number;
+  waitForAudio: boolean;
+  paramSearch: string;
+  ignoreRevlogsBeforeDate: string;
+  questionAction: number;
+  other: Uint8Array;
+}
+
+interface CardRequirementMessage {
+  cardOrd: number;
+  kind: number;
+  fieldOrds: number[];
+}
+
+interface NoteTypeConfigMessage {
+  kind: number;
+  sortFieldIdx: number;
+  css: string;
+  targetDeckIdUnused: string;
+  latexPre: string;
+  latexPost: string;
+  latexSvg: boolean;
+  reqs: CardRequirementMessage[];
+  originalStockKind: number;
+  other: Uint8Array;
+}
+
+interface FieldConfigMessage {
+  sticky: boolean;
+  rtl: boolean;
+  fontName: string;
+  fontSize: number;
+  description: string;
+  plainText: boolean;
+  collapsed: boolean;
+  excludeFromSearch: boolean;
+  id?: string;
+  tag?: number;
+  preventDeletion: boolean;
+  other: Uint8Array;
+}
+
+interface TemplateConfigMessage {
+  qFormat: string;
+  aFormat: string;
+  qFormatBrowser: string;
+  aFormatBrowser: string;
+  targetDeckId: string;
+  browserFontName: string;
+  browserFontSize: number;
+  id?: string;
+  other: Uint8Array;
+}
+
+/**
+ * Adds a field that is declared `optional` in the proto3 definition.
+ * These are wrapped in a synthetic oneof, so they are only present in the
+ * decoded object when they were set.
+ * @param type - The message type to add the field to
+ * @param field - The optional field
+ * @returns The message type
+ */
+function addOptionalField(type: protobuf.Type, field: protobuf.Field): protobuf.Type {
+  return type.add(field).add(new protobuf.OneOf(`_${field.name}`, [field.name]));
+}
+
+const root = new protobuf.Root();
+
+const DeckCommon = new protobuf.Type("DeckCommon")
+  .add(new protobuf.Field("studyCollapsed", 1, "bool"))
+  .add(new protobuf.Field("browserCollapsed", 2, "bool"))
+  .add(new protobuf.Field("lastDayStudied", 3, "uint32"))
+  .add(new protobuf.Field("newStudied", 4, "int32"))
+  .add(new protobuf.Field("reviewStudied", 5, "int32"))
+  .add(new protobuf.Field("learningStudied", 6, "int32"))
+  .add(new protobuf.Field("millisecondsStudied", 7, "int32"))
+  .add(new protobuf.Field("other", 255, "bytes"));
+
+const DayLimit = new protobuf.Type("DayLimit")
+  .add(new protobuf.Field("limit", 1, "uint32"))
+  .add(new protobuf.Field("today", 2, "uint32"));
+
+const DeckNormal = new protobuf.Type("DeckNormal")
+  .add(new protobuf.Field("configId", 1, "int64"))
+  .add(new protobuf.Field("extendNew", 2, "uint32"))
+  .add(new protobuf.Field("extendReview", 3, "uint32"))
+  .add(new protobuf.Field("description", 4, "string"));
+addOptionalField(DeckNormal, new protobuf.Field("reviewLimit", 6, "uint32"));
+addOptionalField(DeckNormal, new protobuf.Field("newLimit", 7, "uint32"));
+DeckNormal.add(new protobuf.Field("reviewLimitToday", 8, "DayLimit")).add(
+  new protobuf.Field("newLimitToday", 9, "DayLimit"),
+);
+
+const FilteredSearchTerm = new protobuf.Type("FilteredSearchTerm")
+  .add(new protobuf.Field("search", 1, "string"))
+  .add(new protobuf.Field("limit", 2, "uint32"))
+  .add(new protobuf.Field("order", 3, "int32"));
+
+const DeckFiltered = new protobuf.Type("DeckFiltered")
+  .add(new protobuf.Field("reschedule", 1, "bool"))
+  .add(new protobuf.Field("searchTerms", 2, "FilteredSearchTerm", "repeated"))
+  .add(new protobuf.Field("delays", 3, "float", "repeated"))
+  .add(new protobuf.Field("previewDelay", 4, "uint32"))
+  .add(new protobuf.Field("previewHardSecs", 5, "uint32"))
+  .add(new protobuf.Field("previewGoodSecs", 6, "uint32"))
+  .add(new protobuf.Field("previewAgainSecs", 7, "uint32"));
+
+const DeckKind = new protobuf.Type("DeckKind")
+  .add(new protobuf.Field("normal", 1, "DeckNormal"))
+  .add(new protobuf.Field("filtered", 2, "DeckFiltered"))
+  .add(new protobuf.OneOf("kind", ["normal", "filtered"]));
+
+const DeckConfigConfig = new protobuf.Type("DeckConfigConfig")
+  .add(new protobuf.Field("learnSteps", 1, "float", "repeated"))
+  .add(new protobuf.Field("relearnSteps", 2, "float", "repeated"))
+  .add(new protobuf.Field("fsrsParams4", 3, "float", "repeated"))
+  .add(new protobuf.Field("newPerDay", 9, "uint32"))
+  .add(new protobuf.Field("reviewsPerDay", 10, "uint32"))
+  .add(new protobuf.Field("initialEase", 11, "float"))
+  .add(new protobuf.Field("easyMultiplier", 12, "float"))
+  .add(new protobuf.Field("hardMultiplier", 13, "float"))
+  .add(new protobuf.Field("lapseMultiplier", 14, "float"))
+  .add(new protobuf.Field("intervalMultiplier", 15, "float"))
+  .add(new protobuf.Field("maximumReviewInterval", 16, "uint32"))
+  .add(new protobuf.Field("minimumLapseInterval", 17, "uint32"))
+  .add(new protobuf.Field("graduatingIntervalGood", 18, "uint32"))
+  .add(new protobuf.Field("graduatingIntervalEasy", 19, "uint32"))
+  .add(new protobuf.Field("newCardInsertOrder", 20, "int32"))
+  .add(new protobuf.Field("leechAction", 21, "int32"))
+  .add(new protobuf.Field("leechThreshold", 22, "uint32"))
+  .add(new protobuf.Field("disableAutoplay", 23, "bool"))
+  .add(new protobuf.Field("capAnswerTimeToSecs", 24, "uint32"))
+  .add(new protobuf.Field("showTimer", 25, "bool"))
+  .add(new protobuf.Field("skipQuestionWhenReplayingAnswer", 26, "bool"))
+  .add(new protobuf.Field("buryNew", 27, "bool"))
+  .add(new protobuf.Field("buryReviews", 28, "bool"))
+  .add(new protobuf.Field("buryInterdayLearning", 29, "bool"))
+  .add(new protobuf.Field("newMix", 30, "int32"))
+  .add(new protobuf.Field("interdayLearningMix", 31, "int32"))
+  .add(new protobuf.Field("newCardSortOrder", 32, "int32"))
+  .add(new protobuf.Field("reviewOrder", 33, "int32"))
+  .add(new protobuf.Field("newCardGatherPriority", 34, "int32"))
+  .add(new protobuf.Field("newPerDayMinimum", 35, "uint32"))
+  .add(new protobuf.Field("desiredRetention", 37, "float"))
+  .add(new protobuf.Field("stopTimerOnAnswer", 38, "bool"))
+  .add(new protobuf.Field("historicalRetention", 40, "float"))
+  .add(new protobuf.Field("secondsToShowQuestion", 41, "float"))
+  .add(new protobuf.Field("secondsToShowAnswer", 42, "float"))
+  .add(new protobuf.Field("answerAction", 43, "int32"))
+  .add(new protobuf.Field("waitForAudio", 44, "bool"))
+  .add(new protobuf.Field("paramSearch", 45, "string"))
+  .add(new protobuf.Field("ignoreRevlogsBeforeDate", 46, "string"))
+  .add(new protobuf.Field("questionAction", 49, "int32"))
+  .add(new protobuf.Field("other", 255, "bytes"));
+
+const CardRequirement = new protobuf.Type("CardRequirement")
+  .add(new protobuf.Field("cardOrd", 1, "uint32"))
+  .add(new protobuf.Field("kind", 2, "int32"))
+  .add(new protobuf.Field("fieldOrds", 3, "uint32", "repeated"));
+
+const NoteTypeConfig = new protobuf.Type("NoteTypeConfig")
+  .add(new protobuf.Field("kind", 1, "int32"))
+  .add(new protobuf.Field("sortFieldIdx", 2, "uint32"))
+  .add(new protobuf.Field("css", 3, "string"))
+  .add(new protobuf.Field("targetDeckIdUnused", 4, "int64"))
+  .add(new protobuf.Field("latexPre", 5, "string"))
+  .add(new protobuf.Field("latexPost", 6, "string"))
+  .add(new protobuf.Field("latexSvg", 7, "bool"))
+  .add(new protobuf.Field("reqs", 8, "CardRequirement", "repeated"))
+  .add(new protobuf.Field("originalStockKind", 9, "int32"))
+  .add(new protobuf.Field("other", 255, "bytes"));
+
+const FieldConfig = new protobuf.Type("FieldConfig")
+  .add(new protobuf.Field("sticky", 1, "bool"))
+  .add(new protobuf.Field("rtl", 2, "bool"))
+  .add(new protobuf.Field("fontName", 3, "string"))
+  .add(new protobuf.Field("fontSize", 4, "uint32"))
+  .add(new protobuf.Field("description", 5, "string"))
+  .add(new protobuf.Field("plainText", 6, "bool"))
+  .add(new protobuf.Field("collapsed", 7, "bool"))
+  .add(new protobuf.Field("excludeFromSearch", 8, "bool"));
+addOptionalField(FieldConfig, new protobuf.Field("id", 9, "int64"));
+addOptionalField(FieldConfig, new protobuf.Field("tag", 10, "uint32"));
+FieldConfig.add(new protobuf.Field("preventDeletion", 11, "bool")).add(
+  new protobuf.Field("other", 255, "bytes"),
+);
+
+const TemplateConfig = new protobuf.Type("TemplateConfig")
+  .add(new protobuf.Field("qFormat", 1, "string"))
+  .add(new protobuf.Field("aFormat", 2, "string"))
+  .add(new protobuf.Field("qFormatBrowser", 3, "string"))
+  .add(new protobuf.Field("aFormatBrowser", 4, "string"))
+  .add(new protobuf.Field("targetDeckId", 5, "int64"))
+  .add(new protobuf.Field("browserFontName", 6, "string"))
+  .add(new protobuf.Field("browserFontSize", 7, "uint32"));
+addOptionalField(TemplateConfig, new protobuf.Field("id", 8, "int64"));
+TemplateConfig.add(new protobuf.Field("other", 255, "bytes"));
+
+for (const type of [
+  DeckCommon,
+  DayLimit,
+  DeckNormal,
+  FilteredSearchTerm,
+  DeckFiltered,
+  DeckKind,
+  DeckConfigConfig,
+  CardRequirement,
+  NoteTypeConfig,
+  FieldConfig,
+  TemplateConfig,
+]) {
+  root.add(type);
+}
+
+/**
+ * Decodes a protobuf column into a plain object.
+ *
+ * 64 bit integers are returned as strings, because IDs might exceed the safe
+ * integer range.
+ * @param type - The message type of the column
+ * @param buffer - The column contents
+ * @returns The decoded message with defaults for all unset fields
+ */
+function decode<T>(type: protobuf.Type, buffer: Uint8Array): T {
+  return type.toObject(type.decode(buffer), {
+    arrays: true,
+    defaults: true,
+    longs: String,
+  }) as T;
+}
+
+/**
+ * Encodes a plain object as a protobuf column.
+ *
+ * 64 bit integers can be given as strings, so IDs beyond the safe integer
+ * range keep their precision.
+ * @param type - The message type of the column
+ * @param message - The message, unset fields get their defaults
+ * @returns The column contents
+ */
+function encode(type: protobuf.Type, message: object): Uint8Array {
+  return type.encode(type.fromObject(message)).finish();
+}
+
+// #endregion Protobuf messages
+
+// #region Conversion to schema v11
+
+/**
+ * Parses the `other` field that holds unknown JSON properties of a legacy
+ * object, which Anki keeps to write them back when downgrading.
+ * @param other - The UTF-8 encoded JSON object, empty if there are none
+ * @returns The unknown properties
+ */
+function parseOther(other: Uint8Array): Record<string, unknown> {
+  if (other.length === 0) {
+    return {};
+  }
+  return JSON.parse(new TextDecoder().decode(other)) as Record<string, unknown>;
+}
+
+/**
+ * Gets the unknown properties of nested objects, which Anki keeps in the
+ * `other` field of the parent.
+ * @param other - The unknown properties of the parent
+ * @param key - The property of the nested object
+ * @returns The unknown properties of the nested object
+ */
+function getNestedOther(other: Record<string, unknown>, key: string): Record<string, unknown> {
+  const nested = other[key];
+  return typeof nested === "object" && nested !== null && !Array.isArray(nested)
+    ? (nested as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Floats are stored with single precision, so 1.3 is read as 1.2999999523.
+ * Anki writes the shortest representation to JSON, which is restored here.
+ * @param value - The decoded float value
+ * @returns The value rounded to single precision
+ */
+function toFloat32(value: number): number {
+  return Number.parseFloat(value.toPrecision(7));
+}
+
+/**
+ * Builds the `conf` object from the rows of the `config` table.
+ * @param rows - All rows of the `config` table
+ * @returns The collection configuration
+ */
+export function toConfig(rows: ConfigTable[]): Config {
+  const decoder = new TextDecoder();
+  return Object.fromEntries(
+    rows.map((row) => [row.KEY, JSON.parse(decoder.decode(row.val)) as unknown]),
+  ) as unknown as Config;
+}
+
+/**
+ * Converts a row of the `decks` table to a schema v11 deck.
+ *
+ * Filtered decks only keep the properties they share with normal decks.
+ * @param row - The row of the `decks` table
+ * @returns The deck
+ */
+export function toDeck(row: DecksTable): Deck {
+  const common = decode<DeckCommonMessage>(DeckCommon, row.common);
+  const kind = decode<DeckKindMessage>(DeckKind, row.kind);
+  const day = common.lastDayStudied;
+
+  const deck: Deck = {
+    ...(parseOther(common.other) as Partial<Deck>),
+    browserCollapsed: common.browserCollapsed,
+    collapsed: common.studyCollapsed,
+    conf: 1,
+    desc: "",
+    dyn: kind.normal ? DeckDynamicity.STATIC : DeckDynamicity.DYNAMIC,
+    extendNew: 0,
+    extendRev: 0,
+    id: row.id,
+    lrnToday: [day, common.learningStudied],
+    mod: row.mtime_secs,
+    name: row.name.replaceAll(DECK_NAME_SEPARATOR, "::"),
+    newLimit: null,
+    newLimitToday: null,
+    newToday: [day, common.newStudied],
+    revToday: [day, common.reviewStudied],
+    reviewLimit: null,
+    reviewLimitToday: null,
+    timeToday: [day, common.millisecondsStudied],
+    usn: row.usn,
+  };
+
+  if (kind.normal) {
+    const normal = kind.normal;
+    deck.conf = Number(normal.configId);
+    deck.desc = normal.description;
+    deck.extendNew = normal.extendNew;
+    deck.extendRev = normal.extendReview;
+    deck.reviewLimit = normal.reviewLimit ?? null;
+    deck.newLimit = normal.newLimit ?? null;
+    deck.reviewLimitToday = normal.reviewLimitToday?.limit ?? null;
+    deck.newLimitToday = normal.newLimitToday?.limit ?? null;
+  }
+
+  // The filter of filtered decks is kept in the properties schema v11 has for them
+  if (kind.filtered) {
+    const filtered = kind.filtered;
+    const filteredDeck: FilteredDeckProperties = {
+      delays: filtered.delays.length > 0 ? filtered.delays.map((delay) => toFloat32(delay)) : null,
+      previewAgainSecs: filtered.previewAgainSecs,
+      previewDelay: filtered.previewDelay,
+      previewGoodSecs: filtered.previewGoodSecs,
+      previewHardSecs: filtered.previewHardSecs,
+      resched: filtered.reschedule,
+      separate: true,
+      terms: filtered.searchTerms.map((term) => [term.search, term.limit, term.order]),
+    };
+    Object.assign(deck, filteredDeck);
+  }
+
+  return deck;
+}
+
+/**
+ * Converts a row of the `deck_config` table to a schema v11 deck configuration.
+ * @param row - The row of the `deck_config` table
+ * @returns The deck configuration
+ */
+export function toDeckConfig(row: DeckConfigTable): DeckConfig {
+  const config = decode<DeckConfigMessage>(DeckConfigConfig, row.config);
+  const other = parseOther(config.other);
+
+  return {
+    ...(other as Partial<DeckConfig>),
+    answerAction: config.answerAction,
+    autoplay: !config.disableAutoplay,
+    buryInterdayLearning: config.buryInterdayLearning,
+    desiredRetention: toFloat32(config.desiredRetention),
+    dyn: false,
+    fsrsWeights: config.fsrsParams4.map((param) => toFloat32(param)),
+    id: row.id,
+    ignoreRevlogsBeforeDate: config.ignoreRevlogsBeforeDate,
+    interdayLearningMix: config.interdayLearningMix,
+    lapse: {
+      ...getNestedOther(other, "lapse"),
+      delays: config.relearnSteps.map((step) => toFloat32(step)),
+      leechAction: config.leechAction,
+      leechFails: config.leechThreshold,
+      minInt: config.minimumLapseInterval,
+      mult: toFloat32(config.lapseMultiplier),
+    },
+    maxTaken: config.capAnswerTimeToSecs,
+    mod: row.mtime_secs,
+    name: row.name,
+    new: {
+      ...getNestedOther(other, "new"),
+      bury: config.buryNew,
+      delays: config.learnSteps.map((step) => toFloat32(step)),
+      initialFactor: Math.round(config.initialEase * 1000),
+      ints: [config.graduatingIntervalGood, config.graduatingIntervalEasy, 0],
+      // The insert order enum starts with "due", schema v11 starts with "random"
+      order: config.newCardInsertOrder === 0 ? 1 : 0,
+      perDay: config.newPerDay,
+    },
+    newGatherPriority: config.newCardGatherPriority,
+    newMix: config.newMix,
+    newPerDayMinimum: config.newPerDayMinimum,
+    newSortOrder: config.newCardSortOrder,
+    questionAction: config.questionAction,
+    replayq: !config.skipQuestionWhenReplayingAnswer,
+    rev: {
+      ...getNestedOther(other, "rev"),
+      bury: config.buryReviews,
+      ease4: toFloat32(config.easyMultiplier),
+      hardFactor: toFloat32(config.hardMultiplier),
+      ivlFct: toFloat32(config.intervalMultiplier),
+      maxIvl: config.maximumReviewInterval,
+      perDay: config.reviewsPerDay,
+    },
+    reviewOrder: config.reviewOrder,
+    secondsToShowAnswer: toFloat32(config.secondsToShowAnswer),
+    secondsToShowQuestion: toFloat32(config.secondsToShowQuestion),
+    sm2Retention: toFloat32(config.historicalRetention),
+    stopTimerOnAnswer: config.stopTimerOnAnswer,
+    timer: config.showTimer ? 1 : 0,
+    usn: row.usn,
+    waitForAudio: config.waitForAudio,
+    weightSearch: config.paramSearch,
+  };
+}
+
+const CARD_REQUIREMENT_KINDS = ["none", "any", "all"] as const;
+
+/**
+ * Converts a row of the `notetypes` table together with its fields and
+ * templates to a schema v11 note type.
+ * @param row - The row of the `notetypes` table
+ * @param fields - The rows of the `fields` table belonging to the note type
+ * @param templates - The rows of the `templates` table belonging to the note type
+ * @returns The note type
+ */
+export function toNoteType(
+  row: NoteTypesTable,
+  fields: FieldsTable[],
+  templates: TemplatesTable[],
+): NoteType {
+  const config = decode<NoteTypeConfigMessage>(NoteTypeConfig, row.config);
+  const targetDeckId = Number(config.targetDeckIdUnused);
+
+  return {
+    ...(parseOther(config.other) as Partial<NoteType>),
+    css: config.css,
+    did: targetDeckId > 0 ? targetDeckId : null,
+    flds: [...fields].sort((a, b) => a.ord - b.ord).map((field) => toField(field)),
+    id: row.id,
+    latexPost: config.latexPost,
+    latexPre: config.latexPre,
+    latexsvg: config.latexSvg,
+    mod: row.mtime_secs,
+    name: row.name,
+    originalStockKind:
+      config.originalStockKind === 0
+        ? null
+        : (config.originalStockKind as NonNullable<NoteType["originalStockKind"]>),
+    req: config.reqs.map((requirement) => [
+      requirement.cardOrd,
+      CARD_REQUIREMENT_KINDS[requirement.kind] ?? "none",
+      requirement.fieldOrds,
+    ]),
+    sortf: config.sortFieldIdx,
+    tmpls: [...templates].sort((a, b) => a.ord - b.ord).map((template) => toTemplate(template)),
+    type: config.kind,
+    usn: row.usn,
+  };
+}
+
+/**
+ * Converts a row of the `fields` table to a schema v11 field.
+ * @param row - The row of the `fields` table
+ * @returns The field
+ */
+function toField(row: FieldsTable): Field {
+  const config = decode<FieldConfigMessage>(FieldConfig, row.config);
+
+  return {
+    ...(parseOther(config.other) as Partial<Field>),
+    collapsed: config.collapsed,
+    description: config.description,
+    excludeFromSearch: config.excludeFromSearch,
+    font: config.fontName,
+    id: config.id === undefined ? null : BigInt(config.id),
+    name: row.name,
+    ord: row.ord,
+    plainText: config.plainText,
+    preventDeletion: config.preventDeletion,
+    rtl: config.rtl,
+    size: config.fontSize,
+    sticky: config.sticky,
+    tag: config.tag ?? null,
+  };
+}
+
+/**
+ * Converts a row of the `templates` table to a schema v11 template.
+ * @param row - The row of the `templates` table
+ * @returns The template
+ */
+function toTemplate(row: TemplatesTable): NoteType["tmpls"][number] {
+  const config = decode<TemplateConfigMessage>(TemplateConfig, row.config);
+  const targetDeckId = Number(config.targetDeckId);
+
+  return {
+    ...(parseOther(config.other) as Partial<NoteType["tmpls"][number]>),
+    afmt: config.aFormat,
+    bafmt: config.aFormatBrowser,
+    bfont: config.browserFontName,
+    bqfmt: config.qFormatBrowser,
+    bsize: config.browserFontSize,
+    did: targetDeckId > 0 ? targetDeckId : null,
+    id: config.id === undefined ? null : BigInt(config.id),
+    name: row.name,
+    ord: row.ord,
+    qfmt: config.qFormat,
+  };
+}
+
+// #endregion Conversion to schema v11
+
+// #region Conversion to schema v18
+
+// The properties of schema v11 objects that have a field in the protobuf messages
+const DECK_KEYS = [
+  "browserCollapsed",
+  "collapsed",
+  "conf",
+  "desc",
+  "dyn",
+  "extendNew",
+  "extendRev",
+  "id",
+  "lrnToday",
+  "mod",
+  "name",
+  "newLimit",
+  "newLimitToday",
+  "newToday",
+  "revToday",
+  "reviewLimit",
+  "reviewLimitToday",
+  "timeToday",
+  "usn",
+] as const satisfies readonly (keyof Deck)[];
+const FILTERED_DECK_KEYS = [
+  "delays",
+  "previewAgainSecs",
+  "previewDelay",
+  "previewGoodSecs",
+  "previewHardSecs",
+  "resched",
+  "separate",
+  "terms",
+] as const satisfies readonly (keyof FilteredDeckProperties)[];
+const DECK_CONFIG_KEYS = [
+  "answerAction",
+  "autoplay",
+  "buryInterdayLearning",
+  "desiredRetention",
+  "dyn",
+  "fsrsWeights",
+  "id",
+  "ignoreRevlogsBeforeDate",
+  "interdayLearningMix",
+  "lapse",
+  "maxTaken",
+  "mod",
+  "name",
+  "new",
+  "newGatherPriority",
+  "newMix",
+  "newPerDayMinimum",
+  "newSortOrder",
+  "questionAction",
+  "replayq",
+  "rev",
+  "reviewOrder",
+  "secondsToShowAnswer",
+  "secondsToShowQuestion",
+  "sm2Retention",
+  "stopTimerOnAnswer",
+  "timer",
+  "usn",
+  "waitForAudio",
+  "weightSearch",
+] as const satisfies readonly (keyof DeckConfig)[];
+const DECK_CONFIG_NEW_KEYS = [
+  "bury",
+  "delays",
+  "initialFactor",
+  "ints",
+  "order",
+  "perDay",
+] as const satisfies readonly (keyof DeckConfig["new"])[];
+const DECK_CONFIG_REV_KEYS = [
+  "bury",
+  "ease4",
+  "hardFactor",
+  "ivlFct",
+  "maxIvl",
+  "perDay",
+] as const satisfies readonly (keyof DeckConfig["rev"])[];
+const DECK_CONFIG_LAPSE_KEYS = [
+  "delays",
+  "leechAction",
+  "leechFails",
+  "minInt",
+  "mult",
+] as const satisfies readonly (keyof DeckConfig["lapse"])[];
+const NOTE_TYPE_KEYS = [
+  "css",
+  "did",
+  "flds",
+  "id",
+  "latexPost",
+  "latexPre",
+  "latexsvg",
+  "mod",
+  "name",
+  "originalStockKind",
+  "req",
+  "sortf",
+  "tmpls",
+  "type",
+  "usn",
+] as const satisfies readonly (keyof NoteType)[];
+const FIELD_KEYS = [
+  "collapsed",
+  "description",
+  "excludeFromSearch",
+  "font",
+  "id",
+  "name",
+  "ord",
+  "plainText",
+  "preventDeletion",
+  "rtl",
+  "size",
+  "sticky",
+  "tag",
+] as const satisfies readonly (keyof Field)[];
+const TEMPLATE_KEYS = [
+  "afmt",
+  "bafmt",
+  "bfont",
+  "bqfmt",
+  "bsize",
+  "did",
+  "id",
+  "name",
+  "ord",
+  "qfmt",
+] as const satisfies readonly (keyof NoteType["tmpls"][number])[];
+
+/**
+ * Collects the properties of a schema v11 object that its protobuf message
+ * has no field for.
+ * @param object - The schema v11 object
+ * @param knownKeys - The properties the message has fields for
+ * @returns The unknown properties
+ */
+function getOther(object: object, knownKeys: readonly string[]): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(object).filter(([key]) => !knownKeys.includes(key)));
+}
+
+/**
+ * Encodes unknown properties for the `other` field, so Anki can write them
+ * back when downgrading.
+ * @param other - The unknown properties
+ * @returns The UTF-8 encoded JSON object, empty if there are none
+ */
+function encodeOther(other: Record<string, unknown>): Uint8Array {
+  if (Object.keys(other).length === 0) {
+    return new Uint8Array();
+  }
+  return new TextEncoder().encode(JSON.stringify(other));
+}
+
+/**
+ * Builds the rows of the `config` table from the `conf` object.
+ * @param config - The collection configuration
+ * @returns A row for each configuration key
+ */
+export function toConfigRows(config: Config): ConfigTable[] {
+  const encoder = new TextEncoder();
+  return Object.entries(config)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ({
+      KEY: key,
+      mtime_secs: 0,
+      usn: 0,
+      val: encoder.encode(JSON.stringify(value)),
+    }));
+}
+
+/**
+ * Converts a schema v11 deck to a row of the `decks` table.
+ * @param deck - The deck
+ * @returns The row of the `decks` table
+ */
+export function toDeckRow(deck: Deck): DecksTable {
+  const day = deck.newToday[0];
+  const common = {
+    browserCollapsed: deck.browserCollapsed,
+    lastDayStudied: day,
+    learningStudied: deck.lrnToday[1],
+    millisecondsStudied: deck.timeToday[1],
+    newStudied: deck.newToday[1],
+    other: encodeOther(getOther(deck, [...DECK_KEYS, ...FILTERED_DECK_KEYS])),
+    reviewStudied: deck.revToday[1],
+    studyCollapsed: deck.collapsed,
+  };
+
+  let kind: object;
+  if (deck.dyn === DeckDynamicity.STATIC) {
+    kind = {
+      normal: {
+        configId: deck.conf,
+        description: deck.desc,
+        extendNew: deck.extendNew,
+        extendReview: deck.extendRev,
+        // Unset limits are left out
+        newLimit: deck.newLimit,
+        newLimitToday:
+          deck.newLimitToday === null ? null : { limit: deck.newLimitToday, today: day },
+        reviewLimit: deck.reviewLimit,
+        reviewLimitToday:
+          deck.reviewLimitToday === null ? null : { limit: deck.reviewLimitToday, today: day },
+      },
+    };
+  } else {
+    const filtered = deck as Deck & Partial<FilteredDeckProperties>;
+    kind = {
+      filtered: {
+        delays: filtered.delays ?? [],
+        previewAgainSecs: filtered.previewAgainSecs,
+        previewDelay: filtered.previewDelay,
+        previewGoodSecs: filtered.previewGoodSecs,
+        previewHardSecs: filtered.previewHardSecs,
+        reschedule: filtered.resched,
+        searchTerms: (filtered.terms ?? []).map(([search, limit, order]) => ({
+          limit,
+          order,
+          search,
+        })),
+      },
+    };
+  }
+
+  return {
+    common: encode(DeckCommon, common),
+    id: deck.id,
+    kind: encode(DeckKind, kind),
+    mtime_secs: deck.mod,
+    name: deck.name.replaceAll("::", DECK_NAME_SEPARATOR),
+    usn: deck.usn,
+  };
+}
+
+/**
+ * Converts a schema v11 deck configuration to a row of the `deck_config` table.
+ * @param deckConfig - The deck configuration
+ * @returns The row of the `deck_config` table
+ */
+export function toDeckConfigRow(deckConfig: DeckConfig): DeckConfigTable {
+  const other = getOther(deckConfig, DECK_CONFIG_KEYS);
+  for (const [key, nestedOther] of Object.entries({
+    lapse: getOther(deckConfig.lapse, DECK_CONFIG_LAPSE_KEYS),
+    new: getOther(deckConfig.new, DECK_CONFIG_NEW_KEYS),
+    rev: getOther(deckConfig.rev, DECK_CONFIG_REV_KEYS),
+  })) {
+    if (Object.keys(nestedOther).length > 0) {
+      other[key] = nestedOther;
+    }
+  }
+
+  const config = {
+    answerAction: deckConfig.answerAction,
+    buryInterdayLearning: deckConfig.buryInterdayLearning,
+    buryNew: deckConfig.new.bury,
+    buryReviews: deckConfig.rev.bury,
+    capAnswerTimeToSecs: deckConfig.maxTaken,
+    desiredRetention: deckConfig.desiredRetention,
+    disableAutoplay: !deckConfig.autoplay,
+    easyMultiplier: deckConfig.rev.ease4,
+    fsrsParams4: deckConfig.fsrsWeights,
+    graduatingIntervalEasy: deckConfig.new.ints[1],
+    graduatingIntervalGood: deckConfig.new.ints[0],
+    hardMultiplier: deckConfig.rev.hardFactor,
+    historicalRetention: deckConfig.sm2Retention,
+    ignoreRevlogsBeforeDate: deckConfig.ignoreRevlogsBeforeDate,
+    initialEase: deckConfig.new.initialFactor / 1000,
+    interdayLearningMix: deckConfig.interdayLearningMix,
+    intervalMultiplier: deckConfig.rev.ivlFct,
+    lapseMultiplier: deckConfig.lapse.mult,
+    learnSteps: deckConfig.new.delays,
+    leechAction: deckConfig.lapse.leechAction,
+    leechThreshold: deckConfig.lapse.leechFails,
+    maximumReviewInterval: deckConfig.rev.maxIvl,
+    minimumLapseInterval: deckConfig.lapse.minInt,
+    newCardGatherPriority: deckConfig.newGatherPriority,
+    // The insert order enum starts with "due", schema v11 starts with "random"
+    newCardInsertOrder: deckConfig.new.order === 1 ? 0 : 1,
+    newCardSortOrder: deckConfig.newSortOrder,
+    newMix: deckConfig.newMix,
+    newPerDay: deckConfig.new.perDay,
+    newPerDayMinimum: deckConfig.newPerDayMinimum,
+    other: encodeOther(other),
+    paramSearch: deckConfig.weightSearch,
+    questionAction: deckConfig.questionAction,
+    relearnSteps: deckConfig.lapse.delays,
+    reviewOrder: deckConfig.reviewOrder,
+    reviewsPerDay: deckConfig.rev.perDay,
+    secondsToShowAnswer: deckConfig.secondsToShowAnswer,
+    secondsToShowQuestion: deckConfig.secondsToShowQuestion,
+    showTimer: deckConfig.timer !== 0,
+    skipQuestionWhenReplayingAnswer: !deckConfig.replayq,
+    stopTimerOnAnswer: deckConfig.stopTimerOnAnswer,
+    waitForAudio: deckConfig.waitForAudio,
+  };
+
+  return {
+    config: encode(DeckConfigConfig, config),
+    id: deckConfig.id,
+    mtime_secs: deckConfig.mod,
+    name: deckConfig.name,
+    usn: deckConfig.usn,
+  };
+}
+
+/**
+ * Converts a schema v11 note type to a row of the `notetypes` table and the
+ * rows of its fields and templates.
+ * @param noteType - The note type
+ * @returns The rows of the `notetypes`, `fields` and `templates` tables
+ */
+export function toNoteTypeRows(noteType: NoteType): {
+  noteType: NoteTypesTable;
+  fields: FieldsTable[];
+  templates: TemplatesTable[];
+} {
+  const config = {
+    css: noteType.css,
+    kind: noteType.type,
+    latexPost: noteType.latexPost,
+    latexPre: noteType.latexPre,
+    latexSvg: noteType.latexsvg,
+    originalStockKind: noteType.originalStockKind ?? 0,
+    other: encodeOther(getOther(noteType, NOTE_TYPE_KEYS)),
+    reqs: noteType.req.map(([cardOrd, kind, fieldOrds]) => ({
+      cardOrd,
+      fieldOrds,
+      kind: CARD_REQUIREMENT_KINDS.indexOf(kind),
+    })),
+    sortFieldIdx: noteType.sortf,
+    targetDeckIdUnused: noteType.did ?? 0,
+  };
+
+  return {
+    fields: noteType.flds.map((field) => toFieldRow(noteType.id, field)),
+    noteType: {
+      config: encode(NoteTypeConfig, config),
+      id: noteType.id,
+      mtime_secs: noteType.mod,
+      name: noteType.name,
+      usn: noteType.usn,
+    },
+    templates: noteType.tmpls.map((template) => toTemplateRow(noteType, template)),
+  };
+}
+
+/**
+ * Converts a schema v11 field to a row of the `fields` table.
+ * @param noteTypeId - The ID of the note type of the field
+ * @param field - The field
+ * @returns The row of the `fields` table
+ */
+function toFieldRow(noteTypeId: number, field: Field): FieldsTable {
+  const config = {
+    collapsed: field.collapsed,
+    description: field.description,
+    excludeFromSearch: field.excludeFromSearch,
+    fontName: field.font,
+    fontSize: field.size,
+    id: field.id?.toString(),
+    other: encodeOther(getOther(field, FIELD_KEYS)),
+    plainText: field.plainText,
+    preventDeletion: field.preventDeletion,
+    rtl: field.rtl,
+    sticky: field.sticky,
+    tag: field.tag,
+  };
+
+  return {
+    config: encode(FieldConfig, config),
+    name: field.name,
+    ntid: noteTypeId,
+    ord: field.ord,
+  };
+}
+
+/**
+ * Converts a schema v11 template to a row of the `templates` table.
+ * @param noteType - The note type of the template
+ * @param template - The template
+ * @returns The row of the `templates` table
+ */
+function toTemplateRow(noteType: NoteType, template: NoteType["tmpls"][number]): TemplatesTable {
+  const config = {
+    aFormat: template.afmt,
+    aFormatBrowser: template.bafmt,
+    browserFontName: template.bfont,
+    browserFontSize: template.bsize,
+    id: template.id?.toString(),
+    other: encodeOther(getOther(template, TEMPLATE_KEYS)),
+    qFormat: template.qfmt,
+    qFormatBrowser: template.bqfmt,
+    targetDeckId: template.did ?? 0,
+  };
+
+  return {
+    config: encode(TemplateConfig, config),
+    mtime_secs: noteType.mod,
+    name: template.name,
+    ntid: noteType.id,
+    ord: template.ord,
+    usn: noteType.usn,
+  };
+}
+
+// #endregion Conversion to schema v18
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+
+import { BasicAndReverseNote, BasicNote, ClozeNote } from "@/srs-package";
+
+import { createBasicNoteType } from "./anki-package.fixtures";
+import {
+  basicAndReversedCardModel,
+  basicModel,
+  basicOptionalReversedCardModel,
+  clozeModel,
+} from "./constants";
+import { getAnkiStockNoteType, getSrsStockNoteType } from "./stock-note-types";
+import { OriginalStockKind } from "./types";
+
+describe("Stock note types", () => {
+  describe("getAnkiStockNoteType()", () => {
+    it("should export the universal note types as Anki stock note types", () => {
+      expect(getAnkiStockNoteType(BasicNote.id)).toEqual({
+        ...basicModel,
+        originalStockKind: OriginalStockKind.BASIC,
+      });
+      expect(getAnkiStockNoteType(BasicAndReverseNote.id)).toEqual({
+        ...basicAndReversedCardModel,
+        originalStockKind: OriginalStockKind.BASIC_AND_REVERSED,
+      });
+      expect(getAnkiStockNoteType(ClozeNote.id)).toEqual({
+        ...clozeModel,
+        originalStockKind: OriginalStockKind.CLOZE,
+      });
+    });
+
+    it("should not map other note types", () => {
+      expect(getAnkiStockNoteType(createBasicNoteType().id)).toBeUndefined();
+    });
+  });
+
+  describe("getSrsStockNoteType()", () => {
+    it("should import Anki stock note types as the universal note types", () => {
+      expect(getSrsStockNoteType(basicModel)).toBe(BasicNote);
+      expect(
+        getSrsStockNoteType({
+          ...basicAndReversedCardModel,
+          originalStockKind: OriginalStockKind.BASIC_AND_REVERSED,
+        }),
+      ).toBe(BasicAndReverseNote);
+      expect(getSrsStockNoteType(clozeModel)).toBe(ClozeNote);
+    });
+
+    it("should not map stock note types whose fields or templates were changed", () => {
+      const [front] = basicModel.flds;
+      if (!front) {
+        throw new Error("Basic note type should have fields");
+      }
+
+      expect(getSrsStockNoteType({ ...basicModel, flds: [front] })).toBeUndefined();
+      expect(getSrsStockNoteType({ ...basicModel, originalStockKind: null })).toBeUndefined();
+      expect(getSrsStockNoteType(basicOptionalReversedCardModel)).toBeUndefined();
+    });
+  });
+});
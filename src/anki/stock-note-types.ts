@@ -0,0 +1,61 @@
+import type { SrsNoteType } from "@/srs-package";
+import { BasicAndReverseNote, BasicNote, ClozeNote } from "@/srs-package";
+
+import { basicAndReversedCardModel, basicModel, clozeModel } from "./constants";
+import type { NoteType } from "./types";
+import { OriginalStockKind } from "./types";
+
+/**
+ * Mapping between the note types of the universal format and the stock note
+ * types of Anki.
+ *
+ * Notes of the universal note types become notes of the Anki stock note types
+ * on export, so they behave like notes added in Anki. Anki stock note types
+ * become the universal note types on import, if they still have the fields
+ * and templates of the stock note type.
+ */
+
+interface StockNoteTypeMapping {
+  kind: OriginalStockKind;
+  ankiNoteType: NoteType;
+  srsNoteType: SrsNoteType;
+}
+
+const STOCK_NOTE_TYPES: readonly StockNoteTypeMapping[] = [
+  { ankiNoteType: basicModel, kind: OriginalStockKind.BASIC, srsNoteType: BasicNote },
+  {
+    ankiNoteType: basicAndReversedCardModel,
+    kind: OriginalStockKind.BASIC_AND_REVERSED,
+    srsNoteType: BasicAndReverseNote,
+  },
+  { ankiNoteType: clozeModel, kind: OriginalStockKind.CLOZE, srsNoteType: ClozeNote },
+];
+
+/**
+ * Gets the Anki stock note type a note type of the universal format is
+ * exported as.
+ * @param srsNoteTypeId - The ID of the SRS note type
+ * @returns The Anki stock note type, or undefined if it is no universal note type
+ */
+export function getAnkiStockNoteType(srsNoteTypeId: string): NoteType | undefined {
+  const mapping = STOCK_NOTE_TYPES.find(({ srsNoteType }) => srsNoteType.id === srsNoteTypeId);
+  return mapping && { ...mapping.ankiNoteType, originalStockKind: mapping.kind };
+}
+
+/**
+ * Gets the note type of the universal format an Anki note type is imported
+ * as. Stock note types whose fields or templates were added or removed are
+ * not recognized, as their notes would not fit the universal note type.
+ * @param ankiNoteType - The Anki note type
+ * @returns The universal note type, or undefined if it is no stock note type
+ */
+export function getSrsStockNoteType(
+  ankiNoteType: Pick<NoteType, "flds" | "originalStockKind" | "tmpls">,
+): SrsNoteType | undefined {
+  return STOCK_NOTE_TYPES.find(
+    ({ kind, srsNoteType }) =>
+      kind === ankiNoteType.originalStockKind &&
+      srsNoteType.fields.length === ankiNoteType.flds.length &&
+      srsNoteType.templates.length === ankiNoteType.tmpls.length,
+  )?.srsNoteType;
+}
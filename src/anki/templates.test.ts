@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  basicAndReversedCardModel,
+  basicModel,
+  basicOptionalReversedCardModel,
+  basicTypeInTheAnswerModel,
+  clozeModel,
+  imageOcclusionModel,
+} from "./constants";
+import { getTemplateRequirements } from "./templates";
+
+const fields = [
+  { name: "Front", ord: 0 },
+  { name: "Back", ord: 1 },
+  { name: "Extra", ord: 2 },
+];
+
+function getRequirement(qfmt: string) {
+  return getTemplateRequirements(fields, [{ ord: 0, qfmt }])[0];
+}
+
+describe("Templates", () => {
+  describe("getTemplateRequirements()", () => {
+    it("should calculate the requirements of the Anki note types like Anki", () => {
+      for (const noteType of [
+        basicModel,
+        basicAndReversedCardModel,
+        basicOptionalReversedCardModel,
+        basicTypeInTheAnswerModel,
+        clozeModel,
+        imageOcclusionModel,
+      ]) {
+        expect(getTemplateRequirements(noteType.flds, noteType.tmpls)).toEqual(noteType.req);
+      }
+    });
+
+    it("should require any of the fields that are shown on their own", () => {
+      expect(getRequirement("{{Front}}<br>{{text:Back}}")).toEqual([0, "any", [0, 1]]);
+      expect(getRequirement("{{#Extra}}{{Extra}}{{/Extra}}")).toEqual([0, "any", [2]]);
+    });
+
+    it("should require all fields of nested sections", () => {
+      expect(getRequirement("{{#Front}}{{#Back}}{{Extra}}{{/Back}}{{/Front}}")).toEqual([
+        0,
+        "all",
+        [0, 1, 2],
+      ]);
+    });
+
+    it("should check sections that are shown for empty fields", () => {
+      expect(getRequirement("{{^Front}}{{Back}}{{/Front}}")).toEqual([0, "any", [1]]);
+    });
+
+    it("should not require anything for templates without fields", () => {
+      expect(getRequirement("{{FrontSide}} Static text")).toEqual([0, "none", []]);
+      expect(getRequirement("{{#Front}}Static text{{/Front}}")).toEqual([0, "none", []]);
+    });
+
+    it("should not require anything for templates with unclosed sections", () => {
+      expect(getRequirement("{{#Front}}{{Back}}")).toEqual([0, "none", []]);
+      expect(getRequirement("{{#Front}}{{Back}}{{/Back}}")).toEqual([0, "none", []]);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import type { Field, NoteType, Template } from "./types";
+
+/**
+ * Analysis of Anki card templates.
+ *
+ * Anki only generates a card from a template if the question side is not
+ * empty. The `req` property of note types lists the fields that have to be
+ * filled in for that, it is calculated like Anki does when a note type is
+ * saved.
+ */
+
+type TemplateNode =
+  | { type: "replacement"; key: string }
+  | { type: "conditional"; key: string; negated: boolean; children: TemplateNode[] };
+
+type TemplateRequirement = NoteType["req"][number];
+
+const TAG_PATTERN = /\{\{(.*?)\}\}/gs;
+
+/**
+ * Calculates which fields have to be filled in to generate cards from the
+ * templates of a note type.
+ * @param fields - The fields of the note type
+ * @param templates - The templates of the note type
+ * @returns The `req` property of the note type
+ */
+export function getTemplateRequirements(
+  fields: readonly Pick<Field, "name" | "ord">[],
+  templates: readonly Pick<Template, "ord" | "qfmt">[],
+): TemplateRequirement[] {
+  return templates.map((template) => [
+    template.ord,
+    ...getTemplateRequirement(template.qfmt, fields),
+  ]);
+}
+
+/**
+ * Calculates which fields have to be filled in to generate a card from a
+ * template. Templates that show something if any of several fields is filled
+ * in require "any" of them, otherwise all fields the template cannot do
+ * without are required. Templates that are empty for all fields, or that
+ * cannot be parsed, require "none" and never generate cards.
+ * @param questionTemplate - The question format of the template
+ * @param fields - The fields of the note type
+ * @returns The type of the requirement and the ordinals of the required fields
+ */
+function getTemplateRequirement(
+  questionTemplate: string,
+  fields: readonly Pick<Field, "name" | "ord">[],
+): [TemplateRequirement[1], number[]] {
+  const nodes = parseTemplate(questionTemplate);
+  if (nodes === undefined) {
+    return ["none", []];
+  }
+
+  const anyFields = fields.filter((field) => rendersWithFields(nodes, new Set([field.name])));
+  if (anyFields.length > 0) {
+    return ["any", getOrdinals(anyFields)];
+  }
+
+  // Fields the template still renders without are not required
+  const allFieldNames = new Set(fields.map((field) => field.name));
+  const requiredFields = fields.filter((field) => {
+    const otherFieldNames = new Set(allFieldNames);
+    otherFieldNames.delete(field.name);
+    return !rendersWithFields(nodes, otherFieldNames);
+  });
+  if (requiredFields.length > 0 && rendersWithFields(nodes, allFieldNames)) {
+    return ["all", getOrdinals(requiredFields)];
+  }
+  return ["none", []];
+}
+
+/**
+ * Parses the field replacements and conditional sections of a template, the
+ * text between them is not needed to find out if the template is empty.
+ * @param template - The template
+ * @returns The parsed template, or undefined if its sections are not closed properly
+ */
+function parseTemplate(template: string): TemplateNode[] | undefined {
+  const root: TemplateNode[] = [];
+  const openSections: Extract<TemplateNode, { type: "conditional" }>[] = [];
+
+  for (const [, content = ""] of template.matchAll(TAG_PATTERN)) {
+    const tag = content.trim();
+    const nodes = openSections.at(-1)?.children ?? root;
+
+    if (tag.startsWith("#") || tag.startsWith("^")) {
+      const section: TemplateNode = {
+        children: [],
+        key: tag.slice(1).trim(),
+        negated: tag.startsWith("^"),
+        type: "conditional",
+      };
+      nodes.push(section);
+      openSections.push(section);
+    } else if (tag.startsWith("/")) {
+      if (openSections.pop()?.key !== tag.slice(1).trim()) {
+        return undefined;
+      }
+    } else {
+      // Filters come before the field name, e.g. {{cloze:Text}}
+      nodes.push({ key: tag.split(":").at(-1)?.trim() ?? "", type: "replacement" });
+    }
+  }
+
+  return openSections.length === 0 ? root : undefined;
+}
+
+/**
+ * Checks if a template shows anything if only some fields are filled in.
+ * Sections that are shown if a field is empty are always checked, as other
+ * fields might be shown in them.
+ * @param nodes - The parsed template
+ * @param nonEmptyFields - The names of the fields that are filled in
+ * @returns Whether a field is shown
+ */
+function rendersWithFields(nodes: TemplateNode[], nonEmptyFields: ReadonlySet<string>): boolean {
+  return nodes.some((node) =>
+    node.type === "replacement"
+      ? nonEmptyFields.has(node.key)
+      : (node.negated || nonEmptyFields.has(node.key)) &&
+        rendersWithFields(node.children, nonEmptyFields),
+  );
+}
+
+function getOrdinals(fields: readonly Pick<Field, "ord">[]): number[] {
+  return fields.map((field) => field.ord).sort((a, b) => a - b);
+}
@@ -0,0 +1,239 @@
+/**
+ * This file contains types representing the tables Anki added to the database
+ * with schema v15-v18, which is used since Anki 2.1.28 for collections and
+ * since Anki 2.1.50 for the latest export format.
+ *
+ * The `cards`, `notes`, `revlog` and `graves` tables are unchanged and are
+ * described in `types.ts`. The `col` table still exists, but its JSON columns
+ * are empty. Their contents are moved to the tables below, with most settings
+ * stored as protobuf messages.
+ * @see https://github.com/ankitects/anki/blob/main/rslib/src/storage/upgrades
+ */
+
+/**
+ * The tables that replace the JSON columns of the `col` table.
+ * It is used to access the database with Kysely.
+ */
+export interface DBTablesV18 {
+  config: ConfigTable;
+  decks: DecksTable;
+  deck_config: DeckConfigTable;
+  notetypes: NoteTypesTable;
+  fields: FieldsTable;
+  templates: TemplatesTable;
+  tags: TagsTable;
+}
+
+/**
+ * Representation of the Anki `config` table (v18)
+ *
+ * Replaces `col.conf`, one row per key.
+ */
+export interface ConfigTable {
+  /**
+   * The name of the setting.
+   * @example "curDeck", "sortType", ...
+   */
+  KEY: string;
+  /**
+   * Update sequence number: Incremented when the setting is changed.
+   * Used for syncing.
+   */
+  usn: number;
+  /**
+   * When the setting was last modified.
+   *
+   * Must be an integer, unix time in seconds.
+   */
+  mtime_secs: number;
+  /**
+   * The value of the setting as UTF-8 encoded JSON.
+   */
+  val: Uint8Array;
+}
+
+/**
+ * Representation of the Anki `decks` table (v18)
+ *
+ * Replaces `col.decks`, one row per deck.
+ */
+export interface DecksTable {
+  /**
+   * The deck ID.
+   */
+  id: number;
+  /**
+   * The name of the deck.
+   * Unlike schema v11, the levels of the hierarchy are separated by `\x1f`
+   * instead of `::`.
+   */
+  name: string;
+  /**
+   * When the deck was last modified.
+   *
+   * Must be an integer, unix time in seconds.
+   */
+  mtime_secs: number;
+  /**
+   * Update sequence number: Incremented when the deck is changed.
+   * Used for syncing.
+   */
+  usn: number;
+  /**
+   * Protobuf encoded `Deck.Common` message with the properties shared by
+   * normal and filtered decks.
+   */
+  common: Uint8Array;
+  /**
+   * Protobuf encoded `Deck.KindContainer` message with either the `Normal` or
+   * the `Filtered` specific properties.
+   */
+  kind: Uint8Array;
+}
+
+/**
+ * Representation of the Anki `deck_config` table (v18)
+ *
+ * Replaces `col.dconf`, one row per deck configuration.
+ */
+export interface DeckConfigTable {
+  /**
+   * The deck configuration ID.
+   */
+  id: number;
+  /**
+   * The name of the deck configuration (preset).
+   */
+  name: string;
+  /**
+   * When the deck configuration was last modified.
+   *
+   * Must be an integer, unix time in seconds.
+   */
+  mtime_secs: number;
+  /**
+   * Update sequence number: Incremented when the deck configuration is changed.
+   * Used for syncing.
+   */
+  usn: number;
+  /**
+   * Protobuf encoded `DeckConfig.Config` message.
+   */
+  config: Uint8Array;
+}
+
+/**
+ * Representation of the Anki `notetypes` table (v18)
+ *
+ * Replaces `col.models` together with the `fields` and `templates` tables,
+ * one row per note type.
+ */
+export interface NoteTypesTable {
+  /**
+   * The note type ID.
+   */
+  id: number;
+  /**
+   * The name of the note type.
+   */
+  name: string;
+  /**
+   * When the note type was last modified.
+   *
+   * Must be an integer, unix time in seconds.
+   */
+  mtime_secs: number;
+  /**
+   * Update sequence number: Incremented when the note type is changed.
+   * Used for syncing.
+   */
+  usn: number;
+  /**
+   * Protobuf encoded `Notetype.Config` message.
+   */
+  config: Uint8Array;
+}
+
+/**
+ * Representation of the Anki `fields` table (v18)
+ *
+ * One row per field of a note type.
+ */
+export interface FieldsTable {
+  /**
+   * The ID of the note type the field belongs to.
+   */
+  ntid: number;
+  /**
+   * The order of the field in the note type.
+   */
+  ord: number;
+  /**
+   * The name of the field.
+   */
+  name: string;
+  /**
+   * Protobuf encoded `Notetype.Field.Config` message.
+   */
+  config: Uint8Array;
+}
+
+/**
+ * Representation of the Anki `templates` table (v18)
+ *
+ * One row per card template of a note type.
+ */
+export interface TemplatesTable {
+  /**
+   * The ID of the note type the template belongs to.
+   */
+  ntid: number;
+  /**
+   * The order of the template in the note type.
+   */
+  ord: number;
+  /**
+   * The name of the template.
+   */
+  name: string;
+  /**
+   * When the template was last modified.
+   *
+   * Must be an integer, unix time in seconds.
+   */
+  mtime_secs: number;
+  /**
+   * Update sequence number: Incremented when the template is changed.
+   * Used for syncing.
+   */
+  usn: number;
+  /**
+   * Protobuf encoded `Notetype.Template.Config` message.
+   */
+  config: Uint8Array;
+}
+
+/**
+ * Representation of the Anki `tags` table (v18)
+ *
+ * Replaces `col.tags`, one row per tag.
+ */
+export interface TagsTable {
+  /**
+   * The name of the tag.
+   */
+  tag: string;
+  /**
+   * Update sequence number: Incremented when the tag is changed.
+   * Used for syncing.
+   */
+  usn: number;
+  /**
+   * Whether the tag is collapsed in the browser sidebar.
+   */
+  collapsed: number;
+  /**
+   * Unused, always `null`.
+   */
+  config: Uint8Array | null;
+}
@@ -1,6 +1,6 @@
 /**
  * This file contains types representing Ankis APKG format v11.
- * The v18 format is not supported yet and will be in a separate file.
+ * The tables added with the v18 format are in `types-v18.ts`.
  *
  * For an exhaustive description see https://eikowagenknecht.de/posts/anki-apkg-format/ (post not written yet, "dissecting the anki apkg format" in the draft)
  */
@@ -458,13 +458,14 @@ export interface ColTable {
    */
   dconf: DeckConfigs;
   /**
-   * JSON object containing the tags in the collection.
+   * JSON object mapping the tags in the collection to their update sequence
+   * number.
    *
    * Note: The tags for the notes are stored in the `notes.tags` field.
-   * I have never seen this with any value but an empty "{}".
-   * Maybe it's not used.
+   * Exports of schema v11 always contain an empty "{}", in schema v18 the tags
+   * are read from the `tags` table.
    */
-  tags: Record<string, never>;
+  tags: Record<string, number>;
 }
 
 export interface Config {
@@ -1222,7 +1223,7 @@ export interface NoteType {
   /**
    * Not in use since 2021 (https://forums.ankiweb.net/t/is-req-still-used-or-present/9977)
    */
-  req: [number, "any" | "all", number[]][];
+  req: [number, "any" | "all" | "none", number[]][];
   /**
    * The original kind of the note type. Only set for the original Anki note types.
    */
@@ -1236,7 +1237,7 @@ export enum NoteTypeKind {
   CLOZE = 1,
 }
 
-enum OriginalStockKind {
+export enum OriginalStockKind {
   /** Unknown note type, probably not used. */
   UNKNOWN = 0,
   /** Basic note type, with one card. */
@@ -1253,7 +1254,7 @@ enum OriginalStockKind {
   IMAGE_OCCLUSION = 6,
 }
 
-interface Template {
+export interface Template {
   /**
    * A randomly generated ID, probably between
    * -9999999999999999999n and 9999999999999999999n
@@ -1,56 +1,12 @@
-import fs from "node:fs";
-import path from "node:path";
-
-import type { ZipEntryData } from "archiver";
-import archiver from "archiver";
 import { v7 as uuidv7 } from "uuid";
 
-const NUMERIC_STRING_PATTERN = /^\d+$/;
-
-/**
- * Converts a number to a base91 string representation.
- * @param num - The number to convert
- * @returns The encoded string
- */
-function base91(num: bigint): string {
-  const encodingTable =
-    "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!#$%&()*+,-./:;<=>?@[]^_`{|}~";
-
-  if (num === 0n) {
-    // Return first char for 0
-    return encodingTable.charAt(0);
-  }
+import { readLocalFile, writeLocalFile } from "@/storage/node-storage";
+import type { ZipWriterEntry } from "@/zip/zip-writer";
+import { writeZip } from "@/zip/zip-writer";
 
-  let currentNum = num;
-  let buf = "";
+export { guid64 } from "./guid";
 
-  while (currentNum) {
-    const mod = currentNum % BigInt(encodingTable.length);
-    currentNum /= BigInt(encodingTable.length);
-    const char = encodingTable.charAt(Number(mod));
-    buf = char + buf;
-  }
-
-  return buf;
-}
-
-/**
- * Generates a base91-encoded 64-bit random number
- * @returns A base91 encoded string representing a random 64-bit number
- */
-export function guid64(): string {
-  return base91(getRandomInt());
-}
-
-/**
- * Gets a random 64-bit integer (0 to 2^64 - 1)
- * @returns A random 64-bit integer
- */
-function getRandomInt() {
-  const bytes = crypto.getRandomValues(new Uint8Array(8));
-  const bytesAsBigInt = new DataView(bytes.buffer).getBigUint64(0, false);
-  return bytesAsBigInt;
-}
+const NUMERIC_STRING_PATTERN = /^-?\d+$/;
 
 export function generateUnixTimeInSeconds(): number {
   return Math.floor(Date.now() / 1000);
@@ -128,56 +84,22 @@ interface FileConfig {
  * Creates a ZIP file with selective compression for individual files.
  *
  * Allows fine-grained control over compression on a per-file basis.
+ * @deprecated Use `AnkiPackage.toAnkiExport()` to write Anki packages. This
+ * function only works in Node.js and will be removed in a future version.
  * @param outputPath - Path where the ZIP file should be created (parent directories will be created if needed)
  * @param files - Array of file configurations, each specifying the file path and whether to compress it
  * @returns Promise that resolves when ZIP creation is complete
  * @throws {Error} if file operations fail or archive creation encounters errors
  */
 export async function createSelectiveZip(outputPath: string, files: FileConfig[]): Promise<void> {
-  // Create the output directory if it doesn't exist
-  await fs.promises.mkdir(path.dirname(outputPath), { recursive: true });
-
-  const output = fs.createWriteStream(outputPath);
-  const archive = archiver("zip");
-
-  // Set up event handling using a separate promise
-  const closePromise = new Promise<void>((resolve, reject) => {
-    output.on("close", resolve);
-    output.on("error", reject); // Catch output stream errors
-    archive.on("error", reject);
-    archive.on("warning", (err: archiver.ArchiverError) => {
-      if (err.code === "ENOENT") {
-        console.warn("Warning:", err);
-      } else {
-        reject(err);
-      }
-    });
-  });
-
-  // Pipe archive data to the file
-  archive.pipe(output);
-
-  // Add each file with appropriate compression
-  for (const file of files) {
-    const filename = path.basename(file.path);
-    const opts: ZipEntryData = {
-      name: filename,
-      store: !file.compress,
-    };
-    archive.file(file.path, opts);
-  }
-
-  try {
-    // Finalize the archive and wait for completion
-    await archive.finalize();
-    await closePromise;
-
-    // console.log(`ZIP created successfully: ${archive.pointer()} total bytes`);
-  } catch (error) {
-    // Clean up the output stream if there's an error
-    output.destroy();
-    throw error; // Re-throw the error for handling by the caller
-  }
+  const entries = files.map(
+    (file): ZipWriterEntry => ({
+      compress: file.compress,
+      data: () => readLocalFile(file.path),
+      name: file.path.split(/[/\\]/).at(-1) ?? file.path,
+    }),
+  );
+  await writeLocalFile(outputPath, writeZip(entries));
 }
 
 export function joinAnkiFields(fields: string[]): string {
@@ -210,7 +132,7 @@ export function serializeWithBigInts(obj: unknown, space?: string | number): str
     (_key, value: unknown) =>
       typeof value === "bigint" ? `__BIGINT__${String(value)}__BIGINT__` : value,
     space,
-  ).replaceAll(/"__BIGINT__(\d+)__BIGINT__"/g, "$1");
+  ).replaceAll(/"__BIGINT__(-?\d+)__BIGINT__"/g, "$1");
 }
 
 /**
@@ -226,9 +148,13 @@ export function serializeWithBigInts(obj: unknown, space?: string | number): str
  * - Simple: `"id"`, `"timestamp"`, `"version"`
  * - Nested: `"user.id"`, `"profile.settings.apiKey"`
  * - Arrays: `"users[].id"`, `"posts[].comments[].authorId"`
+ * - Any key: `"*.id"` matches the `id` of every value of an object, e.g. of
+ *   objects keyed by ID
  * - Complex: `"data.records[].metadata.timestamps[].value"`
  * @param jsonString - The JSON string to parse
  * @param bigintFieldPaths - Array of field paths that should become BigInt values
+ * @param options - Options for the parsing
+ * @param options.allowNull - Whether target fields may be `null`, which is kept
  * @returns Parsed object with selective BigInt conversion applied
  * @throws {SyntaxError} When jsonString is not valid JSON
  * @throws {Error} When target fields contain non-numeric values (strings, booleans, null, etc.)
@@ -240,6 +166,10 @@ export function serializeWithBigInts(obj: unknown, space?: string | number): str
  * const json = '{"users":[{"profile":{"id":123,"timestamp":1699123456789}}]}';
  * const result = parseWithBigInts(json, ["users[].profile.timestamp"]);
  * @example
+ * // Objects keyed by ID
+ * const json = '{"1722337061626":{"flds":[{"id":5245795061146246917}]}}';
+ * const result = parseWithBigInts(json, ["*.flds[].id"]);
+ * @example
  * // Multiple fields
  * const json = '{"id":100,"user":{"id":9007199254740993},"users":[{"id":200}]}';
  * const result = parseWithBigInts(json, ["user.id", "users[].id"]);
@@ -250,10 +180,14 @@ export function serializeWithBigInts(obj: unknown, space?: string | number): str
  * //   users: [{ id: 456n }]       // BigInt (targeted by "users[].id")
  * // }
  */
-export function parseWithBigInts(jsonString: string, bigintFieldPaths: string[]): unknown {
+export function parseWithBigInts(
+  jsonString: string,
+  bigintFieldPaths: string[],
+  options: { allowNull?: boolean } = {},
+): unknown {
   // Phase 1: Validation - Parse JSON and validate target fields are numeric
   const parsedForValidation = JSON.parse(jsonString) as unknown;
-  validateTargetFieldsAreNumeric(parsedForValidation, bigintFieldPaths);
+  validateTargetFieldsAreNumeric(parsedForValidation, bigintFieldPaths, options.allowNull ?? false);
 
   // Phase 2: Preprocessing - Quote numeric values based on field names to prevent precision loss
   let preprocessedJson = jsonString;
@@ -277,13 +211,18 @@ export function parseWithBigInts(jsonString: string, bigintFieldPaths: string[])
  * - Wrong data types
  * @param parsedValue - The parsed JSON object to validate
  * @param targetPaths - Array of field paths that should contain numeric values (may include [] notation)
+ * @param allowNull - Whether target fields may be `null`
  * @throws {Error} When target fields contain any non-numeric values
  */
-function validateTargetFieldsAreNumeric(parsedValue: unknown, targetPaths: string[]): void {
+function validateTargetFieldsAreNumeric(
+  parsedValue: unknown,
+  targetPaths: string[],
+  allowNull: boolean,
+): void {
   for (const targetPath of targetPaths) {
     const values = getValuesAtPath(parsedValue, targetPath);
     for (const value of values) {
-      if (typeof value !== "number") {
+      if (typeof value !== "number" && !(allowNull && value === null)) {
         const pathParts = targetPath.replaceAll("[]", "").split(".");
         const fieldName = pathParts.at(-1) ?? "unknown";
         const valueStr = typeof value === "string" ? `"${value}"` : String(value);
@@ -327,6 +266,13 @@ function getValuesAtPath(obj: unknown, fieldPath: string): unknown[] {
           }
         }
       }
+    } else if (currentPart === ANY_KEY) {
+      // Traverse every value of the object
+      if (current && typeof current === "object" && !Array.isArray(current)) {
+        for (const value of Object.values(current)) {
+          traverse(value, remainingParts);
+        }
+      }
     } else {
       // Regular field access
       if (current && typeof current === "object" && !Array.isArray(current)) {
@@ -351,6 +297,7 @@ function getValuesAtPath(obj: unknown, fieldPath: string): unknown[] {
  *
  * **What gets quoted:**
  * - `"id": 123` → `"id": "123"` (unquoted integers)
+ * - `"id": -123` → `"id": "-123"` (negative integers)
  * - `"id": 999999999999999` → `"id": "999999999999999"` (large integers)
  *
  * **What does NOT get quoted:**
@@ -373,11 +320,30 @@ function quoteNumbersForFieldName(jsonString: string, fieldPath: string): string
   // Quote all occurrences of this field name with numeric values
   // Pattern matches: "fieldName": 123 -> "fieldName": "123"
   return jsonString.replaceAll(
-    new RegExp(`"${lastField}"\\s*:\\s*(\\d+)`, "g"),
+    new RegExp(`"${lastField}"\\s*:\\s*(-?\\d+)`, "g"),
     `"${lastField}":"$1"`,
   );
 }
 
+/** Path segment that matches any key of an object */
+const ANY_KEY = "*";
+
+/**
+ * Checks whether the path of a value matches a target path, whose segments
+ * may be `*` to match any key.
+ * @param currentPath - The path of the value in dot notation
+ * @param targetPath - The target path (may include [] notation and `*`)
+ * @returns True if the value is targeted
+ */
+function matchesPath(currentPath: string, targetPath: string): boolean {
+  const currentParts = currentPath.split(".");
+  const targetParts = targetPath.split(".");
+  return (
+    currentParts.length === targetParts.length &&
+    targetParts.every((part, index) => part === ANY_KEY || part === currentParts[index])
+  );
+}
+
 /**
  * Recursively processes parsed JSON values with precise path-aware BigInt conversion.
  * @param value - The current value being processed
@@ -395,7 +361,7 @@ function processValueWithPrecisePaths(
   }
 
   // Check if current path matches any target path
-  const shouldConvert = targetPaths.some((targetPath) => currentPath === targetPath);
+  const shouldConvert = targetPaths.some((targetPath) => matchesPath(currentPath, targetPath));
 
   // Check for string values that should be converted to BigInt (quoted numbers)
   if (typeof value === "string" && NUMERIC_STRING_PATTERN.test(value) && shouldConvert) {
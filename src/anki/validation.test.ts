@@ -0,0 +1,255 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  basicModel,
+  defaultConfig,
+  defaultDeck,
+  defaultDeckConfig,
+  defaultField,
+  defaultTemplate,
+} from "./constants";
+import type { RepairResult } from "./validation";
+import {
+  validateConfig,
+  validateDeck,
+  validateDeckConfig,
+  validateField,
+  validateNoteType,
+  validateTemplate,
+} from "./validation";
+
+function expectValid<T>(result: RepairResult<T>) {
+  if (!result.valid) {
+    throw new Error(`Expected a valid result, got: ${result.error}`);
+  }
+  return result;
+}
+
+function expectInvalid<T>(result: RepairResult<T>): string {
+  if (result.valid) {
+    throw new Error("Expected an invalid result");
+  }
+  return result.error;
+}
+
+describe("Collection validation", () => {
+  describe("validateConfig()", () => {
+    it("should accept a complete configuration without warnings", () => {
+      const result = validateConfig(defaultConfig);
+
+      expect(result.value).toEqual(defaultConfig);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it("should fill in missing properties", () => {
+      const { sched2021: _sched2021, ...config } = defaultConfig;
+
+      const result = validateConfig({ ...config, curDeck: 5 });
+
+      expect(result.value.sched2021).toBe(true);
+      expect(result.value.curDeck).toBe(5);
+      expect(result.warnings).toEqual([
+        "The collection configuration is missing the 'sched2021' property. The default value true is used.",
+      ]);
+    });
+
+    it("should replace invalid values", () => {
+      const result = validateConfig({ ...defaultConfig, activeDecks: ["1"], timeLim: "none" });
+
+      expect(result.value.activeDecks).toEqual([1]);
+      expect(result.value.timeLim).toBe(0);
+      expect(result.warnings).toEqual([
+        `The collection configuration has an invalid 'activeDecks' value ["1"]. The default value [1] is used.`,
+        `The collection configuration has an invalid 'timeLim' value "none". The default value 0 is used.`,
+      ]);
+    });
+
+    it("should keep unknown properties", () => {
+      const result = validateConfig({ ...defaultConfig, rollover: 4 });
+
+      expect(result.value).toHaveProperty("rollover", 4);
+    });
+
+    it("should use the default configuration for other values than objects", () => {
+      const result = validateConfig([]);
+
+      expect(result.value).toEqual(defaultConfig);
+      expect(result.warnings).toEqual([
+        "The collection configuration is invalid: not an object. The default configuration is used.",
+      ]);
+    });
+
+    it("should not share default values between collections", () => {
+      const result = validateConfig({});
+      result.value.activeDecks.push(2);
+
+      expect(defaultConfig.activeDecks).toEqual([1]);
+    });
+  });
+
+  describe("validateDeck()", () => {
+    it("should accept a complete deck without warnings", () => {
+      const result = expectValid(validateDeck("1", defaultDeck));
+
+      expect(result.value).toEqual(defaultDeck);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it("should repair optional properties", () => {
+      const { desc: _desc, ...deck } = defaultDeck;
+
+      const result = expectValid(validateDeck("1", { ...deck, collapsed: "yes", newToday: [0] }));
+
+      expect(result.value).toEqual(defaultDeck);
+      expect(result.warnings).toEqual([
+        `Deck '1' has an invalid 'collapsed' value "yes". The default value true is used.`,
+        "Deck '1' is missing the 'desc' property. The default value \"\" is used.",
+        "Deck '1' has an invalid 'newToday' value [0]. The default value [0,0] is used.",
+      ]);
+    });
+
+    it("should not warn about properties filtered decks do not have", () => {
+      const { conf: _conf, extendNew: _extendNew, extendRev: _extendRev, ...deck } = defaultDeck;
+
+      const result = expectValid(validateDeck("1", { ...deck, dyn: 1 }));
+
+      expect(result.value.conf).toBe(1);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it("should reject decks without a valid ID or name", () => {
+      expect(expectInvalid(validateDeck("1", { ...defaultDeck, id: "1" }))).toBe(
+        "missing or invalid 'id' field",
+      );
+      expect(expectInvalid(validateDeck("1", { ...defaultDeck, name: undefined }))).toBe(
+        "missing or invalid 'name' field",
+      );
+      expect(expectInvalid(validateDeck("1", null))).toBe("not an object");
+    });
+
+    it("should reject decks stored under another ID", () => {
+      expect(expectInvalid(validateDeck("2", defaultDeck))).toBe(
+        "deck ID mismatch: key is '2' but id field is '1'",
+      );
+    });
+  });
+
+  describe("validateDeckConfig()", () => {
+    it("should accept a complete deck configuration without warnings", () => {
+      const result = expectValid(validateDeckConfig("1", defaultDeckConfig));
+
+      expect(result.value).toEqual(defaultDeckConfig);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it("should repair the settings of new, review and lapsed cards", () => {
+      const result = expectValid(
+        validateDeckConfig("1", {
+          ...defaultDeckConfig,
+          lapse: "invalid",
+          new: { ...defaultDeckConfig.new, perDay: -1.5 },
+          rev: { ...defaultDeckConfig.rev, maxIvl: null },
+        }),
+      );
+
+      expect(result.value).toEqual(defaultDeckConfig);
+      expect(result.warnings).toEqual([
+        `Deck configuration '1' has an invalid 'lapse' value "invalid". The default value {"delays":[10],"leechAction":1,"leechFails":8,"minInt":1,"mult":0} is used.`,
+        "Deck configuration '1' (new cards) has an invalid 'perDay' value -1.5. The default value 20 is used.",
+        "Deck configuration '1' (review cards) has an invalid 'maxIvl' value null. The default value 36500 is used.",
+      ]);
+    });
+
+    it("should reject deck configurations without a valid ID", () => {
+      const { id: _id, ...deckConfig } = defaultDeckConfig;
+
+      expect(expectInvalid(validateDeckConfig("1", deckConfig))).toBe(
+        "missing or invalid 'id' field",
+      );
+      expect(expectInvalid(validateDeckConfig("2", defaultDeckConfig))).toBe(
+        "deck configuration ID mismatch: key is '2' but id field is '1'",
+      );
+    });
+  });
+
+  describe("validateNoteType()", () => {
+    const noteTypeId = basicModel.id.toString();
+
+    it("should accept a complete note type without warnings", () => {
+      const result = expectValid(validateNoteType(noteTypeId, basicModel));
+
+      expect(result.value).toEqual(basicModel);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it("should repair the note type, its fields and its templates", () => {
+      const { css: _css, ...noteType } = basicModel;
+
+      const result = expectValid(
+        validateNoteType(noteTypeId, {
+          ...noteType,
+          flds: basicModel.flds.map((field) => ({ ...field, size: "20" })),
+          tmpls: basicModel.tmpls.map(({ bfont: _bfont, ...template }) => template),
+        }),
+      );
+
+      expect(result.value.css).toContain(".card");
+      expect(result.value.flds.map((field) => field.size)).toEqual([20, 20]);
+      expect(result.value.tmpls[0]?.bfont).toBe("");
+      expect(result.warnings).toEqual([
+        `Note type '${noteTypeId}' is missing the 'css' property. The default value ${JSON.stringify(result.value.css)} is used.`,
+        `Note type '${noteTypeId}' field 1 has an invalid 'size' value "20". The default value 20 is used.`,
+        `Note type '${noteTypeId}' field 2 has an invalid 'size' value "20". The default value 20 is used.`,
+        `Note type '${noteTypeId}' template 1 is missing the 'bfont' property. The default value "" is used.`,
+      ]);
+    });
+
+    it("should reject note types with unusable fields or templates", () => {
+      expect(
+        expectInvalid(
+          validateNoteType(noteTypeId, {
+            ...basicModel,
+            flds: [basicModel.flds[0], { ...basicModel.flds[1], name: 2 }],
+          }),
+        ),
+      ).toBe("invalid field 2: missing or invalid 'name' field");
+      expect(
+        expectInvalid(
+          validateNoteType(noteTypeId, {
+            ...basicModel,
+            tmpls: [{ ...basicModel.tmpls[0], qfmt: undefined }],
+          }),
+        ),
+      ).toBe("invalid template 1: missing or invalid 'qfmt' field");
+    });
+
+    it("should reject note types without fields or templates", () => {
+      expect(expectInvalid(validateNoteType(noteTypeId, { ...basicModel, flds: {} }))).toBe(
+        "missing or invalid 'flds' field",
+      );
+      expect(expectInvalid(validateNoteType(noteTypeId, { ...basicModel, tmpls: undefined }))).toBe(
+        "missing or invalid 'tmpls' field",
+      );
+    });
+  });
+
+  describe("validateTemplate() and validateField()", () => {
+    it("should fill in the IDs older Anki versions did not assign without warnings", () => {
+      const template = expectValid(
+        validateTemplate({ afmt: "{{Back}}", name: "Card 1", ord: 0, qfmt: "{{Front}}" }, "Card 1"),
+      );
+      const field = expectValid(validateField({ name: "Front", ord: 0 }, "Front"));
+
+      expect(template.value).toEqual({
+        ...defaultTemplate,
+        afmt: "{{Back}}",
+        name: "Card 1",
+        ord: 0,
+        qfmt: "{{Front}}",
+      });
+      expect(template.warnings).toHaveLength(5);
+      expect(field.value).toEqual({ ...defaultField, name: "Front", ord: 0 });
+      expect(field.warnings.some((warning) => warning.includes("'id'"))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,517 @@
+import {
+  defaultConfig,
+  defaultDeck,
+  defaultDeckConfig,
+  defaultField,
+  defaultNoteType,
+  defaultTemplate,
+} from "./constants";
+import type { Config, Deck, DeckConfig, Field, NoteType, Template } from "./types";
+import { DeckDynamicity, NoteTypeKind } from "./types";
+
+/**
+ * Runtime validation of the JSON contents of the `col` table.
+ *
+ * The collection is read from files written by many Anki versions and add-ons,
+ * so its contents cannot be trusted to match the types. Properties without a
+ * value in `constants.ts` are required, an item missing them is rejected.
+ * Other properties that are missing or have an invalid value are replaced with
+ * the default value and reported as warnings.
+ */
+
+/**
+ * An item that was checked, with the properties that had to be repaired
+ */
+export interface Repaired<T> {
+  value: T;
+  /** Describes each property that was replaced with its default value */
+  warnings: string[];
+}
+
+/**
+ * Result of validating an item that cannot be repaired if a required property
+ * is missing or invalid
+ */
+export type RepairResult<T> = ({ valid: true } & Repaired<T>) | { valid: false; error: string };
+
+type Check = (value: unknown) => boolean;
+
+/**
+ * A check for each property of a type, so the compiler reports properties
+ * that are added to the type but not validated
+ */
+type PropertyChecks<T> = { readonly [K in keyof T]-?: Check };
+
+// #region Checks
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+const isBoolean: Check = (value) => typeof value === "boolean";
+const isNumber: Check = (value) => typeof value === "number" && Number.isFinite(value);
+const isInteger: Check = (value) => Number.isSafeInteger(value);
+const isString: Check = (value) => typeof value === "string";
+const isBigInt: Check = (value) => typeof value === "bigint";
+
+function nullable(check: Check): Check {
+  return (value) => value === null || check(value);
+}
+
+function arrayOf(check: Check): Check {
+  return (value) => Array.isArray(value) && value.every((item) => check(item));
+}
+
+function tupleOf(...checks: Check[]): Check {
+  return (value) =>
+    Array.isArray(value) &&
+    value.length === checks.length &&
+    checks.every((check, index) => check(value[index]));
+}
+
+function oneOf(...values: unknown[]): Check {
+  return (value) => values.includes(value);
+}
+
+// #endregion Checks
+
+// #region Property checks
+
+const configChecks: PropertyChecks<Config> = {
+  activeDecks: arrayOf(isInteger),
+  addToCur: isBoolean,
+  collapseTime: isNumber,
+  creationOffset: isInteger,
+  curDeck: isInteger,
+  curModel: isInteger,
+  dayLearnFirst: isBoolean,
+  dueCounts: isBoolean,
+  estTimes: isBoolean,
+  newSpread: isInteger,
+  nextPos: isInteger,
+  sched2021: isBoolean,
+  schedVer: isInteger,
+  sortBackwards: isBoolean,
+  sortType: isString,
+  timeLim: isNumber,
+};
+
+const dailyCount = tupleOf(isInteger, isNumber);
+
+const deckChecks: PropertyChecks<Deck> = {
+  browserCollapsed: isBoolean,
+  collapsed: isBoolean,
+  conf: isInteger,
+  desc: isString,
+  dyn: oneOf(DeckDynamicity.STATIC, DeckDynamicity.DYNAMIC),
+  extendNew: isInteger,
+  extendRev: isInteger,
+  id: isInteger,
+  lrnToday: dailyCount,
+  mod: isInteger,
+  name: isString,
+  newLimit: nullable(isInteger),
+  newLimitToday: nullable(isInteger),
+  newToday: dailyCount,
+  revToday: dailyCount,
+  reviewLimit: nullable(isInteger),
+  reviewLimitToday: nullable(isInteger),
+  timeToday: dailyCount,
+  usn: isInteger,
+};
+
+/**
+ * Properties Anki only writes for normal decks
+ */
+const normalDeckProperties = [
+  "conf",
+  "extendNew",
+  "extendRev",
+  "newLimit",
+  "newLimitToday",
+  "reviewLimit",
+  "reviewLimitToday",
+] as const satisfies (keyof Deck)[];
+
+const deckConfigChecks: PropertyChecks<DeckConfig> = {
+  answerAction: isInteger,
+  autoplay: isBoolean,
+  buryInterdayLearning: isBoolean,
+  desiredRetention: isNumber,
+  dyn: isBoolean,
+  fsrsWeights: arrayOf(isNumber),
+  id: isInteger,
+  ignoreRevlogsBeforeDate: isString,
+  interdayLearningMix: isInteger,
+  lapse: isObject,
+  maxTaken: isNumber,
+  mod: isInteger,
+  name: isString,
+  new: isObject,
+  newGatherPriority: isInteger,
+  newMix: isInteger,
+  newPerDayMinimum: isInteger,
+  newSortOrder: isInteger,
+  questionAction: isInteger,
+  replayq: isBoolean,
+  rev: isObject,
+  reviewOrder: isInteger,
+  secondsToShowAnswer: isNumber,
+  secondsToShowQuestion: isNumber,
+  sm2Retention: isNumber,
+  stopTimerOnAnswer: isBoolean,
+  timer: isInteger,
+  usn: isInteger,
+  waitForAudio: isBoolean,
+  weightSearch: isString,
+};
+
+const newCardsChecks: PropertyChecks<DeckConfig["new"]> = {
+  bury: isBoolean,
+  delays: arrayOf(isNumber),
+  initialFactor: isInteger,
+  ints: tupleOf(isInteger, isInteger, isInteger),
+  order: isInteger,
+  perDay: isInteger,
+};
+
+const reviewCardsChecks: PropertyChecks<DeckConfig["rev"]> = {
+  bury: isBoolean,
+  ease4: isNumber,
+  hardFactor: isNumber,
+  ivlFct: isNumber,
+  maxIvl: isInteger,
+  perDay: isInteger,
+};
+
+const lapsedCardsChecks: PropertyChecks<DeckConfig["lapse"]> = {
+  delays: arrayOf(isNumber),
+  leechAction: isInteger,
+  leechFails: isInteger,
+  minInt: isInteger,
+  mult: isNumber,
+};
+
+const noteTypeChecks: PropertyChecks<NoteType> = {
+  css: isString,
+  did: nullable(isInteger),
+  flds: Array.isArray,
+  id: isInteger,
+  latexPost: isString,
+  latexPre: isString,
+  latexsvg: nullable(isBoolean),
+  mod: isInteger,
+  name: isString,
+  originalStockKind: nullable(isInteger),
+  req: arrayOf(tupleOf(isInteger, oneOf("any", "all", "none"), arrayOf(isInteger))),
+  sortf: isInteger,
+  tmpls: Array.isArray,
+  type: oneOf(NoteTypeKind.STANDARD, NoteTypeKind.CLOZE),
+  usn: isInteger,
+};
+
+/**
+ * Anki leaves out the stock kind of note types that were not created from a
+ * stock note type
+ */
+const omittableNoteTypeProperties = ["originalStockKind"] as const satisfies (keyof NoteType)[];
+
+/**
+ * Older Anki versions did not assign IDs to fields and templates
+ */
+const omittableIdProperties = ["id"] as const satisfies (keyof Field & keyof Template)[];
+
+const templateChecks: PropertyChecks<Template> = {
+  afmt: isString,
+  bafmt: isString,
+  bfont: isString,
+  bqfmt: isString,
+  bsize: isInteger,
+  did: nullable(isInteger),
+  id: nullable(isBigInt),
+  name: isString,
+  ord: isInteger,
+  qfmt: isString,
+};
+
+const fieldChecks: PropertyChecks<Field> = {
+  collapsed: isBoolean,
+  description: isString,
+  excludeFromSearch: isBoolean,
+  font: isString,
+  id: nullable(isBigInt),
+  name: isString,
+  ord: isInteger,
+  plainText: isBoolean,
+  preventDeletion: isBoolean,
+  rtl: isBoolean,
+  size: isInteger,
+  sticky: isBoolean,
+  tag: nullable(isInteger),
+};
+
+// #endregion Property checks
+
+// #region Validators
+
+/**
+ * Validates the collection configuration (`col.conf`).
+ *
+ * All properties have a default value, so the configuration can always be
+ * repaired.
+ * @param data - The parsed configuration
+ * @returns The configuration with invalid properties replaced
+ */
+export function validateConfig(data: unknown): Repaired<Config> {
+  const result = repairProperties(
+    data,
+    configChecks,
+    defaultConfig,
+    "The collection configuration",
+  );
+  if (!result.valid) {
+    return {
+      value: structuredClone(defaultConfig),
+      warnings: [
+        `The collection configuration is invalid: ${result.error}. The default configuration is used.`,
+      ],
+    };
+  }
+  return result;
+}
+
+/**
+ * Validates a deck (an entry of `col.decks`).
+ * @param deckId - The key of the deck in `col.decks`
+ * @param data - The parsed deck
+ * @returns The deck with invalid properties replaced, or the reason it cannot be used
+ */
+export function validateDeck(deckId: string, data: unknown): RepairResult<Deck> {
+  const { id: _id, name: _name, ...defaults } = defaultDeck;
+  const omittable =
+    isObject(data) && data["dyn"] === DeckDynamicity.DYNAMIC ? normalDeckProperties : [];
+
+  const result = repairProperties(data, deckChecks, defaults, `Deck '${deckId}'`, omittable);
+  return result.valid ? checkId(result, "deck", deckId) : result;
+}
+
+/**
+ * Validates a deck configuration (an entry of `col.dconf`), including its
+ * settings for new, review and lapsed cards.
+ * @param deckConfigId - The key of the deck configuration in `col.dconf`
+ * @param data - The parsed deck configuration
+ * @returns The deck configuration with invalid properties replaced, or the reason it cannot be used
+ */
+export function validateDeckConfig(deckConfigId: string, data: unknown): RepairResult<DeckConfig> {
+  const label = `Deck configuration '${deckConfigId}'`;
+  const { id: _id, ...defaults } = defaultDeckConfig;
+
+  const result = repairProperties(data, deckConfigChecks, defaults, label);
+  if (!result.valid) {
+    return result;
+  }
+
+  const newCards = repairProperties(
+    result.value.new,
+    newCardsChecks,
+    defaultDeckConfig.new,
+    `${label} (new cards)`,
+  );
+  const reviewCards = repairProperties(
+    result.value.rev,
+    reviewCardsChecks,
+    defaultDeckConfig.rev,
+    `${label} (review cards)`,
+  );
+  const lapsedCards = repairProperties(
+    result.value.lapse,
+    lapsedCardsChecks,
+    defaultDeckConfig.lapse,
+    `${label} (lapsed cards)`,
+  );
+  // All nested properties have a default value
+  if (!newCards.valid || !reviewCards.valid || !lapsedCards.valid) {
+    return { error: "invalid card settings", valid: false };
+  }
+
+  return checkId(
+    {
+      valid: true,
+      value: {
+        ...result.value,
+        lapse: lapsedCards.value,
+        new: newCards.value,
+        rev: reviewCards.value,
+      },
+      warnings: [
+        ...result.warnings,
+        ...newCards.warnings,
+        ...reviewCards.warnings,
+        ...lapsedCards.warnings,
+      ],
+    },
+    "deck configuration",
+    deckConfigId,
+  );
+}
+
+/**
+ * Validates a note type (an entry of `col.models`), including its fields and
+ * templates.
+ *
+ * A note type with an unusable field or template cannot be used, as the notes
+ * depend on them.
+ * @param noteTypeId - The key of the note type in `col.models`
+ * @param data - The parsed note type
+ * @returns The note type with invalid properties replaced, or the reason it cannot be used
+ */
+export function validateNoteType(noteTypeId: string, data: unknown): RepairResult<NoteType> {
+  const label = `Note type '${noteTypeId}'`;
+
+  const result = repairProperties(
+    data,
+    noteTypeChecks,
+    defaultNoteType,
+    label,
+    omittableNoteTypeProperties,
+  );
+  if (!result.valid) {
+    return result;
+  }
+  const warnings = [...result.warnings];
+
+  const fields: Field[] = [];
+  for (const [index, fieldData] of (result.value.flds as unknown[]).entries()) {
+    const field = validateField(fieldData, `${label} field ${(index + 1).toFixed(0)}`);
+    if (!field.valid) {
+      return { error: `invalid field ${(index + 1).toFixed(0)}: ${field.error}`, valid: false };
+    }
+    fields.push(field.value);
+    warnings.push(...field.warnings);
+  }
+
+  const templates: Template[] = [];
+  for (const [index, templateData] of (result.value.tmpls as unknown[]).entries()) {
+    const template = validateTemplate(templateData, `${label} template ${(index + 1).toFixed(0)}`);
+    if (!template.valid) {
+      return {
+        error: `invalid template ${(index + 1).toFixed(0)}: ${template.error}`,
+        valid: false,
+      };
+    }
+    templates.push(template.value);
+    warnings.push(...template.warnings);
+  }
+
+  return checkId(
+    { valid: true, value: { ...result.value, flds: fields, tmpls: templates }, warnings },
+    "note type",
+    noteTypeId,
+  );
+}
+
+/**
+ * Validates a card template of a note type.
+ * @param data - The parsed template
+ * @param label - Describes the template in warnings
+ * @returns The template with invalid properties replaced, or the reason it cannot be used
+ */
+export function validateTemplate(data: unknown, label: string): RepairResult<Template> {
+  return repairProperties(data, templateChecks, defaultTemplate, label, omittableIdProperties);
+}
+
+/**
+ * Validates a field of a note type.
+ * @param data - The parsed field
+ * @param label - Describes the field in warnings
+ * @returns The field with invalid properties replaced, or the reason it cannot be used
+ */
+export function validateField(data: unknown, label: string): RepairResult<Field> {
+  return repairProperties(data, fieldChecks, defaultField, label, omittableIdProperties);
+}
+
+// #endregion Validators
+
+// #region Helpers
+
+/**
+ * Checks each property and replaces missing and invalid values with their
+ * default value. Unknown properties are kept.
+ * @param data - The item to check
+ * @param checks - The checks of all properties
+ * @param defaults - The default values, properties without one are required
+ * @param label - Describes the item in warnings
+ * @param omittable - Properties Anki leaves out, which are filled in without a warning
+ * @returns The repaired item, or the first required property that is missing or invalid
+ */
+function repairProperties<T>(
+  data: unknown,
+  checks: PropertyChecks<T>,
+  defaults: Partial<T>,
+  label: string,
+  omittable: readonly (keyof T)[] = [],
+): RepairResult<T> {
+  if (!isObject(data)) {
+    return { error: "not an object", valid: false };
+  }
+
+  const value: Record<string, unknown> = { ...data };
+  const warnings: string[] = [];
+  const defaultValues: Record<string, unknown> = defaults;
+
+  for (const [key, check] of Object.entries<Check>(checks)) {
+    if (check(data[key])) {
+      continue;
+    }
+    if (!Object.hasOwn(defaultValues, key)) {
+      return { error: `missing or invalid '${key}' field`, valid: false };
+    }
+
+    const defaultValue = defaultValues[key];
+    // Copy the default value, so changes to the item do not affect it
+    value[key] = structuredClone(defaultValue);
+
+    if (Object.hasOwn(data, key)) {
+      warnings.push(
+        `${label} has an invalid '${key}' value ${formatValue(data[key])}. The default value ${formatValue(defaultValue)} is used.`,
+      );
+    } else if (!(omittable as readonly string[]).includes(key)) {
+      warnings.push(
+        `${label} is missing the '${key}' property. The default value ${formatValue(defaultValue)} is used.`,
+      );
+    }
+  }
+
+  return { valid: true, value: value as T, warnings };
+}
+
+/**
+ * Checks that the ID of an item matches its key in the collection.
+ * @param result - The validated item
+ * @param itemName - The kind of item, used in the error
+ * @param key - The key of the item
+ * @returns The given result, or an error if the ID does not match the key
+ */
+function checkId<T extends { id: number }>(
+  result: { valid: true } & Repaired<T>,
+  itemName: string,
+  key: string,
+): RepairResult<T> {
+  const id = result.value.id.toString();
+  if (id !== key) {
+    return {
+      error: `${itemName} ID mismatch: key is '${key}' but id field is '${id}'`,
+      valid: false,
+    };
+  }
+  return result;
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  return JSON.stringify(value) ?? String(value);
+}
+
+// #endregion Helpers
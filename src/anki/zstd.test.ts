@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+
+import { readAll } from "@/storage/streams";
+
+import { compressZstd, compressZstdStream, decompressZstd, isZstdCompressed } from "./zstd";
+
+describe("compressZstd", () => {
+  it("should compress data that can be decompressed again", () => {
+    const data = new TextEncoder().encode("Anki ".repeat(1000));
+    const compressed = compressZstd(data);
+
+    expect(isZstdCompressed(compressed)).toBe(true);
+    expect(compressed.length).toBeLessThan(data.length);
+    expect(decompressZstd(compressed)).toEqual(data);
+  });
+
+  it("should compress streams", async () => {
+    const chunks = [new TextEncoder().encode("Front"), new TextEncoder().encode("Back")];
+    async function* source() {
+      yield* chunks;
+    }
+
+    const compressed = await readAll(compressZstdStream(source()));
+    expect(new TextDecoder().decode(decompressZstd(compressed))).toBe("FrontBack");
+  });
+});
@@ -0,0 +1,95 @@
+import type { Readable } from "node:stream";
+import type * as NodeZlib from "node:zlib";
+
+/**
+ * Zstandard frame magic number (0xFD2FB528, little endian)
+ */
+const ZSTD_MAGIC = new Uint8Array([0x28, 0xb5, 0x2f, 0xfd]);
+
+/**
+ * Checks whether the given data starts with a Zstandard frame header.
+ * @param data - The data to check
+ * @returns True if the data looks like zstd compressed content
+ */
+export function isZstdCompressed(data: Uint8Array): boolean {
+  return (
+    data.length >= ZSTD_MAGIC.length && ZSTD_MAGIC.every((byte, index) => data[index] === byte)
+  );
+}
+
+/**
+ * Decompresses Zstandard compressed data.
+ *
+ * Anki uses zstd for the database, the media mapping and the media files in
+ * the "latest" (v3) export format.
+ * @param data - The zstd compressed data
+ * @returns The decompressed data
+ * @throws {Error} if the data is not a valid zstd stream
+ */
+export function decompressZstd(data: Uint8Array): Uint8Array {
+  return new Uint8Array(getZstdModules().zlib.zstdDecompressSync(data));
+}
+
+/**
+ * Compresses data with Zstandard, like Anki does for the "latest" (v3)
+ * export format.
+ * @param data - The data to compress
+ * @returns The zstd compressed data
+ */
+export function compressZstd(data: Uint8Array): Uint8Array {
+  return new Uint8Array(getZstdModules().zlib.zstdCompressSync(data));
+}
+
+/**
+ * Compresses a stream of data with Zstandard.
+ * @param source - The chunks of the data
+ * @yields The chunks of the zstd compressed data
+ */
+export async function* compressZstdStream(
+  source: AsyncIterable<Uint8Array>,
+): AsyncGenerator<Uint8Array> {
+  const modules = getZstdModules();
+  const input = modules.Readable.from(source);
+  const compress = modules.zlib.createZstdCompress();
+  input.on("error", (error) => compress.destroy(error));
+  yield* input.pipe(compress);
+}
+
+/**
+ * Decompresses a stream of Zstandard compressed data.
+ * @param source - The chunks of the zstd compressed data
+ * @yields The chunks of the decompressed data
+ * @throws {Error} if the data is not a valid zstd stream
+ */
+export async function* decompressZstdStream(
+  source: AsyncIterable<Uint8Array>,
+): AsyncGenerator<Uint8Array> {
+  const modules = getZstdModules();
+  const input = modules.Readable.from(source);
+  const decompress = modules.zlib.createZstdDecompress();
+  input.on("error", (error) => decompress.destroy(error));
+  yield* input.pipe(decompress);
+}
+
+/**
+ * Gets the Node.js modules used for zstd, the only implementation available.
+ *
+ * They are loaded synchronously on first use instead of being imported, so
+ * this module can be loaded in runtimes without Node.js APIs.
+ * @returns `Readable` of `node:stream` and the `node:zlib` module
+ * @throws {Error} if the runtime does not provide Node.js modules
+ */
+function getZstdModules(): {
+  Readable: typeof Readable;
+  zlib: typeof NodeZlib;
+} {
+  if (typeof process === "undefined" || typeof process.getBuiltinModule !== "function") {
+    throw new TypeError(
+      "Zstandard compression is not available in this runtime. It requires the node:zlib module of Node.js 22.15 or later.",
+    );
+  }
+  return {
+    Readable: process.getBuiltinModule("node:stream").Readable,
+    zlib: process.getBuiltinModule("node:zlib"),
+  };
+}
@@ -6,3 +6,8 @@ export * from "./anki/util";
 export type { ConversionIssue, ConversionOptions, ConversionResult } from "./error-handling";
 export { IssueCollector } from "./error-handling";
 export * from "./srs-package";
+export { MemoryStorageBackend } from "./storage/memory-storage";
+export type { NodeStorageBackendOptions } from "./storage/node-storage";
+export { NodeStorageBackend } from "./storage/node-storage";
+export { OpfsStorageBackend } from "./storage/opfs-storage";
+export type { Storage, StorageBackend } from "./storage/storage";
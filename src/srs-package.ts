@@ -9,6 +9,7 @@ import { generateUuid } from "./anki/util";
  */
 export class SrsPackage {
   private decks: SrsDeck[];
+  private deckPresets: SrsDeckPreset[];
   private noteTypes: SrsNoteType[];
   private notes: SrsNote[];
   private cards: SrsCard[];
@@ -16,6 +17,7 @@ export class SrsPackage {
 
   constructor() {
     this.decks = [];
+    this.deckPresets = [];
     this.noteTypes = [];
     this.notes = [];
     this.cards = [];
@@ -27,11 +29,90 @@ export class SrsPackage {
   }
 
   public addDeck(deck: SrsDeck) {
+    if (deck.parentId !== undefined && !this.decks.some((d) => d.id === deck.parentId)) {
+      throw new Error(`Parent deck ${deck.parentId} does not exist.`);
+    }
+    if (deck.presetId !== undefined && !this.deckPresets.some((p) => p.id === deck.presetId)) {
+      throw new Error(`Deck preset ${deck.presetId} does not exist.`);
+    }
+
     this.decks.push(deck);
   }
 
+  /**
+   * Removes a deck and its subdecks.
+   * @param deckId The ID of the deck to remove.
+   */
   public removeDeck(deckId: string) {
-    this.decks = this.decks.filter((deck) => deck.id !== deckId);
+    const removedIds = new Set([deckId, ...this.getSubdecks(deckId).map((deck) => deck.id)]);
+    this.decks = this.decks.filter((deck) => !removedIds.has(deck.id));
+  }
+
+  /**
+   * Gets the parent of a deck.
+   * @param deckId The ID of the deck.
+   * @returns The parent deck, or undefined for top-level decks.
+   */
+  public getParentDeck(deckId: string): SrsDeck | undefined {
+    const parentId = this.decks.find((deck) => deck.id === deckId)?.parentId;
+    return parentId === undefined ? undefined : this.decks.find((deck) => deck.id === parentId);
+  }
+
+  /**
+   * Gets the direct subdecks of a deck.
+   * @param deckId The ID of the deck, or undefined for the top-level decks.
+   * @returns The subdecks in the order they were added.
+   */
+  public getChildDecks(deckId?: string): readonly SrsDeck[] {
+    return this.decks.filter((deck) => deck.parentId === deckId);
+  }
+
+  /**
+   * Gets all subdecks of a deck, including the subdecks of its subdecks.
+   * @param deckId The ID of the deck.
+   * @returns The subdecks, each followed by its own subdecks.
+   */
+  public getSubdecks(deckId: string): readonly SrsDeck[] {
+    return this.getChildDecks(deckId).flatMap((deck) => [deck, ...this.getSubdecks(deck.id)]);
+  }
+
+  /**
+   * Gets the path of a deck in the hierarchy, e.g. to build the full name of
+   * the deck.
+   * @param deckId The ID of the deck.
+   * @returns The decks from the top-level deck down to the deck itself, or an empty list if the deck does not exist.
+   */
+  public getDeckPath(deckId: string): readonly SrsDeck[] {
+    const path: SrsDeck[] = [];
+    let deck = this.decks.find((d) => d.id === deckId);
+    while (deck && !path.includes(deck)) {
+      path.unshift(deck);
+      deck = deck.parentId === undefined ? undefined : this.getParentDeck(deck.id);
+    }
+    return path;
+  }
+
+  public getDeckPresets(): readonly SrsDeckPreset[] {
+    return [...this.deckPresets];
+  }
+
+  public addDeckPreset(preset: SrsDeckPreset) {
+    this.deckPresets.push(preset);
+  }
+
+  /**
+   * Removes a deck preset. The decks that used it use the default options.
+   * @param presetId The ID of the preset to remove.
+   */
+  public removeDeckPreset(presetId: string) {
+    this.deckPresets = this.deckPresets.filter((preset) => preset.id !== presetId);
+    this.decks = this.decks.map((deck) => {
+      if (deck.presetId !== presetId) {
+        return deck;
+      }
+      const { presetId: _presetId, ...deckWithoutPreset } = deck;
+      return deckWithoutPreset;
+    });
   }
 
   public getNoteTypes(): readonly SrsNoteType[] {
@@ -137,10 +218,16 @@ export class SrsPackage {
   }
 
   public removeUnused() {
-    // Decks are used if they are referenced by any notes
-    const usedDeckIds = new Set(this.notes.map((note) => note.deckId));
+    // Decks are used if they are referenced by any notes, or if they are the parents of used decks
+    const usedDeckIds = new Set(
+      this.notes.flatMap((note) => this.getDeckPath(note.deckId).map((deck) => deck.id)),
+    );
     this.decks = this.decks.filter((deck) => usedDeckIds.has(deck.id));
 
+    // Deck presets are used if they are referenced by any decks
+    const usedPresetIds = new Set(this.decks.map((deck) => deck.presetId));
+    this.deckPresets = this.deckPresets.filter((preset) => usedPresetIds.has(preset.id));
+
     // Note types are used if they are referenced by any notes
     const usedNoteTypeIds = new Set(this.notes.map((note) => note.noteTypeId));
     this.noteTypes = this.noteTypes.filter((noteType) => usedNoteTypeIds.has(noteType.id));
@@ -154,10 +241,43 @@ export class SrsPackage {
 export interface SrsDeck {
   /** UUIDv7 identifier */
   id: string;
-  /** Name of the deck */
+  /** Name of the deck, without the names of its parent decks */
   name: string;
+  /** The parent deck (UUIDv7), top-level decks have none */
+  parentId?: string;
   /** Description of the deck */
   description?: string;
+  /** The options preset of the deck (UUIDv7), decks without one use the default options */
+  presetId?: string;
+  /** Maximum number of new cards per day in this deck, overrides the limit of the preset */
+  newCardsPerDay?: number;
+  /** Maximum number of reviews per day in this deck, overrides the limit of the preset */
+  reviewsPerDay?: number;
+  /** Additional data that is specific to the application */
+  applicationSpecificData?: Record<string, string>;
+}
+
+/**
+ * Options how the cards of decks are studied, shared by all decks that use
+ * the preset. Options that are not set use the defaults of the application.
+ */
+export interface SrsDeckPreset {
+  /** UUIDv7 identifier */
+  id: string;
+  /** Name of the preset, e.g. "Vocabulary" */
+  name: string;
+  /** Maximum number of new cards per day */
+  newCardsPerDay?: number;
+  /** Maximum number of reviews per day */
+  reviewsPerDay?: number;
+  /** Delays between the learning steps of new cards in minutes, e.g. [1, 10] */
+  learningSteps?: number[];
+  /** Delays between the learning steps of forgotten cards in minutes, e.g. [10] */
+  relearningSteps?: number[];
+  /** Maximum interval between reviews in days */
+  maximumInterval?: number;
+  /** Probability of remembering a card the scheduler aims for, between 0 and 1 */
+  desiredRetention?: number;
   /** Additional data that is specific to the application */
   applicationSpecificData?: Record<string, string>;
 }
@@ -320,6 +440,16 @@ export function createDeck(
   return { ...input, id } as SrsDeck;
 }
 
+export function createDeckPreset(
+  input: Omit<SrsDeckPreset, "id"> & {
+    id?: string;
+  },
+): SrsDeckPreset {
+  const id = input.id ?? generateUuid();
+
+  return { ...input, id };
+}
+
 export function createNote<T extends SrsNoteType>(
   input: Omit<SrsNote<T>, "id"> & { id?: string },
   noteType: T,
@@ -394,21 +524,24 @@ export const BasicAndReverseNote = {
       questionTemplate: "{{Front}}",
     },
     {
-      answerTemplate: "{{Back}}",
+      answerTemplate: "{{Front}}",
       id: 1,
       name: "Back > Front",
-      questionTemplate: "{{Front}}",
+      questionTemplate: "{{Back}}",
     },
   ],
 } as const satisfies SrsNoteType;
 
 export const ClozeNote = {
-  fields: [{ id: 0, name: "Text" }],
+  fields: [
+    { id: 0, name: "Text" },
+    { id: 1, name: "Back Extra" },
+  ],
   id: "019343de-833d-736d-bcda-af3d2c567ea3",
   name: "Cloze (srs-converter)",
   templates: [
     {
-      answerTemplate: "{{cloze:Text}}",
+      answerTemplate: "{{cloze:Text}}<br>\n{{Back Extra}}",
       id: 0,
       name: "Cloze",
       questionTemplate: "{{cloze:Text}}",
@@ -0,0 +1,63 @@
+import type { Storage, StorageBackend } from "./storage";
+import { readAll } from "./streams";
+
+/**
+ * Keeps the files of a package in memory.
+ *
+ * Works in every runtime, but large media collections need a lot of memory.
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  createStorage(): Promise<Storage> {
+    return Promise.resolve(new MemoryStorage(`memory://srsconverter-${crypto.randomUUID()}`));
+  }
+}
+
+class MemoryStorage implements Storage {
+  readonly location: string;
+  private files = new Map<string, Uint8Array>();
+
+  constructor(location: string) {
+    this.location = location;
+  }
+
+  async writeFile(name: string, data: Uint8Array | AsyncIterable<Uint8Array>): Promise<void> {
+    // Copy the data, so later changes by the caller do not affect the file
+    this.files.set(name, data instanceof Uint8Array ? new Uint8Array(data) : await readAll(data));
+  }
+
+  readFile(name: string): Promise<Uint8Array> {
+    const file = this.files.get(name);
+    if (file === undefined) {
+      return Promise.reject(new Error(`File '${name}' does not exist in ${this.location}`));
+    }
+    return Promise.resolve(file);
+  }
+
+  async *readStream(name: string): AsyncGenerator<Uint8Array> {
+    yield await this.readFile(name);
+  }
+
+  getSize(name: string): Promise<number | undefined> {
+    return Promise.resolve(this.files.get(name)?.length);
+  }
+
+  exists(name: string): Promise<boolean> {
+    return Promise.resolve(this.files.has(name));
+  }
+
+  list(): Promise<string[]> {
+    return Promise.resolve([...this.files.keys()]);
+  }
+
+  removeFile(name: string): Promise<void> {
+    if (!this.files.delete(name)) {
+      return Promise.reject(new Error(`File '${name}' does not exist in ${this.location}`));
+    }
+    return Promise.resolve();
+  }
+
+  destroy(): Promise<void> {
+    this.files.clear();
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,197 @@
+import type { ZipSource } from "@/zip/zip-reader";
+
+import type { Storage, StorageBackend } from "./storage";
+
+// The Node.js modules are imported on first use, so this module can be loaded
+// in runtimes without them.
+
+export interface NodeStorageBackendOptions {
+  /**
+   * The directory the temporary directories are created in.
+   * Defaults to the temporary directory of the operating system.
+   */
+  directory?: string;
+}
+
+/**
+ * Keeps the files of a package in a temporary directory on the file system.
+ *
+ * Requires the `node:fs` APIs, which Bun and Deno provide as well.
+ */
+export class NodeStorageBackend implements StorageBackend {
+  private directory: string | undefined;
+
+  constructor(options: NodeStorageBackendOptions = {}) {
+    this.directory = options.directory;
+  }
+
+  async createStorage(): Promise<Storage> {
+    const [{ mkdtemp }, { tmpdir }, { join }] = await Promise.all([
+      import("node:fs/promises"),
+      import("node:os"),
+      import("node:path"),
+    ]);
+    return new NodeStorage(await mkdtemp(join(this.directory ?? tmpdir(), "srsconverter-")));
+  }
+}
+
+class NodeStorage implements Storage {
+  readonly location: string;
+
+  constructor(location: string) {
+    this.location = location;
+  }
+
+  async writeFile(name: string, data: Uint8Array | AsyncIterable<Uint8Array>): Promise<void> {
+    const { writeFile } = await import("node:fs/promises");
+    await writeFile(await this.getPath(name), data);
+  }
+
+  async readFile(name: string): Promise<Uint8Array> {
+    const { readFile } = await import("node:fs/promises");
+    return await readFile(await this.getPath(name));
+  }
+
+  async *readStream(name: string): AsyncGenerator<Uint8Array> {
+    yield* readLocalFile(await this.getPath(name));
+  }
+
+  async getSize(name: string): Promise<number | undefined> {
+    const { stat } = await import("node:fs/promises");
+    const stats = await stat(await this.getPath(name)).catch(() => null);
+    return stats?.size;
+  }
+
+  async exists(name: string): Promise<boolean> {
+    return (await this.getSize(name)) !== undefined;
+  }
+
+  async list(): Promise<string[]> {
+    const { readdir } = await import("node:fs/promises");
+    return await readdir(this.location);
+  }
+
+  async removeFile(name: string): Promise<void> {
+    const { rm } = await import("node:fs/promises");
+    await rm(await this.getPath(name));
+  }
+
+  async destroy(): Promise<void> {
+    const { rm } = await import("node:fs/promises");
+    await rm(this.location, { recursive: true });
+  }
+
+  private async getPath(name: string): Promise<string> {
+    const { join } = await import("node:path");
+    return join(this.location, name);
+  }
+}
+
+/**
+ * Opens a file on the file system for random access, e.g. to read a ZIP
+ * archive without loading it completely.
+ *
+ * The file stays open until the source is closed.
+ * @param path - The path of the file
+ * @returns The file as a source for `ZipReader`
+ */
+export async function openLocalFile(path: string): Promise<ZipSource> {
+  const { open } = await import("node:fs/promises");
+  const handle = await open(path, "r");
+
+  let size: number;
+  try {
+    ({ size } = await handle.stat());
+  } catch (error) {
+    await handle.close();
+    throw error;
+  }
+
+  return {
+    size,
+    async read(offset, length) {
+      const buffer = new Uint8Array(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, offset);
+      return buffer.subarray(0, bytesRead);
+    },
+    close: async () => {
+      await handle.close();
+    },
+  };
+}
+
+/**
+ * Gets the size of a file on the file system.
+ * @param path - The path of the file
+ * @returns The size in bytes, or undefined if there is no file at the path
+ */
+export async function getLocalFileSize(path: string): Promise<number | undefined> {
+  const { stat } = await import("node:fs/promises");
+  const stats = await stat(path).catch(() => null);
+  return stats?.isFile() ? stats.size : undefined;
+}
+
+/**
+ * Lists the files in a directory on the file system. Subdirectories and
+ * hidden files (names starting with a dot) are left out.
+ * @param directory - The path of the directory
+ * @returns The names, paths and sizes of the files sorted by name, or undefined if there is no directory at the path
+ */
+export async function listLocalFiles(
+  directory: string,
+): Promise<{ name: string; path: string; size: number }[] | undefined> {
+  const [{ readdir, stat }, { join }] = await Promise.all([
+    import("node:fs/promises"),
+    import("node:path"),
+  ]);
+
+  const entries = await readdir(directory, { withFileTypes: true }).catch(() => null);
+  if (entries === null) {
+    return undefined;
+  }
+
+  const files = entries
+    .filter((entry) => entry.isFile() && !entry.name.startsWith("."))
+    .map((entry) => entry.name)
+    .sort();
+  return await Promise.all(
+    files.map(async (name) => {
+      const path = join(directory, name);
+      const { size } = await stat(path);
+      return { name, path, size };
+    }),
+  );
+}
+
+/**
+ * Reads a file on the file system in chunks.
+ * @param path - The path of the file
+ * @yields The chunks of the file
+ */
+export async function* readLocalFile(path: string): AsyncGenerator<Uint8Array> {
+  const { createReadStream } = await import("node:fs");
+  yield* createReadStream(path);
+}
+
+/**
+ * Writes a file to the file system and creates its parent directories.
+ *
+ * A partially written file is removed if writing fails.
+ * @param path - The path of the file
+ * @param data - The chunks of the file
+ */
+export async function writeLocalFile(path: string, data: AsyncIterable<Uint8Array>): Promise<void> {
+  const [{ mkdir, rm, writeFile }, { dirname }] = await Promise.all([
+    import("node:fs/promises"),
+    import("node:path"),
+  ]);
+
+  await mkdir(dirname(path), { recursive: true });
+  try {
+    await writeFile(path, data);
+  } catch (error) {
+    // Keep the original error if the file cannot be removed either
+    await rm(path, { force: true }).catch(() => null);
+    throw error;
+  }
+}
@@ -0,0 +1,97 @@
+import type { Storage, StorageBackend } from "./storage";
+import { readChunks } from "./streams";
+
+/**
+ * Keeps the files of a package in the Origin Private File System of a browser.
+ *
+ * Each package gets its own directory below the root of the origin. Files are
+ * written with `FileSystemFileHandle.createWritable()`, so make sure the
+ * targeted browsers support it.
+ * @see https://developer.mozilla.org/en-US/docs/Web/API/File_System_API/Origin_private_file_system
+ */
+export class OpfsStorageBackend implements StorageBackend {
+  async createStorage(): Promise<Storage> {
+    const root = await navigator.storage.getDirectory();
+    const name = `srsconverter-${crypto.randomUUID()}`;
+    return new OpfsStorage(root, name, await root.getDirectoryHandle(name, { create: true }));
+  }
+}
+
+class OpfsStorage implements Storage {
+  readonly location: string;
+  private root: FileSystemDirectoryHandle;
+  private name: string;
+  private directory: FileSystemDirectoryHandle;
+
+  constructor(root: FileSystemDirectoryHandle, name: string, directory: FileSystemDirectoryHandle) {
+    this.location = `opfs://${name}`;
+    this.root = root;
+    this.name = name;
+    this.directory = directory;
+  }
+
+  async writeFile(name: string, data: Uint8Array | AsyncIterable<Uint8Array>): Promise<void> {
+    const handle = await this.directory.getFileHandle(name, { create: true });
+    const writable = await handle.createWritable();
+    try {
+      if (data instanceof Uint8Array) {
+        await writable.write(new Uint8Array(data));
+      } else {
+        for await (const chunk of readChunks(data)) {
+          await writable.write(new Uint8Array(chunk));
+        }
+      }
+      await writable.close();
+    } catch (error) {
+      await writable.abort();
+      throw error;
+    }
+  }
+
+  async readFile(name: string): Promise<Uint8Array> {
+    const file = await this.getFile(name);
+    return new Uint8Array(await file.arrayBuffer());
+  }
+
+  async *readStream(name: string): AsyncGenerator<Uint8Array> {
+    const file = await this.getFile(name);
+    yield* readChunks(file.stream());
+  }
+
+  async getSize(name: string): Promise<number | undefined> {
+    try {
+      const file = await this.getFile(name);
+      return file.size;
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "NotFoundError") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async exists(name: string): Promise<boolean> {
+    return (await this.getSize(name)) !== undefined;
+  }
+
+  async list(): Promise<string[]> {
+    const names: string[] = [];
+    for await (const name of this.directory.keys()) {
+      names.push(name);
+    }
+    return names;
+  }
+
+  async removeFile(name: string): Promise<void> {
+    await this.directory.removeEntry(name);
+  }
+
+  async destroy(): Promise<void> {
+    await this.root.removeEntry(this.name, { recursive: true });
+  }
+
+  private async getFile(name: string): Promise<File> {
+    const handle = await this.directory.getFileHandle(name);
+    return await handle.getFile();
+  }
+}
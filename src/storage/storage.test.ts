@@ -0,0 +1,210 @@
+import { access } from "node:fs/promises";
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { MemoryStorageBackend } from "./memory-storage";
+import { NodeStorageBackend } from "./node-storage";
+import { OpfsStorageBackend } from "./opfs-storage";
+import type { StorageBackend } from "./storage";
+import { getDefaultStorageBackend } from "./storage";
+import { readAll } from "./streams";
+
+// Minimal in-memory implementation of the OPFS handles used by the OPFS backend
+class FakeDirectoryHandle {
+  private entries = new Map<string, FakeDirectoryHandle | FakeFileHandle>();
+
+  getDirectoryHandle(name: string, options?: { create?: boolean }) {
+    return Promise.resolve(this.getEntry(name, options, () => new FakeDirectoryHandle()));
+  }
+
+  getFileHandle(name: string, options?: { create?: boolean }) {
+    return Promise.resolve(this.getEntry(name, options, () => new FakeFileHandle(name)));
+  }
+
+  removeEntry(name: string) {
+    if (!this.entries.delete(name)) {
+      return Promise.reject(new DOMException(`${name} not found`, "NotFoundError"));
+    }
+    return Promise.resolve();
+  }
+
+  async *keys() {
+    yield* this.entries.keys();
+  }
+
+  private getEntry<T extends FakeDirectoryHandle | FakeFileHandle>(
+    name: string,
+    options: { create?: boolean } | undefined,
+    create: () => T,
+  ): T {
+    const existing = this.entries.get(name);
+    if (existing) {
+      return existing as T;
+    }
+    if (!options?.create) {
+      throw new DOMException(`${name} not found`, "NotFoundError");
+    }
+    const entry = create();
+    this.entries.set(name, entry);
+    return entry;
+  }
+}
+
+class FakeFileHandle {
+  private name: string;
+  private chunks: Uint8Array[] = [];
+
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  createWritable() {
+    const written: Uint8Array[] = [];
+    return Promise.resolve({
+      abort: () => Promise.resolve(),
+      close: () => {
+        this.chunks = written;
+        return Promise.resolve();
+      },
+      write: (chunk: Uint8Array) => {
+        written.push(chunk);
+        return Promise.resolve();
+      },
+    });
+  }
+
+  getFile() {
+    return Promise.resolve(new File(this.chunks as BlobPart[], this.name));
+  }
+}
+
+const encoder = new TextEncoder();
+
+describe("Storage backends", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe.each<[string, () => StorageBackend]>([
+    ["MemoryStorageBackend", () => new MemoryStorageBackend()],
+    ["NodeStorageBackend", () => new NodeStorageBackend()],
+    [
+      "OpfsStorageBackend",
+      () => {
+        vi.stubGlobal("navigator", {
+          storage: { getDirectory: () => Promise.resolve(new FakeDirectoryHandle()) },
+        });
+        return new OpfsStorageBackend();
+      },
+    ],
+  ])("%s", (_name, createBackend) => {
+    it("should write and read files", async () => {
+      const storage = await createBackend().createStorage();
+
+      try {
+        await storage.writeFile("meta", encoder.encode("from bytes"));
+        await storage.writeFile(
+          "media",
+          (async function* chunks() {
+            yield encoder.encode("from ");
+            yield encoder.encode("a stream");
+          })(),
+        );
+
+        expect(new TextDecoder().decode(await storage.readFile("meta"))).toBe("from bytes");
+        expect(new TextDecoder().decode(await readAll(storage.readStream("media")))).toBe(
+          "from a stream",
+        );
+        expect(await storage.getSize("media")).toBe(13);
+        const names = await storage.list();
+        expect(names.sort()).toEqual(["media", "meta"]);
+      } finally {
+        await storage.destroy();
+      }
+    });
+
+    it("should replace existing files", async () => {
+      const storage = await createBackend().createStorage();
+
+      try {
+        await storage.writeFile("0", encoder.encode("old content"));
+        await storage.writeFile("0", encoder.encode("new"));
+
+        expect(new TextDecoder().decode(await storage.readFile("0"))).toBe("new");
+        expect(await storage.getSize("0")).toBe(3);
+      } finally {
+        await storage.destroy();
+      }
+    });
+
+    it("should report missing files", async () => {
+      const storage = await createBackend().createStorage();
+
+      try {
+        expect(await storage.exists("missing")).toBe(false);
+        expect(await storage.getSize("missing")).toBeUndefined();
+        await expect(storage.readFile("missing")).rejects.toThrow();
+        await expect(storage.removeFile("missing")).rejects.toThrow();
+      } finally {
+        await storage.destroy();
+      }
+    });
+
+    it("should remove files", async () => {
+      const storage = await createBackend().createStorage();
+
+      try {
+        await storage.writeFile("0", encoder.encode("content"));
+        expect(await storage.exists("0")).toBe(true);
+
+        await storage.removeFile("0");
+
+        expect(await storage.exists("0")).toBe(false);
+        expect(await storage.list()).toEqual([]);
+      } finally {
+        await storage.destroy();
+      }
+    });
+
+    it("should keep the files of different storages apart", async () => {
+      const backend = createBackend();
+      const first = await backend.createStorage();
+      const second = await backend.createStorage();
+
+      try {
+        await first.writeFile("0", encoder.encode("content"));
+
+        expect(first.location).not.toBe(second.location);
+        expect(await second.exists("0")).toBe(false);
+      } finally {
+        await first.destroy();
+        await second.destroy();
+      }
+    });
+  });
+
+  describe("NodeStorageBackend", () => {
+    it("should create and remove a temporary directory", async () => {
+      const storage = await new NodeStorageBackend().createStorage();
+
+      expect(storage.location).toMatch(/srsconverter-/);
+      await access(storage.location);
+
+      await storage.destroy();
+
+      await expect(access(storage.location)).rejects.toThrow();
+    });
+  });
+
+  describe("getDefaultStorageBackend()", () => {
+    it("should use the file system with Node.js", () => {
+      expect(getDefaultStorageBackend()).toBeInstanceOf(NodeStorageBackend);
+    });
+
+    it("should use memory in other runtimes", () => {
+      vi.stubGlobal("process", { versions: {} });
+
+      expect(getDefaultStorageBackend()).toBeInstanceOf(MemoryStorageBackend);
+    });
+  });
+});
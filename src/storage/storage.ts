@@ -0,0 +1,84 @@
+import { MemoryStorageBackend } from "./memory-storage";
+import { NodeStorageBackend } from "./node-storage";
+
+/**
+ * A flat set of named files an `AnkiPackage` keeps while it is open, e.g. the
+ * extracted collection and the media files that were added.
+ *
+ * Implementations must not depend on a specific runtime in their module
+ * scope, so all backends can be imported everywhere.
+ */
+export interface Storage {
+  /**
+   * Describes where the files are kept, e.g. the path of a directory.
+   */
+  readonly location: string;
+  /**
+   * Creates or replaces a file.
+   * @param name - The name of the file
+   * @param data - The contents as bytes or as a stream of chunks
+   */
+  writeFile(name: string, data: Uint8Array | AsyncIterable<Uint8Array>): Promise<void>;
+  /**
+   * Reads a complete file into memory.
+   * @param name - The name of the file
+   * @returns The contents of the file
+   * @throws {Error} if the file does not exist
+   */
+  readFile(name: string): Promise<Uint8Array>;
+  /**
+   * Reads a file in chunks. The file is only opened when the stream is read.
+   * @param name - The name of the file
+   * @returns The chunks of the file
+   */
+  readStream(name: string): AsyncIterable<Uint8Array>;
+  /**
+   * Gets the size of a file.
+   * @param name - The name of the file
+   * @returns The size in bytes, or undefined if the file does not exist
+   */
+  getSize(name: string): Promise<number | undefined>;
+  /**
+   * Checks whether a file exists.
+   * @param name - The name of the file
+   * @returns True if the file exists
+   */
+  exists(name: string): Promise<boolean>;
+  /**
+   * Lists the names of all files.
+   * @returns The names of the files
+   */
+  list(): Promise<string[]>;
+  /**
+   * Removes a file.
+   * @param name - The name of the file
+   * @throws {Error} if the file does not exist
+   */
+  removeFile(name: string): Promise<void>;
+  /**
+   * Removes all files and the storage itself. It must not be used afterwards.
+   */
+  destroy(): Promise<void>;
+}
+
+/**
+ * Creates the storage for each package that is opened or created.
+ */
+export interface StorageBackend {
+  /**
+   * Creates a new, empty storage.
+   * @returns The storage
+   */
+  createStorage(): Promise<Storage>;
+}
+
+/**
+ * Chooses the storage backend if none is configured: A temporary directory
+ * with Node.js (and Bun and Deno, which provide its APIs), memory otherwise.
+ * @returns The default storage backend of the current runtime
+ */
+export function getDefaultStorageBackend(): StorageBackend {
+  return typeof process !== "undefined" && typeof process.versions.node === "string"
+    ? new NodeStorageBackend()
+    : new MemoryStorageBackend();
+}
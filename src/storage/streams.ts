@@ -0,0 +1,118 @@
+/**
+ * Helpers to work with byte streams independent of the runtime.
+ *
+ * Node.js streams, web `ReadableStream`s and async generators are all
+ * accepted as `AsyncIterable<Uint8Array>`. Some browsers do not implement
+ * async iteration for `ReadableStream`, so they are read with a reader.
+ */
+
+/**
+ * Iterates over the chunks of a stream.
+ * @param source - A web `ReadableStream` or any other async iterable of bytes
+ * @yields The chunks of the stream
+ */
+export async function* readChunks(
+  source: AsyncIterable<Uint8Array> | ReadableStream<Uint8Array>,
+): AsyncGenerator<Uint8Array> {
+  if (!("getReader" in source)) {
+    yield* source;
+    return;
+  }
+
+  const reader = source.getReader();
+  let done = false;
+  try {
+    while (!done) {
+      const result = await reader.read();
+      done = result.done;
+      if (!result.done) {
+        yield result.value;
+      }
+    }
+  } finally {
+    // Stop the stream if the consumer stopped early
+    if (!done) {
+      await reader.cancel();
+    }
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Wraps chunks of bytes as a web `ReadableStream`.
+ * @param source - The chunks of the stream
+ * @returns A stream that reads the chunks on demand
+ */
+export function toReadableStream(
+  source: AsyncIterable<Uint8Array> | Iterable<Uint8Array>,
+): ReadableStream<Uint8Array> {
+  const iterator = (async function* chunks() {
+    yield* source;
+  })();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const result = await iterator.next();
+      if (result.done) {
+        controller.close();
+      } else {
+        controller.enqueue(result.value);
+      }
+    },
+    async cancel() {
+      await iterator.return();
+    },
+  });
+}
+
+/**
+ * Passes chunks of bytes through a web transform stream, e.g. a
+ * `CompressionStream` or a `DecompressionStream`.
+ * @param source - The chunks to transform
+ * @param transform - The transform stream
+ * @returns The transformed chunks
+ */
+export function transformChunks(
+  source: AsyncIterable<Uint8Array> | Iterable<Uint8Array>,
+  transform: GenericTransformStream,
+): AsyncGenerator<Uint8Array> {
+  // The streams accept any buffer source, but are typed with ArrayBuffer backed views only
+  return readChunks(
+    toReadableStream(source).pipeThrough(
+      transform as unknown as ReadableWritablePair<Uint8Array, Uint8Array>,
+    ),
+  );
+}
+
+/**
+ * Joins chunks of bytes into a single array.
+ * @param chunks - The chunks to join
+ * @returns The joined bytes
+ */
+export function concatChunks(chunks: Uint8Array[]): Uint8Array {
+  if (chunks.length === 1 && chunks[0]) {
+    return chunks[0];
+  }
+
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+/**
+ * Reads a stream completely into memory.
+ * @param source - A web `ReadableStream` or any other async iterable of bytes
+ * @returns The contents of the stream
+ */
+export async function readAll(
+  source: AsyncIterable<Uint8Array> | ReadableStream<Uint8Array>,
+): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of readChunks(source)) {
+    chunks.push(chunk);
+  }
+  return concatChunks(chunks);
+}
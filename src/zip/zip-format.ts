@@ -0,0 +1,95 @@
+/**
+ * Constants and helpers shared by the ZIP reader and writer.
+ * @see https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT
+ */
+
+export const LOCAL_FILE_HEADER_SIGNATURE = 0x04_03_4b_50;
+export const CENTRAL_DIRECTORY_HEADER_SIGNATURE = 0x02_01_4b_50;
+export const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06_05_4b_50;
+export const ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06_06_4b_50;
+export const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIGNATURE = 0x07_06_4b_50;
+
+export const LOCAL_FILE_HEADER_SIZE = 30;
+export const CENTRAL_DIRECTORY_HEADER_SIZE = 46;
+export const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+export const ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE = 56;
+export const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIZE = 20;
+
+/**
+ * The ID of the extra field with the 64 bit sizes and offsets.
+ */
+export const ZIP64_EXTRA_FIELD_ID = 0x00_01;
+
+/**
+ * Marks 32 bit fields whose value is stored in the ZIP64 extra field instead.
+ */
+export const ZIP64_MARKER_32 = 0xff_ff_ff_ff;
+/**
+ * Marks 16 bit fields whose value is stored in the ZIP64 end of central directory record instead.
+ */
+export const ZIP64_MARKER_16 = 0xff_ff;
+
+/**
+ * General purpose flag: The entry is encrypted.
+ */
+export const FLAG_ENCRYPTED = 0x00_01;
+/**
+ * General purpose flag: The name is encoded as UTF-8.
+ */
+export const FLAG_UTF8 = 0x08_00;
+
+export enum CompressionMethod {
+  Stored = 0,
+  Deflated = 8,
+}
+
+let crcTable: Uint32Array | undefined;
+
+/**
+ * Calculates the CRC-32 checksum ZIP archives use for their entries.
+ * @param data - The data to calculate the checksum for
+ * @param crc - The checksum of the preceding data, to calculate it in chunks
+ * @returns The checksum as an unsigned 32 bit integer
+ */
+export function crc32(data: Uint8Array, crc = 0): number {
+  crcTable ??= createCrcTable();
+
+  let value = ~crc;
+  for (const byte of data) {
+    value = (crcTable[(value ^ byte) & 0xff] ?? 0) ^ (value >>> 8);
+  }
+  // Bitwise operators work on signed 32 bit integers
+  const result = ~value;
+  return result < 0 ? result + 0x1_00_00_00_00 : result;
+}
+
+function createCrcTable(): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index++) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & 1 ? 0xed_b8_83_20 ^ (value >>> 1) : value >>> 1;
+    }
+    table[index] = value;
+  }
+  return table;
+}
+
+/**
+ * Converts a date to the MS-DOS format ZIP archives use for timestamps.
+ *
+ * The format has a resolution of two seconds and starts in 1980, earlier
+ * dates are stored as 1980-01-01.
+ * @param date - The date, interpreted in local time like other ZIP tools do
+ * @returns The date and the time fields
+ */
+export function toDosDateTime(date: Date): { date: number; time: number } {
+  if (date.getFullYear() < 1980) {
+    return { date: (1 << 5) | 1, time: 0 };
+  }
+
+  return {
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  };
+}
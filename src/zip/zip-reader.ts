@@ -0,0 +1,376 @@
+import { readAll, transformChunks } from "@/storage/streams";
+
+import {
+  CENTRAL_DIRECTORY_HEADER_SIGNATURE,
+  CENTRAL_DIRECTORY_HEADER_SIZE,
+  CompressionMethod,
+  END_OF_CENTRAL_DIRECTORY_SIGNATURE,
+  END_OF_CENTRAL_DIRECTORY_SIZE,
+  FLAG_ENCRYPTED,
+  LOCAL_FILE_HEADER_SIGNATURE,
+  LOCAL_FILE_HEADER_SIZE,
+  ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIGNATURE,
+  ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIZE,
+  ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE,
+  ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE,
+  ZIP64_EXTRA_FIELD_ID,
+  ZIP64_MARKER_16,
+  ZIP64_MARKER_32,
+  crc32,
+} from "./zip-format";
+
+/**
+ * The size of the chunks compressed data is read in.
+ */
+const READ_CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * The maximum length of the comment at the end of an archive.
+ */
+const MAX_COMMENT_LENGTH = 0xff_ff;
+
+/**
+ * The data of a ZIP archive, read in parts as needed.
+ */
+export interface ZipSource {
+  /** The size of the archive in bytes */
+  readonly size: number;
+  /**
+   * Reads a part of the archive.
+   * @param offset - The position to start reading at
+   * @param length - The number of bytes to read
+   * @returns The bytes, fewer than requested if the end of the archive is reached
+   */
+  read(offset: number, length: number): Promise<Uint8Array>;
+  /** Releases the archive, e.g. closes the file it is read from */
+  close?(): Promise<void>;
+}
+
+/**
+ * A file stored in a ZIP archive, as listed in its central directory.
+ */
+export interface ZipEntry {
+  /** The path of the file in the archive */
+  name: string;
+  /** The compression method, see `CompressionMethod` */
+  compressionMethod: number;
+  /** The general purpose flags */
+  flags: number;
+  /** The CRC-32 checksum of the uncompressed data */
+  crc32: number;
+  /** The size of the data in the archive */
+  compressedSize: number;
+  /** The size of the data after decompression */
+  uncompressedSize: number;
+  /** The position of the local file header in the archive */
+  localHeaderOffset: number;
+}
+
+export type ZipErrorType = "not_a_zip" | "corrupted" | "unsupported";
+
+export class ZipError extends Error {
+  readonly type: ZipErrorType;
+
+  constructor(type: ZipErrorType, message: string) {
+    super(message);
+    this.name = "ZipError";
+    this.type = type;
+  }
+}
+
+/**
+ * Creates a source for a ZIP archive that is completely in memory.
+ * @param data - The contents of the archive
+ * @returns The source for `ZipReader.open()`
+ */
+export function bufferSource(data: Uint8Array): ZipSource {
+  return {
+    size: data.length,
+    read: (offset, length) => Promise.resolve(data.subarray(offset, offset + length)),
+  };
+}
+
+/**
+ * Reads ZIP archives in any runtime.
+ *
+ * Only the central directory is read when an archive is opened. The entries
+ * are read on demand and inflated with the web `DecompressionStream`.
+ * Supports stored and deflated entries and ZIP64 archives, but no encryption
+ * and no archives split into multiple files.
+ */
+export class ZipReader {
+  readonly entries: ZipEntry[];
+  private source: ZipSource;
+
+  private constructor(source: ZipSource, entries: ZipEntry[]) {
+    this.source = source;
+    this.entries = entries;
+  }
+
+  /**
+   * Opens an archive by reading its central directory.
+   * @param source - The archive
+   * @returns The reader
+   * @throws {ZipError} if the archive is invalid or uses unsupported features
+   */
+  static async open(source: ZipSource): Promise<ZipReader> {
+    const directory = await findCentralDirectory(source);
+    const data = await readExactly(source, directory.offset, directory.size);
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const decoder = new TextDecoder();
+
+    const entries: ZipEntry[] = [];
+    let position = 0;
+    for (let index = 0; index < directory.entryCount; index++) {
+      if (
+        position + CENTRAL_DIRECTORY_HEADER_SIZE > data.length ||
+        view.getUint32(position, true) !== CENTRAL_DIRECTORY_HEADER_SIGNATURE
+      ) {
+        throw new ZipError("corrupted", "The central directory of the ZIP archive is corrupted.");
+      }
+
+      const nameLength = view.getUint16(position + 28, true);
+      const extraLength = view.getUint16(position + 30, true);
+      const commentLength = view.getUint16(position + 32, true);
+      const nameStart = position + CENTRAL_DIRECTORY_HEADER_SIZE;
+      const extraStart = nameStart + nameLength;
+
+      const entry: ZipEntry = {
+        name: decoder.decode(data.subarray(nameStart, extraStart)),
+        flags: view.getUint16(position + 8, true),
+        compressionMethod: view.getUint16(position + 10, true),
+        crc32: view.getUint32(position + 16, true),
+        compressedSize: view.getUint32(position + 20, true),
+        uncompressedSize: view.getUint32(position + 24, true),
+        localHeaderOffset: view.getUint32(position + 42, true),
+      };
+      applyZip64ExtraField(entry, data.subarray(extraStart, extraStart + extraLength));
+
+      // Directories have no data
+      if (!entry.name.endsWith("/")) {
+        entries.push(entry);
+      }
+      position = extraStart + extraLength + commentLength;
+    }
+
+    return new ZipReader(source, entries);
+  }
+
+  /**
+   * Finds an entry by its path.
+   * @param name - The path of the file in the archive
+   * @returns The entry, or undefined if the archive does not contain it
+   */
+  getEntry(name: string): ZipEntry | undefined {
+    return this.entries.find((entry) => entry.name === name);
+  }
+
+  /**
+   * Reads the uncompressed data of an entry in chunks.
+   *
+   * The checksum is verified once the entry was read completely, so the
+   * error for a corrupted entry comes after its last chunk.
+   * @param entry - The entry to read
+   * @yields The chunks of the uncompressed data
+   * @throws {ZipError} if the entry is corrupted or uses unsupported features
+   */
+  async *stream(entry: ZipEntry): AsyncGenerator<Uint8Array> {
+    let checksum = 0;
+    for await (const chunk of this.streamData(entry)) {
+      checksum = crc32(chunk, checksum);
+      yield chunk;
+    }
+    if (checksum !== entry.crc32) {
+      throw new ZipError(
+        "corrupted",
+        `The ZIP entry '${entry.name}' is corrupted, its checksum does not match.`,
+      );
+    }
+  }
+
+  /**
+   * Reads the uncompressed data of an entry into memory.
+   * @param entry - The entry to read
+   * @returns The uncompressed data
+   * @throws {ZipError} if the entry is corrupted or uses unsupported features
+   */
+  async read(entry: ZipEntry): Promise<Uint8Array> {
+    return await readAll(this.stream(entry));
+  }
+
+  /**
+   * Closes the archive. Its entries cannot be read afterwards.
+   */
+  async close(): Promise<void> {
+    await this.source.close?.();
+  }
+
+  private async *streamData(entry: ZipEntry): AsyncGenerator<Uint8Array> {
+    if (entry.flags & FLAG_ENCRYPTED) {
+      throw new ZipError("unsupported", `The ZIP entry '${entry.name}' is encrypted.`);
+    }
+
+    const header = await readExactly(this.source, entry.localHeaderOffset, LOCAL_FILE_HEADER_SIZE);
+    const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+    if (view.getUint32(0, true) !== LOCAL_FILE_HEADER_SIGNATURE) {
+      throw new ZipError("corrupted", `The ZIP entry '${entry.name}' is corrupted.`);
+    }
+    const dataOffset =
+      entry.localHeaderOffset +
+      LOCAL_FILE_HEADER_SIZE +
+      view.getUint16(26, true) +
+      view.getUint16(28, true);
+
+    const compressed = this.readRange(dataOffset, entry.compressedSize);
+    switch (entry.compressionMethod) {
+      case CompressionMethod.Stored: {
+        yield* compressed;
+        break;
+      }
+      case CompressionMethod.Deflated: {
+        yield* transformChunks(compressed, new DecompressionStream("deflate-raw"));
+        break;
+      }
+      default: {
+        throw new ZipError(
+          "unsupported",
+          `The ZIP entry '${entry.name}' uses the unsupported compression method ${entry.compressionMethod.toFixed(0)}.`,
+        );
+      }
+    }
+  }
+
+  private async *readRange(offset: number, length: number): AsyncGenerator<Uint8Array> {
+    for (let position = offset; position < offset + length; position += READ_CHUNK_SIZE) {
+      yield await readExactly(
+        this.source,
+        position,
+        Math.min(READ_CHUNK_SIZE, offset + length - position),
+      );
+    }
+  }
+}
+
+/**
+ * Locates the central directory using the end of central directory record,
+ * which is at the very end of the archive, followed only by a comment.
+ * @param source - The archive
+ * @returns The position, size and number of entries of the central directory
+ * @throws {ZipError} if the archive has no end of central directory record
+ */
+async function findCentralDirectory(
+  source: ZipSource,
+): Promise<{ offset: number; size: number; entryCount: number }> {
+  const tailLength = Math.min(source.size, END_OF_CENTRAL_DIRECTORY_SIZE + MAX_COMMENT_LENGTH);
+  const tailOffset = source.size - tailLength;
+  const tail = await readExactly(source, tailOffset, tailLength);
+  const view = new DataView(tail.buffer, tail.byteOffset, tail.byteLength);
+
+  // Search backwards, the comment could contain the signature as well
+  let recordOffset = -1;
+  for (let position = tail.length - END_OF_CENTRAL_DIRECTORY_SIZE; position >= 0; position--) {
+    if (
+      view.getUint32(position, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE &&
+      position + END_OF_CENTRAL_DIRECTORY_SIZE + view.getUint16(position + 20, true) <= tail.length
+    ) {
+      recordOffset = position;
+      break;
+    }
+  }
+  if (recordOffset === -1) {
+    throw new ZipError(
+      "not_a_zip",
+      "The end of central directory record was not found. The data is not a ZIP archive or it is truncated.",
+    );
+  }
+
+  if (view.getUint16(recordOffset + 4, true) !== 0) {
+    throw new ZipError("unsupported", "ZIP archives split into multiple files are not supported.");
+  }
+
+  let entryCount = view.getUint16(recordOffset + 10, true);
+  let size = view.getUint32(recordOffset + 12, true);
+  let offset = view.getUint32(recordOffset + 16, true);
+
+  if (entryCount === ZIP64_MARKER_16 || size === ZIP64_MARKER_32 || offset === ZIP64_MARKER_32) {
+    const locatorOffset = tailOffset + recordOffset - ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIZE;
+    if (locatorOffset >= 0) {
+      const locator = await readExactly(
+        source,
+        locatorOffset,
+        ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIZE,
+      );
+      const locatorView = new DataView(locator.buffer, locator.byteOffset, locator.byteLength);
+      if (locatorView.getUint32(0, true) === ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIGNATURE) {
+        const record = await readExactly(
+          source,
+          Number(locatorView.getBigUint64(8, true)),
+          ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE,
+        );
+        const recordView = new DataView(record.buffer, record.byteOffset, record.byteLength);
+        if (recordView.getUint32(0, true) !== ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+          throw new ZipError(
+            "corrupted",
+            "The ZIP64 end of central directory record is corrupted.",
+          );
+        }
+        entryCount = Number(recordView.getBigUint64(32, true));
+        size = Number(recordView.getBigUint64(40, true));
+        offset = Number(recordView.getBigUint64(48, true));
+      }
+    }
+  }
+
+  if (offset + size > source.size) {
+    throw new ZipError(
+      "corrupted",
+      "The central directory is outside of the ZIP archive. The archive is probably truncated.",
+    );
+  }
+
+  return { entryCount, offset, size };
+}
+
+/**
+ * Replaces the fields of an entry that are too large for 32 bits with the
+ * values of the ZIP64 extra field. It only contains the replaced fields.
+ * @param entry - The entry as read from the central directory
+ * @param extra - The extra fields of the entry
+ */
+function applyZip64ExtraField(entry: ZipEntry, extra: Uint8Array): void {
+  const view = new DataView(extra.buffer, extra.byteOffset, extra.byteLength);
+  for (let position = 0; position + 4 <= extra.length; ) {
+    const id = view.getUint16(position, true);
+    const length = view.getUint16(position + 2, true);
+    if (id === ZIP64_EXTRA_FIELD_ID) {
+      let fieldPosition = position + 4;
+      for (const key of ["uncompressedSize", "compressedSize", "localHeaderOffset"] as const) {
+        if (entry[key] === ZIP64_MARKER_32 && fieldPosition + 8 <= position + 4 + length) {
+          entry[key] = Number(view.getBigUint64(fieldPosition, true));
+          fieldPosition += 8;
+        }
+      }
+      return;
+    }
+    position += 4 + length;
+  }
+}
+
+/**
+ * Reads a part of the archive and makes sure it is complete.
+ * @param source - The archive
+ * @param offset - The position to start reading at
+ * @param length - The number of bytes to read
+ * @returns The bytes
+ * @throws {ZipError} if the archive ends before
+ */
+async function readExactly(source: ZipSource, offset: number, length: number): Promise<Uint8Array> {
+  const data = await source.read(offset, length);
+  if (data.length < length) {
+    throw new ZipError(
+      "corrupted",
+      "The ZIP archive ended unexpectedly. It is probably truncated.",
+    );
+  }
+  return data;
+}
@@ -0,0 +1,292 @@
+import { readAll, readChunks, transformChunks } from "@/storage/streams";
+
+import {
+  CENTRAL_DIRECTORY_HEADER_SIGNATURE,
+  CENTRAL_DIRECTORY_HEADER_SIZE,
+  CompressionMethod,
+  END_OF_CENTRAL_DIRECTORY_SIGNATURE,
+  END_OF_CENTRAL_DIRECTORY_SIZE,
+  FLAG_UTF8,
+  LOCAL_FILE_HEADER_SIGNATURE,
+  LOCAL_FILE_HEADER_SIZE,
+  ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIGNATURE,
+  ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIZE,
+  ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE,
+  ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE,
+  ZIP64_EXTRA_FIELD_ID,
+  ZIP64_MARKER_16,
+  ZIP64_MARKER_32,
+  crc32,
+  toDosDateTime,
+} from "./zip-format";
+
+/**
+ * The version of the ZIP specification needed to extract entries without
+ * and with ZIP64 extensions.
+ */
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+/**
+ * A file to add to a ZIP archive.
+ */
+export interface ZipWriterEntry {
+  /** The path of the file in the archive */
+  name: string;
+  /**
+   * The contents of the file, or a function that opens them as a stream.
+   *
+   * The function is called twice for uncompressed entries: once to calculate
+   * the checksum and once to write the contents.
+   */
+  data: Uint8Array | (() => AsyncIterable<Uint8Array>);
+  /**
+   * Whether to deflate the contents. Compressed contents are kept in memory
+   * until they are written.
+   */
+  compress?: boolean;
+  /** When the file was last modified, defaults to now */
+  lastModified?: Date;
+}
+
+/**
+ * An entry whose checksum and sizes are known, so it can be written without
+ * data descriptors.
+ */
+interface PreparedEntry {
+  name: Uint8Array;
+  compressionMethod: CompressionMethod;
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  date: number;
+  time: number;
+  data: Uint8Array | (() => AsyncIterable<Uint8Array>);
+}
+
+/**
+ * Writes a ZIP archive in any runtime.
+ *
+ * The archive is created as a stream, so it can be written to a file, sent
+ * as a response or collected in memory. Entries are deflated with the web
+ * `CompressionStream`. ZIP64 extensions are added when an archive needs them.
+ * @param entries - The files to add, in the order they are written
+ * @yields The chunks of the archive
+ */
+export async function* writeZip(entries: Iterable<ZipWriterEntry>): AsyncGenerator<Uint8Array> {
+  const written: { entry: PreparedEntry; offset: number }[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const prepared = await prepareEntry(entry);
+    const header = createLocalFileHeader(prepared);
+    yield header;
+
+    if (prepared.data instanceof Uint8Array) {
+      yield prepared.data;
+    } else {
+      let size = 0;
+      for await (const chunk of readChunks(prepared.data())) {
+        size += chunk.length;
+        yield chunk;
+      }
+      if (size !== prepared.compressedSize) {
+        throw new Error(
+          `The contents of '${entry.name}' changed while they were written to the ZIP archive.`,
+        );
+      }
+    }
+
+    written.push({ entry: prepared, offset });
+    offset += header.length + prepared.compressedSize;
+  }
+
+  const directoryOffset = offset;
+  for (const { entry, offset: entryOffset } of written) {
+    const header = createCentralDirectoryHeader(entry, entryOffset);
+    yield header;
+    offset += header.length;
+  }
+  const directorySize = offset - directoryOffset;
+
+  const needsZip64 =
+    written.length >= ZIP64_MARKER_16 ||
+    directoryOffset >= ZIP64_MARKER_32 ||
+    directorySize >= ZIP64_MARKER_32;
+  if (needsZip64) {
+    yield createZip64EndOfCentralDirectory(written.length, directoryOffset, directorySize);
+  }
+  yield createEndOfCentralDirectory(written.length, directoryOffset, directorySize);
+}
+
+/**
+ * Calculates the checksum and the sizes of an entry and compresses it.
+ * @param entry - The entry to add to the archive
+ * @returns The entry, ready to be written
+ */
+async function prepareEntry(entry: ZipWriterEntry): Promise<PreparedEntry> {
+  const { date, time } = toDosDateTime(entry.lastModified ?? new Date());
+  const name = new TextEncoder().encode(entry.name);
+
+  if (entry.compress) {
+    const uncompressed =
+      entry.data instanceof Uint8Array ? entry.data : await readAll(entry.data());
+    const compressed = await readAll(
+      transformChunks([uncompressed], new CompressionStream("deflate-raw")),
+    );
+    return {
+      compressedSize: compressed.length,
+      compressionMethod: CompressionMethod.Deflated,
+      crc32: crc32(uncompressed),
+      data: compressed,
+      date,
+      name,
+      time,
+      uncompressedSize: uncompressed.length,
+    };
+  }
+
+  let checksum = 0;
+  let size = 0;
+  if (entry.data instanceof Uint8Array) {
+    checksum = crc32(entry.data);
+    size = entry.data.length;
+  } else {
+    for await (const chunk of readChunks(entry.data())) {
+      checksum = crc32(chunk, checksum);
+      size += chunk.length;
+    }
+  }
+  return {
+    compressedSize: size,
+    compressionMethod: CompressionMethod.Stored,
+    crc32: checksum,
+    data: entry.data,
+    date,
+    name,
+    time,
+    uncompressedSize: size,
+  };
+}
+
+function createLocalFileHeader(entry: PreparedEntry): Uint8Array {
+  // The local header must contain both sizes if one of them needs 64 bits
+  const zip64 =
+    entry.compressedSize >= ZIP64_MARKER_32 || entry.uncompressedSize >= ZIP64_MARKER_32;
+  const extra = zip64
+    ? createZip64ExtraField([entry.uncompressedSize, entry.compressedSize])
+    : new Uint8Array();
+
+  const header = new Uint8Array(LOCAL_FILE_HEADER_SIZE + entry.name.length + extra.length);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, LOCAL_FILE_HEADER_SIGNATURE, true);
+  view.setUint16(4, zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+  view.setUint16(6, FLAG_UTF8, true);
+  view.setUint16(8, entry.compressionMethod, true);
+  view.setUint16(10, entry.time, true);
+  view.setUint16(12, entry.date, true);
+  view.setUint32(14, entry.crc32, true);
+  view.setUint32(18, zip64 ? ZIP64_MARKER_32 : entry.compressedSize, true);
+  view.setUint32(22, zip64 ? ZIP64_MARKER_32 : entry.uncompressedSize, true);
+  view.setUint16(26, entry.name.length, true);
+  view.setUint16(28, extra.length, true);
+  header.set(entry.name, LOCAL_FILE_HEADER_SIZE);
+  header.set(extra, LOCAL_FILE_HEADER_SIZE + entry.name.length);
+  return header;
+}
+
+function createCentralDirectoryHeader(entry: PreparedEntry, offset: number): Uint8Array {
+  // Only the values that do not fit into their 32 bit fields are moved to the extra field
+  const uncompressedSize = Math.min(entry.uncompressedSize, ZIP64_MARKER_32);
+  const compressedSize = Math.min(entry.compressedSize, ZIP64_MARKER_32);
+  const localHeaderOffset = Math.min(offset, ZIP64_MARKER_32);
+  const zip64Values = [
+    [uncompressedSize, entry.uncompressedSize],
+    [compressedSize, entry.compressedSize],
+    [localHeaderOffset, offset],
+  ]
+    .filter(([value]) => value === ZIP64_MARKER_32)
+    .map(([, actual]) => actual ?? 0);
+  const extra = zip64Values.length > 0 ? createZip64ExtraField(zip64Values) : new Uint8Array();
+  const version = zip64Values.length > 0 ? VERSION_ZIP64 : VERSION_DEFAULT;
+
+  const header = new Uint8Array(CENTRAL_DIRECTORY_HEADER_SIZE + entry.name.length + extra.length);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, CENTRAL_DIRECTORY_HEADER_SIGNATURE, true);
+  view.setUint16(4, version, true);
+  view.setUint16(6, version, true);
+  view.setUint16(8, FLAG_UTF8, true);
+  view.setUint16(10, entry.compressionMethod, true);
+  view.setUint16(12, entry.time, true);
+  view.setUint16(14, entry.date, true);
+  view.setUint32(16, entry.crc32, true);
+  view.setUint32(20, compressedSize, true);
+  view.setUint32(24, uncompressedSize, true);
+  view.setUint16(28, entry.name.length, true);
+  view.setUint16(30, extra.length, true);
+  // Comment length, disk number and file attributes stay 0
+  view.setUint32(42, localHeaderOffset, true);
+  header.set(entry.name, CENTRAL_DIRECTORY_HEADER_SIZE);
+  header.set(extra, CENTRAL_DIRECTORY_HEADER_SIZE + entry.name.length);
+  return header;
+}
+
+function createZip64ExtraField(values: number[]): Uint8Array {
+  const field = new Uint8Array(4 + values.length * 8);
+  const view = new DataView(field.buffer);
+  view.setUint16(0, ZIP64_EXTRA_FIELD_ID, true);
+  view.setUint16(2, values.length * 8, true);
+  for (const [index, value] of values.entries()) {
+    view.setBigUint64(4 + index * 8, BigInt(value), true);
+  }
+  return field;
+}
+
+/**
+ * Creates the ZIP64 end of central directory record and its locator, which
+ * directly follow the central directory.
+ * @param entryCount - The number of entries in the archive
+ * @param directoryOffset - The position of the central directory
+ * @param directorySize - The size of the central directory
+ * @returns The record followed by the locator
+ */
+function createZip64EndOfCentralDirectory(
+  entryCount: number,
+  directoryOffset: number,
+  directorySize: number,
+): Uint8Array {
+  const data = new Uint8Array(
+    ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE + ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIZE,
+  );
+  const view = new DataView(data.buffer);
+  view.setUint32(0, ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  // Size of the remaining record
+  view.setBigUint64(4, BigInt(ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE - 12), true);
+  view.setUint16(12, VERSION_ZIP64, true);
+  view.setUint16(14, VERSION_ZIP64, true);
+  view.setBigUint64(24, BigInt(entryCount), true);
+  view.setBigUint64(32, BigInt(entryCount), true);
+  view.setBigUint64(40, BigInt(directorySize), true);
+  view.setBigUint64(48, BigInt(directoryOffset), true);
+
+  const locator = ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE;
+  view.setUint32(locator, ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIGNATURE, true);
+  view.setBigUint64(locator + 8, BigInt(directoryOffset + directorySize), true);
+  view.setUint32(locator + 16, 1, true);
+  return data;
+}
+
+function createEndOfCentralDirectory(
+  entryCount: number,
+  directoryOffset: number,
+  directorySize: number,
+): Uint8Array {
+  const data = new Uint8Array(END_OF_CENTRAL_DIRECTORY_SIZE);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  view.setUint16(8, Math.min(entryCount, ZIP64_MARKER_16), true);
+  view.setUint16(10, Math.min(entryCount, ZIP64_MARKER_16), true);
+  view.setUint32(12, Math.min(directorySize, ZIP64_MARKER_32), true);
+  view.setUint32(16, Math.min(directoryOffset, ZIP64_MARKER_32), true);
+  return data;
+}
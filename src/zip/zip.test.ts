@@ -0,0 +1,221 @@
+import { Buffer } from "node:buffer";
+import { join } from "node:path";
+
+import { Open } from "unzipper";
+import { describe, expect, it } from "vitest";
+
+import { createTestZip, getTempDir, setupTempDir } from "@/anki/anki-package.fixtures";
+import { openLocalFile, writeLocalFile } from "@/storage/node-storage";
+import { readAll } from "@/storage/streams";
+
+import { crc32 } from "./zip-format";
+import { ZipError, ZipReader, bufferSource } from "./zip-reader";
+import type { ZipWriterEntry } from "./zip-writer";
+import { writeZip } from "./zip-writer";
+
+setupTempDir();
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const entries: ZipWriterEntry[] = [
+  { compress: true, data: encoder.encode("a".repeat(10_000)), name: "collection.anki21" },
+  { data: encoder.encode("{}"), name: "media" },
+  {
+    data: async function* chunks() {
+      yield encoder.encode("streamed ");
+      yield encoder.encode("content");
+    },
+    name: "0",
+  },
+  { data: new Uint8Array(), name: "empty" },
+  { data: encoder.encode("Käse"), name: "ünïcödé.txt" },
+];
+
+describe("ZIP", () => {
+  describe("crc32()", () => {
+    it("should calculate the standard check value", () => {
+      expect(crc32(encoder.encode("123456789"))).toBe(0xcb_f4_39_26);
+    });
+
+    it("should calculate checksums in chunks", () => {
+      const data = encoder.encode("123456789");
+
+      expect(crc32(data.subarray(4), crc32(data.subarray(0, 4)))).toBe(crc32(data));
+    });
+  });
+
+  describe("writeZip()", () => {
+    it("should write archives that can be read again", async () => {
+      const archive = await ZipReader.open(bufferSource(await readAll(writeZip(entries))));
+
+      expect(archive.entries.map((entry) => entry.name)).toEqual(entries.map((e) => e.name));
+
+      expect(archive.getEntry("collection.anki21")?.compressedSize).toBeLessThan(10_000);
+      for (const [name, content] of [
+        ["collection.anki21", "a".repeat(10_000)],
+        ["media", "{}"],
+        ["0", "streamed content"],
+        ["empty", ""],
+        ["ünïcödé.txt", "Käse"],
+      ] as const) {
+        const entry = archive.getEntry(name);
+        expect(entry).toBeDefined();
+        if (entry) {
+          expect(decoder.decode(await archive.read(entry))).toBe(content);
+        }
+      }
+    });
+
+    it("should write archives other ZIP tools can read", async () => {
+      const path = join(getTempDir(), "written.zip");
+      await writeLocalFile(path, writeZip(entries));
+
+      const directory = await Open.file(path);
+      const contents = await Promise.all(
+        directory.files.map(async (file) => [file.path, String(await file.buffer())]),
+      );
+
+      expect(contents).toEqual([
+        ["collection.anki21", "a".repeat(10_000)],
+        ["media", "{}"],
+        ["0", "streamed content"],
+        ["empty", ""],
+        ["ünïcödé.txt", "Käse"],
+      ]);
+    });
+
+    it("should use the given modification time", async () => {
+      const lastModified = new Date(2024, 5, 15, 12, 30, 10);
+      const first = await readAll(
+        writeZip([{ data: encoder.encode("x"), lastModified, name: "a" }]),
+      );
+      const second = await readAll(
+        writeZip([{ data: encoder.encode("x"), lastModified, name: "a" }]),
+      );
+
+      expect(Buffer.from(first).equals(Buffer.from(second))).toBe(true);
+    });
+
+    it("should fail if streamed contents change between reading and writing", async () => {
+      let calls = 0;
+      const changing = writeZip([
+        {
+          data: async function* chunks() {
+            calls++;
+            yield encoder.encode("x".repeat(calls));
+          },
+          name: "changing",
+        },
+      ]);
+
+      await expect(readAll(changing)).rejects.toThrow("changed while they were written");
+    });
+  });
+
+  describe("ZipReader", () => {
+    it("should read archives written by other ZIP tools", async () => {
+      const path = join(getTempDir(), "archiver.zip");
+      await createTestZip(path, [
+        { content: "meta content", name: "meta" },
+        { content: Buffer.from("b".repeat(5000)), name: "collection.anki21" },
+      ]);
+
+      const archive = await ZipReader.open(await openLocalFile(path));
+      const meta = archive.getEntry("meta");
+      const collection = archive.getEntry("collection.anki21");
+
+      expect(meta && decoder.decode(await archive.read(meta))).toBe("meta content");
+      expect(collection?.uncompressedSize).toBe(5000);
+      expect(collection && decoder.decode(await archive.read(collection))).toBe("b".repeat(5000));
+      await archive.close();
+    });
+
+    it("should read Anki packages", async () => {
+      const archive = await ZipReader.open(
+        await openLocalFile("./tests/fixtures/anki/mixed-legacy-2.apkg"),
+      );
+      const image = archive.getEntry("0");
+
+      expect(archive.getEntry("collection.anki21")).toBeDefined();
+      expect(image?.uncompressedSize).toBe(10_701);
+      expect(image && (await archive.read(image))).toHaveLength(10_701);
+      await archive.close();
+    });
+
+    it("should reject data that is not a ZIP archive", async () => {
+      const result = await ZipReader.open(bufferSource(encoder.encode("plain text"))).catch(
+        (error: unknown) => error,
+      );
+
+      expect(result).toBeInstanceOf(ZipError);
+      expect((result as ZipError).type).toBe("not_a_zip");
+    });
+
+    it("should reject truncated archives", async () => {
+      const data = await readAll(writeZip(entries));
+
+      const result = await ZipReader.open(bufferSource(data.subarray(0, -10))).catch(
+        (error: unknown) => error,
+      );
+
+      expect(result).toBeInstanceOf(ZipError);
+    });
+
+    it("should reject unsupported compression methods", async () => {
+      const data = await readAll(writeZip([{ data: encoder.encode("x"), name: "a" }]));
+      const archive = await ZipReader.open(bufferSource(data));
+      const entry = archive.entries[0];
+      if (!entry) {
+        throw new Error("Entry not found");
+      }
+
+      await expect(archive.read({ ...entry, compressionMethod: 12 })).rejects.toThrow(
+        "unsupported compression method 12",
+      );
+    });
+
+    it("should reject entries whose checksum does not match", async () => {
+      const data = await readAll(
+        writeZip([{ compress: true, data: encoder.encode("a".repeat(1000)), name: "a" }]),
+      );
+      const archive = await ZipReader.open(bufferSource(data));
+      const entry = archive.entries[0];
+      if (!entry) {
+        throw new Error("Entry not found");
+      }
+
+      await expect(archive.read({ ...entry, crc32: entry.crc32 ^ 1 })).rejects.toThrow(
+        "checksum does not match",
+      );
+    });
+
+    it("should reject entries whose data is corrupted", async () => {
+      const data = await readAll(writeZip([{ data: encoder.encode("stored content"), name: "a" }]));
+      const archive = await ZipReader.open(bufferSource(data));
+      const entry = archive.entries[0];
+      if (!entry) {
+        throw new Error("Entry not found");
+      }
+      // Stored entries start after the local file header and the name
+      const dataOffset = entry.localHeaderOffset + 30 + entry.name.length;
+      data.fill(0, dataOffset, dataOffset + entry.compressedSize);
+
+      const result = await archive.read(entry).catch((error: unknown) => error);
+
+      expect(result).toBeInstanceOf(ZipError);
+      expect((result as ZipError).type).toBe("corrupted");
+    });
+
+    it("should keep the file open until the archive is closed", async () => {
+      const path = join(getTempDir(), "open.zip");
+      await writeLocalFile(path, writeZip(entries));
+
+      const archive = await ZipReader.open(await openLocalFile(path));
+      const media = archive.getEntry("media");
+      await archive.close();
+
+      await expect(media && archive.read(media)).rejects.toThrow();
+    });
+  });
+});